@@ -1,14 +1,48 @@
 
-import React, { useState, useCallback, useEffect, createContext, useContext } from 'react';
-import { ImageFile, ImageFormat, GlobalSettings, AppMode, Language } from './types.ts';
-import { convertImage } from './services/imageProcessor.ts';
+import React, { useState, useCallback, useEffect, useMemo, useRef, createContext, useContext } from 'react';
+import { ImageFile, ImageFormat, GlobalSettings, AppMode, Language, Preset, SettingOverrides, ConversionOptions, ConversionResult, ResponsiveVariant, ImageTransform, RasterPage } from './types.ts';
+import { probeAnimationFile } from './services/animation.ts';
+import { IntakeFile } from './services/fileIntake.ts';
+import { createDefaultSettings, modeDefaults } from './services/settings.ts';
+import { createPreset, loadPresets, mergePresets, parsePresetFile, restoreSettings, savePresets, serializePresets } from './services/presets.ts';
+import { measureQuality } from './services/qualityMetrics.ts';
+import { resolveImageSettings } from './services/overrides.ts';
+import { collectExportEntries, describeResponsiveSet, exportResultFile, planExport, responsiveIndexEntries, writeToDirectory } from './services/exporter.ts';
+import { BatchController, BatchProgress as Progress, createBatchController, pauseProgress, resumeProgress, startProgress } from './services/batchQueue.ts';
+import { buildPictureHtml, convertResponsive } from './services/responsive.ts';
+import { activeFilters } from './services/filters.ts';
+import { fingerprintImage, groupDuplicates } from './services/duplicates.ts';
+import { createRasterPreview, isRasterType } from './services/rasterDecoders.ts';
+import { buildBatchReport, reportEntries, reportFile } from './services/batchReport.ts';
+import { createPathAllocator } from './services/naming.ts';
+import { clearSession, createSessionWriter, estimateStorage, loadSession, saveSettings, setBatchRunning, supportsSessionStore } from './services/sessionStore.ts';
+import { createConverter, defaultConcurrency, runWithConcurrency, supportsWorkerConversion } from './services/workerPool.ts';
 import { translations, TranslationKeys } from './services/translations.ts';
 import Uploader from './components/Uploader.tsx';
 import ImageCard from './components/ImageCard.tsx';
+import CompareViewer from './components/CompareViewer.tsx';
+import TransformEditor from './components/TransformEditor.tsx';
+import TraceSettings from './components/TraceSettings.tsx';
+import GifSettings from './components/GifSettings.tsx';
+import ResizeSettings from './components/ResizeSettings.tsx';
+import MetadataSettings from './components/MetadataSettings.tsx';
+import PngSettings from './components/PngSettings.tsx';
+import FormatRules from './components/FormatRules.tsx';
+import PresetBar from './components/PresetBar.tsx';
+import NamingSettings from './components/NamingSettings.tsx';
+import WatermarkSettings from './components/WatermarkSettings.tsx';
+import BackgroundSettings from './components/BackgroundSettings.tsx';
+import FilterSettings from './components/FilterSettings.tsx';
+import IconSettings from './components/IconSettings.tsx';
+import ResponsiveSettings from './components/ResponsiveSettings.tsx';
+import BatchProgress from './components/BatchProgress.tsx';
+import SessionSettings from './components/SessionSettings.tsx';
+import DuplicatePanel from './components/DuplicatePanel.tsx';
+import BatchReport from './components/BatchReport.tsx';
 import JSZip from 'jszip';
 import { 
   Settings2, Play, Trash2, Zap, Layers, LayoutGrid, 
-  Loader2, Archive, Minimize2, RefreshCw, Sparkles, FolderDown, Languages
+  Loader2, Archive, Minimize2, RefreshCw, Sparkles, FolderDown, Languages, Cpu, Target, AppWindow, RotateCcw
 } from 'lucide-react';
 
 // i18n Context
@@ -24,6 +58,30 @@ const LanguageContext = createContext<{
 
 export const useTranslation = () => useContext(LanguageContext);
 
+/** Drops an image's result, revoking its object URL, so the next run converts it again. */
+const discardResult = (img: ImageFile): ImageFile => {
+  if (img.resultUrl) URL.revokeObjectURL(img.resultUrl);
+  return {
+    ...img,
+    status: 'idle',
+    resultUrl: undefined,
+    resultFormat: undefined,
+    resultSize: undefined,
+    resultWidth: undefined,
+    resultHeight: undefined,
+    resultQuality: undefined,
+    targetSizeReport: undefined,
+    resultFrames: undefined,
+    resultFiles: undefined,
+    resultHtml: undefined,
+    resultVariants: undefined,
+    metrics: undefined,
+    metricsFailed: undefined,
+    elapsed: undefined,
+    error: undefined,
+  };
+};
+
 const App: React.FC = () => {
   const [lang, setLangState] = useState<Language>(() => {
     const saved = localStorage.getItem('pixelflex_lang');
@@ -37,94 +95,416 @@ const App: React.FC = () => {
 
   const t = (key: TranslationKeys) => translations[lang][key] || key;
 
-  const [mode, setMode] = useState<AppMode>(AppMode.CONVERT);
   const [images, setImages] = useState<ImageFile[]>([]);
-  const [settings, setSettings] = useState<GlobalSettings>({
-    mode: AppMode.CONVERT,
-    targetFormat: ImageFormat.WEBP,
-    quality: 0.8,
-    scale: 1.0,
-  });
+  const [settings, setSettings] = useState<GlobalSettings>(createDefaultSettings);
+  const mode = settings.mode;
+  const [presets, setPresetsState] = useState<Preset[]>(loadPresets);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const batch = useRef<BatchController | null>(null);
   const [isZipping, setIsZipping] = useState(false);
   const [isExportingToFolder, setIsExportingToFolder] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Image the filter and watermark previews are drawn on; the first one when unset.
+  const [sampleId, setSampleId] = useState<string | null>(null);
+  const [persistSession, setPersistSession] = useState(
+    () => supportsSessionStore() && localStorage.getItem('pixelflex_session') !== 'off'
+  );
+  // Nothing is written back until the stored session has been read.
+  const [restored, setRestored] = useState(!persistSession);
+  const [resumeRestored, setResumeRestored] = useState(false);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [storageFailed, setStorageFailed] = useState(false);
+  const writeSession = useRef(createSessionWriter());
+  const [reportInZip, setReportInZip] = useState(() => localStorage.getItem('pixelflex_report_zip') === 'on');
+  // Ids queued for previewing and hashing; removing an image drops it so its turn is skipped.
+  const fingerprinting = useRef(new Set<string>());
+  const fingerprintQueue = useRef<Promise<void>>(Promise.resolve());
 
   const supportsFileSystemAccess = 'showDirectoryPicker' in window;
 
+  /** Switching modes starts from that mode's format and quality; presets set the mode directly. */
+  const switchMode = (next: AppMode) => {
+    setSettings(s => (s.mode === next ? s : { ...s, ...modeDefaults(next) }));
+    setActivePresetId(null);
+  };
+
+  /** The list on screen only changes once it is stored, so a reload never loses presets that were shown. */
+  const setPresets = (next: Preset[]): boolean => {
+    if (!savePresets(next)) {
+      alert(t('alert_presets_save_fail'));
+      return false;
+    }
+    setPresetsState(next);
+    return true;
+  };
+
+  const applyPreset = (preset: Preset) => {
+    setSettings(s => ({ ...preset.settings, concurrency: s.concurrency }));
+    setActivePresetId(preset.id);
+  };
+
+  /** Saving under an existing name overwrites that preset. */
+  const saveCurrentPreset = (name: string) => {
+    const preset = createPreset(name, settings);
+    const next = mergePresets(presets, [preset]);
+    if (setPresets(next)) setActivePresetId(next.find(p => p.name === preset.name)!.id);
+  };
+
+  const deletePreset = (id: string) => {
+    if (setPresets(presets.filter(p => p.id !== id)) && activePresetId === id) setActivePresetId(null);
+  };
+
+  const importPresets = async (file: File) => {
+    try {
+      const incoming = parsePresetFile(await file.text());
+      if (incoming.length === 0) throw new Error(t('presets_none_found'));
+      setPresets(mergePresets(presets, incoming));
+    } catch (err: any) {
+      alert(t('alert_presets_import_fail') + err.message);
+    }
+  };
+
+  const exportPresets = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(presets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pixelflex-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleReportInZip = (include: boolean) => {
+    localStorage.setItem('pixelflex_report_zip', include ? 'on' : 'off');
+    setReportInZip(include);
+  };
+
+  const exportReport = (kind: 'csv' | 'json') => {
+    const { path, blob } = reportFile(buildBatchReport(images), kind);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = path;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const refreshStorage = () => {
+    estimateStorage().then(setStorage).catch(() => setStorage(null));
+  };
+
   useEffect(() => {
-    if (mode === AppMode.COMPRESS) {
-      setSettings(s => ({ ...s, targetFormat: 'original', quality: 0.6 }));
-    } else {
-      setSettings(s => ({ ...s, targetFormat: ImageFormat.WEBP, quality: 0.8 }));
+    refreshStorage();
+    if (!persistSession) return;
+    loadSession()
+      .then(session => {
+        if (!session) return;
+        if (session.settings !== undefined) setSettings(s => restoreSettings(session.settings, s.concurrency));
+        setImages(prev => [...session.images, ...prev]);
+        if (session.interrupted && session.images.some(img => img.status === 'idle')) setResumeRestored(true);
+      })
+      .catch(err => console.error('Session restore failed:', err))
+      .finally(() => setRestored(true));
+  }, []);
+
+  // A batch cut short by the reload carries on once the restored state has rendered.
+  useEffect(() => {
+    if (!resumeRestored) return;
+    setResumeRestored(false);
+    processImages();
+  }, [resumeRestored]);
+
+  useEffect(() => {
+    if (!restored || !persistSession) return;
+    writeSession.current(images)
+      .then(() => setStorageFailed(false), err => {
+        console.error('Session save failed:', err);
+        setStorageFailed(true);
+      })
+      .finally(refreshStorage);
+  }, [images, restored, persistSession]);
+
+  useEffect(() => {
+    if (!restored || !persistSession) return;
+    const timer = setTimeout(() => saveSettings(settings).catch(err => console.error('Session save failed:', err)), 500);
+    return () => clearTimeout(timer);
+  }, [settings, restored, persistSession]);
+
+  // Added and restored images are analysed one at a time, so a large drop does
+  // not decode every file at once. Inputs the browser cannot display get a PNG
+  // preview and their page list first, then everything is hashed.
+  useEffect(() => {
+    images.forEach(img => {
+      const needsPreview = isRasterType(img.file.type) && !img.pages;
+      if (fingerprinting.current.has(img.id) || (img.fingerprint && !needsPreview)) return;
+      fingerprinting.current.add(img.id);
+      fingerprintQueue.current = fingerprintQueue.current
+        .then(async () => {
+          if (!fingerprinting.current.has(img.id)) return;
+          let analysed = img;
+          if (needsPreview) {
+            try {
+              const preview = await createRasterPreview(img.file, img.page);
+              if (!fingerprinting.current.has(img.id)) return;
+              analysed = { ...img, previewUrl: replacePreview(img.id, preview) };
+            } catch (err) {
+              // The conversion reports the same error; an empty list stops retrying.
+              console.error('Preview decoding failed:', err);
+              updateImage(img.id, { pages: [] });
+            }
+          }
+          if (!analysed.fingerprint) updateImage(img.id, { fingerprint: await fingerprintImage(analysed) });
+        })
+        .catch(err => console.error('Fingerprinting failed:', err));
+    });
+  }, [images]);
+
+  /** Turning persistence back on writes the whole queue again. */
+  const togglePersistSession = (enabled: boolean) => {
+    localStorage.setItem('pixelflex_session', enabled ? 'on' : 'off');
+    if (enabled) writeSession.current = createSessionWriter();
+    setPersistSession(enabled);
+  };
+
+  /** Frees the stored copy and stops saving; the queue on screen is kept. */
+  const clearCachedSession = async () => {
+    togglePersistSession(false);
+    try {
+      // Let queued writes land first so they cannot re-add what is cleared.
+      await writeSession.current(images).catch(() => {});
+      await clearSession();
+      setStorageFailed(false);
+    } catch (err) {
+      console.error('Session clear failed:', err);
     }
-  }, [mode]);
+    refreshStorage();
+  };
+
+  const updateImage = (id: string, patch: Partial<ImageFile>) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, ...patch } : img));
+  };
 
-  const handleFilesSelected = (files: File[]) => {
-    const newImages: ImageFile[] = files.map(file => ({
+  /**
+   * Swaps in a decoded preview and its page list, freeing the old URL. A
+   * preview for a page that is no longer selected is dropped.
+   */
+  const replacePreview = (id: string, preview: { blob: Blob; pages: RasterPage[]; page: number }) => {
+    const previewUrl = URL.createObjectURL(preview.blob);
+    setImages(prev => prev.map(img => {
+      if (img.id !== id) return img;
+      if (img.page !== undefined && img.page !== preview.page) {
+        URL.revokeObjectURL(previewUrl);
+        return img;
+      }
+      URL.revokeObjectURL(img.previewUrl);
+      return { ...img, previewUrl, pages: preview.pages, page: preview.page };
+    }));
+    return previewUrl;
+  };
+
+  const handleFilesSelected = (files: IntakeFile[]) => {
+    const newImages: ImageFile[] = files.map(({ file, relativePath, archive }) => ({
       id: Math.random().toString(36).substr(2, 9),
       file,
+      relativePath: archive || relativePath.includes('/') ? relativePath : undefined,
+      archive,
       previewUrl: URL.createObjectURL(file),
       originalSize: file.size,
       format: file.type as ImageFormat,
       status: 'idle',
     }));
     setImages(prev => [...prev, ...newImages]);
+
+    newImages.forEach(img => {
+      probeAnimationFile(img.file)
+        .then(animation => animation && updateImage(img.id, { animation }))
+        .catch(() => {});
+    });
+  };
+
+  /** Changing the settings of a finished image puts it back in the queue. */
+  const setImageOverrides = (id: string, overrides: SettingOverrides | undefined) => {
+    setImages(prev => prev.map(img => {
+      if (img.id !== id) return img;
+      if (img.status !== 'completed') return { ...img, overrides };
+      return discardResult({ ...img, overrides });
+    }));
+  };
+
+  /** Editing a finished image puts it back in the queue, like an override does. */
+  const setImageTransform = (id: string, transform: ImageTransform | undefined) => {
+    setImages(prev => prev.map(img => {
+      if (img.id !== id) return img;
+      if (img.status !== 'completed') return { ...img, transform };
+      return discardResult({ ...img, transform });
+    }));
+  };
+
+  /** Switching the page or icon entry of a finished image puts it back in the queue. */
+  const setImagePage = (id: string, page: number) => {
+    const image = images.find(img => img.id === id);
+    if (!image) return;
+    setImages(prev => prev.map(img => {
+      if (img.id !== id) return img;
+      if (img.status !== 'completed') return { ...img, page };
+      return discardResult({ ...img, page });
+    }));
+    createRasterPreview(image.file, page)
+      .then(preview => replacePreview(id, preview))
+      .catch(err => console.error('Preview decoding failed:', err));
   };
 
-  const removeImage = (id: string) => {
+  const removeImages = (ids: string[]) => {
+    const removing = new Set(ids);
+    ids.forEach(id => fingerprinting.current.delete(id));
     setImages(prev => {
-      const removed = prev.find(img => img.id === id);
-      if (removed) {
-        URL.revokeObjectURL(removed.previewUrl);
-        if (removed.resultUrl) URL.revokeObjectURL(removed.resultUrl);
-      }
-      return prev.filter(img => img.id !== id);
+      prev.filter(img => removing.has(img.id)).forEach(img => {
+        URL.revokeObjectURL(img.previewUrl);
+        if (img.resultUrl) URL.revokeObjectURL(img.resultUrl);
+      });
+      return prev.filter(img => !removing.has(img.id));
     });
   };
 
+  const removeImage = (id: string) => removeImages([id]);
+
   const clearAll = () => {
     images.forEach(img => {
       URL.revokeObjectURL(img.previewUrl);
       if (img.resultUrl) URL.revokeObjectURL(img.resultUrl);
     });
+    fingerprinting.current.clear();
     setImages([]);
   };
 
-  const processImages = async () => {
+  /**
+   * Converts `targets` in queue order. Cancelled images go back to idle;
+   * failures count towards progress like completions.
+   */
+  const runBatch = async (targets: ImageFile[]) => {
+    if (targets.length === 0) return;
+    const controller = createBatchController();
+    batch.current = controller;
     setIsProcessing(true);
-    const updatedImages = [...images];
-
-    for (let i = 0; i < updatedImages.length; i++) {
-      if (updatedImages[i].status === 'completed') continue;
-
-      setImages(prev => prev.map((img, idx) => 
-        idx === i ? { ...img, status: 'processing' } : img
-      ));
-
-      try {
-        const targetFormat = settings.targetFormat === 'original' 
-          ? updatedImages[i].format 
-          : settings.targetFormat as ImageFormat;
-
-        const { blob, url } = await convertImage(
-          updatedImages[i].file,
-          targetFormat,
-          settings.quality,
-          settings.scale
-        );
-        
-        setImages(prev => prev.map((img, idx) => 
-          idx === i ? { ...img, status: 'completed', resultUrl: url, resultSize: blob.size } : img
-        ));
-      } catch (err: any) {
-        setImages(prev => prev.map((img, idx) => 
-          idx === i ? { ...img, status: 'error', error: err.message } : img
-        ));
-      }
+    setProgress(startProgress(targets.length));
+    const converter = createConverter(settings.concurrency);
+    if (persistSession) setBatchRunning(true).catch(() => {});
+
+    try {
+      await runWithConcurrency(targets, converter.concurrency, async (image: ImageFile) => {
+        await controller.whenRunning();
+        if (controller.signal.aborted) return;
+        updateImage(image.id, { status: 'processing', error: undefined });
+        const started = performance.now();
+
+        try {
+          const { targetFormat, quality, resize } = resolveImageSettings(image, settings);
+
+          const options: ConversionOptions = mode === AppMode.ICONS
+            ? { targetFormat: ImageFormat.PNG, quality: 1, resize, icons: settings.icons, transform: image.transform, page: image.page }
+            : {
+                targetFormat,
+                quality,
+                resize,
+                targetSize: mode === AppMode.COMPRESS && settings.targetSize ? settings.targetSize : undefined,
+                trace: settings.trace,
+                gif: settings.gif,
+                metadata: settings.metadata,
+                png: mode === AppMode.COMPRESS ? settings.png : undefined,
+                watermark: settings.watermark.enabled ? settings.watermark : undefined,
+                transform: image.transform,
+                filters: activeFilters(settings.filters),
+                background: settings.background,
+                page: image.page,
+              };
+
+          let result: ConversionResult;
+          let variants: ResponsiveVariant[] | undefined;
+          if (mode !== AppMode.ICONS && settings.responsive.enabled) {
+            ({ main: result, variants } = await convertResponsive(
+              converter.convert, image.file, options, settings.responsive, controller.signal));
+          } else {
+            result = await converter.convert(image.file, options, controller.signal);
+          }
+          const outputs = result.files?.map(file => file.blob) ?? variants?.map(variant => variant.blob);
+          
+          updateImage(image.id, {
+            status: 'completed',
+            resultUrl: result.url,
+            resultFormat: result.blob.type,
+            resultSize: outputs
+              ? outputs.reduce((sum, blob) => sum + blob.size, 0)
+              : result.blob.size,
+            resultWidth: result.width,
+            resultHeight: result.height,
+            resultQuality: result.targetSizeReport?.quality ?? quality,
+            targetSizeReport: result.targetSizeReport,
+            resultFrames: result.frames,
+            resultFiles: result.files,
+            resultHtml: result.html,
+            resultVariants: variants,
+            elapsed: performance.now() - started,
+          });
+          // Icon sets are letterboxed squares, and edited, trimmed or padded images
+          // no longer line up with the original; a pixel comparison would be meaningless.
+          const reframed = settings.background.trim || settings.background.pad !== 'none';
+          if (!result.files && !image.transform && !reframed) {
+            // Decoded inputs are compared with the page that was converted: their
+            // preview may still be the raw file, or show another page by now.
+            const original = isRasterType(image.file.type)
+              ? createRasterPreview(image.file, image.page).then(preview => preview.blob)
+              : Promise.resolve(image.previewUrl);
+            original
+              .then(source => measureQuality(source, result.url, settings.background.color))
+              .then(metrics => metrics && updateImage(image.id, { metrics }))
+              .catch(err => {
+                console.error('Quality measurement failed:', err);
+                updateImage(image.id, { metricsFailed: true });
+              });
+          }
+        } catch (err: any) {
+          if (controller.signal.aborted) {
+            updateImage(image.id, { status: 'idle' });
+            return;
+          }
+          updateImage(image.id, { status: 'error', error: err.message, elapsed: performance.now() - started });
+        }
+        setProgress(p => p && { ...p, done: p.done + 1 });
+      });
+    } finally {
+      converter.dispose();
+      if (persistSession) setBatchRunning(false).catch(() => {});
+      batch.current = null;
+      setIsProcessing(false);
+      setProgress(null);
     }
-    setIsProcessing(false);
   };
 
+  const processImages = () => runBatch(images.filter(img => img.status !== 'completed'));
+
+  const retryFailed = () => runBatch(images.filter(img => img.status === 'error'));
+
+  /** Re-runs the whole queue with the current settings, dropping every earlier result. */
+  const reprocessAll = () => {
+    const reset = images.map(discardResult);
+    setImages(reset);
+    runBatch(reset);
+  };
+
+  const pauseBatch = () => {
+    batch.current?.pause();
+    setProgress(p => p && pauseProgress(p));
+  };
+
+  const resumeBatch = () => {
+    batch.current?.resume();
+    setProgress(p => p && resumeProgress(p));
+  };
+
+  const cancelBatch = () => batch.current?.cancel();
+
   const downloadAsZip = async () => {
     const completedImages = images.filter(img => img.status === 'completed' && img.resultUrl);
     if (completedImages.length === 0) return;
@@ -133,16 +513,11 @@ const App: React.FC = () => {
     const zip = new JSZip();
 
     try {
-      const promises = completedImages.map(async (img) => {
-        const response = await fetch(img.resultUrl!);
-        const blob = await response.blob();
-        let ext = blob.type.split('/')[1].split('+')[0];
-        if (ext === 'jpeg') ext = 'jpg';
-        const baseName = img.file.name.split('.').slice(0, -1).join('.');
-        zip.file(`${baseName}.${ext}`, blob);
-      });
-
-      await Promise.all(promises);
+      // One allocator for images and report, so a converted `pixelflex-report.csv` keeps its name.
+      const allocate = createPathAllocator();
+      const entries = await planExport(images, settings.naming, settings.responsive, allocate);
+      if (reportInZip) entries.push(...reportEntries(buildBatchReport(images), allocate));
+      entries.forEach(({ path, blob }) => zip.file(path, blob));
       const content = await zip.generateAsync({ type: "blob" });
       const zipUrl = URL.createObjectURL(content);
       const link = document.createElement('a');
@@ -172,21 +547,12 @@ const App: React.FC = () => {
       // @ts-ignore
       const directoryHandle = await window.showDirectoryPicker();
       
-      for (const img of completedImages) {
-        const response = await fetch(img.resultUrl!);
-        const blob = await response.blob();
-        
-        let ext = blob.type.split('/')[1].split('+')[0];
-        if (ext === 'jpeg') ext = 'jpg';
-        const baseName = img.file.name.split('.').slice(0, -1).join('.');
-        const fileName = `${baseName}.${ext}`;
-
-        const fileHandle = await directoryHandle.getFileHandle(fileName, { create: true });
-        const writable = await fileHandle.createWritable();
-        await writable.write(blob);
-        await writable.close();
+      let skipped = 0;
+      for (const { path, blob } of await planExport(images, settings.naming, settings.responsive)) {
+        const written = await writeToDirectory(directoryHandle, path, blob, settings.naming.conflict);
+        if (written === null) skipped++;
       }
-      alert(t('alert_folder_success'));
+      alert(skipped > 0 ? `${t('alert_folder_success')} ${t('alert_folder_skipped')}${skipped}` : t('alert_folder_success'));
     } catch (err: any) {
       if (err.name !== 'AbortError') {
         console.error("Folder Export Error:", err);
@@ -197,7 +563,59 @@ const App: React.FC = () => {
     }
   };
 
+  const exportContext = (id: string) => {
+    const index = images.findIndex(img => img.id === id);
+    return {
+      img: images[index] as ImageFile | undefined,
+      context: { naming: settings.naming, index: index + 1, total: images.length, date: new Date() },
+    };
+  };
+
+  /**
+   * Single-card download, named with the same template as batch exports.
+   * Multi-file results are zipped on their own, named after the main result.
+   */
+  const downloadImage = async (id: string) => {
+    const { img, context } = exportContext(id);
+    if (!img?.resultUrl) return;
+    let { path, blob } = await exportResultFile(img, context);
+    if (img.resultFiles || img.resultVariants) {
+      const zip = new JSZip();
+      const entries = await collectExportEntries(img, { ...context, naming: { ...settings.naming, layout: 'flat' } });
+      if (img.resultVariants) {
+        entries.push(...responsiveIndexEntries([describeResponsiveSet(img, entries)], settings.responsive.sizes));
+      }
+      entries.forEach(entry => zip.file(entry.path, entry.blob));
+      path = `${path.slice(0, path.lastIndexOf('.'))}.zip`;
+      blob = await zip.generateAsync({ type: 'blob' });
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = path;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /** Markup for the card's copy button; responsive paths match a batch export of this image. */
+  const imageHtml = async (id: string): Promise<string | undefined> => {
+    const { img, context } = exportContext(id);
+    if (!img?.resultVariants) return img?.resultHtml;
+    const entries = await collectExportEntries(img, context);
+    return buildPictureHtml(describeResponsiveSet(img, entries), settings.responsive.sizes);
+  };
+
   const hasCompleted = images.some(img => img.status === 'completed');
+  const hasFailed = images.some(img => img.status === 'error');
+
+  const comparingImage = images.find(img => img.id === comparingId && img.resultUrl);
+  const closeCompare = useCallback(() => setComparingId(null), []);
+  const editingImage = images.find(img => img.id === editingId);
+  const sample = images.find(img => img.id === sampleId) ?? images[0];
+  const closeEditor = useCallback(() => setEditingId(null), []);
+  const report = useMemo(() => buildBatchReport(images), [images]);
+  const duplicateGroups = useMemo(() => groupDuplicates(images), [images]);
+  const duplicateKinds = new Map(duplicateGroups.flatMap(group => group.images.map(img => [img.id, group.kind] as const)));
 
   return (
     <LanguageContext.Provider value={{ lang, t, setLang }}>
@@ -213,7 +631,7 @@ const App: React.FC = () => {
 
             <div className="flex p-1 bg-slate-900/80 rounded-xl border border-slate-700/50">
               <button
-                onClick={() => setMode(AppMode.CONVERT)}
+                onClick={() => switchMode(AppMode.CONVERT)}
                 className={`flex items-center gap-2 px-6 py-2 rounded-lg text-sm font-bold transition-all ${
                   mode === AppMode.CONVERT 
                   ? 'bg-sky-500 text-white shadow-lg shadow-sky-500/20' 
@@ -224,7 +642,7 @@ const App: React.FC = () => {
                 {t('nav_convert')}
               </button>
               <button
-                onClick={() => setMode(AppMode.COMPRESS)}
+                onClick={() => switchMode(AppMode.COMPRESS)}
                 className={`flex items-center gap-2 px-6 py-2 rounded-lg text-sm font-bold transition-all ${
                   mode === AppMode.COMPRESS 
                   ? 'bg-sky-500 text-white shadow-lg shadow-sky-500/20' 
@@ -234,6 +652,17 @@ const App: React.FC = () => {
                 <Minimize2 size={16} />
                 {t('nav_compress')}
               </button>
+              <button
+                onClick={() => switchMode(AppMode.ICONS)}
+                className={`flex items-center gap-2 px-6 py-2 rounded-lg text-sm font-bold transition-all ${
+                  mode === AppMode.ICONS 
+                  ? 'bg-sky-500 text-white shadow-lg shadow-sky-500/20' 
+                  : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <AppWindow size={16} />
+                {t('nav_icons')}
+              </button>
             </div>
             
             <div className="flex items-center gap-4">
@@ -275,9 +704,36 @@ const App: React.FC = () => {
                   </button>
                 </div>
 
+                {(hasCompleted || hasFailed) && (
+                  <BatchReport
+                    report={report}
+                    includeInZip={reportInZip}
+                    onIncludeInZipChange={toggleReportInZip}
+                    onExport={exportReport}
+                  />
+                )}
+
+                {duplicateGroups.length > 0 && (
+                  <DuplicatePanel groups={duplicateGroups} onRemove={removeImages} />
+                )}
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
                   {images.map(img => (
-                    <ImageCard key={img.id} image={img} onRemove={removeImage} />
+                    <ImageCard
+                      key={img.id}
+                      image={img}
+                      onRemove={removeImage}
+                      onCompare={setComparingId}
+                      onOverride={setImageOverrides}
+                      onEdit={setEditingId}
+                      selected={img === sample}
+                      duplicate={duplicateKinds.get(img.id)}
+                      onPage={setImagePage}
+                      onSelect={setSampleId}
+                      onDownload={downloadImage}
+                      getHtml={imageHtml}
+                      defaults={resolveImageSettings({ ...img, overrides: undefined }, settings)}
+                    />
                   ))}
                 </div>
               </section>
@@ -291,6 +747,16 @@ const App: React.FC = () => {
                 <h2 className="text-lg font-bold">{t('config_title')}</h2>
               </div>
 
+              <PresetBar
+                presets={presets}
+                activeId={activePresetId}
+                onApply={applyPreset}
+                onSave={saveCurrentPreset}
+                onDelete={deletePreset}
+                onImport={importPresets}
+                onExport={exportPresets}
+              />
+
               {mode === AppMode.CONVERT && (
                 <div className="space-y-4">
                   <label className="text-sm font-semibold text-slate-300">{t('target_format')}</label>
@@ -309,6 +775,18 @@ const App: React.FC = () => {
                       </button>
                     ))}
                   </div>
+                  {settings.targetFormat === ImageFormat.SVG && (
+                    <TraceSettings
+                      trace={settings.trace}
+                      onChange={(trace) => setSettings(s => ({ ...s, trace }))}
+                    />
+                  )}
+                  {settings.targetFormat === ImageFormat.GIF && (
+                    <GifSettings
+                      gif={settings.gif}
+                      onChange={(gif) => setSettings(s => ({ ...s, gif }))}
+                    />
+                  )}
                 </div>
               )}
 
@@ -317,9 +795,9 @@ const App: React.FC = () => {
                   <label className="text-sm font-semibold text-slate-300">{t('strategy_title')}</label>
                   <div className="space-y-2">
                     <button
-                      onClick={() => setSettings(s => ({ ...s, targetFormat: 'original', quality: 0.6 }))}
+                      onClick={() => setSettings(s => ({ ...s, targetFormat: 'original', quality: 0.6, targetSize: null }))}
                       className={`w-full py-4 px-4 rounded-xl text-sm font-bold flex items-center justify-between transition-all border ${
-                        settings.targetFormat === 'original' 
+                        settings.targetFormat === 'original' && !settings.targetSize
                         ? 'bg-sky-500/10 border-sky-500 text-sky-400' 
                         : 'bg-slate-800/30 text-slate-500 border-slate-700'
                       }`}
@@ -328,12 +806,12 @@ const App: React.FC = () => {
                         <p>{t('strategy_max_title')}</p>
                         <p className="text-[10px] font-normal opacity-60">{t('strategy_max_desc')}</p>
                       </div>
-                      {settings.targetFormat === 'original' && <Zap size={16} fill="currentColor" />}
+                      {settings.targetFormat === 'original' && !settings.targetSize && <Zap size={16} fill="currentColor" />}
                     </button>
                     <button
-                      onClick={() => setSettings(s => ({ ...s, targetFormat: ImageFormat.WEBP, quality: 0.75 }))}
+                      onClick={() => setSettings(s => ({ ...s, targetFormat: ImageFormat.WEBP, quality: 0.75, targetSize: null }))}
                       className={`w-full py-4 px-4 rounded-xl text-sm font-bold flex items-center justify-between transition-all border ${
-                        settings.targetFormat === ImageFormat.WEBP 
+                        settings.targetFormat === ImageFormat.WEBP && !settings.targetSize
                         ? 'bg-sky-500/10 border-sky-500 text-sky-400' 
                         : 'bg-slate-800/30 text-slate-500 border-slate-700'
                       }`}
@@ -342,44 +820,185 @@ const App: React.FC = () => {
                         <p>{t('strategy_web_title')}</p>
                         <p className="text-[10px] font-normal opacity-60">{t('strategy_web_desc')}</p>
                       </div>
-                      {settings.targetFormat === ImageFormat.WEBP && <Sparkles size={16} fill="currentColor" />}
+                      {settings.targetFormat === ImageFormat.WEBP && !settings.targetSize && <Sparkles size={16} fill="currentColor" />}
+                    </button>
+                    <button
+                      onClick={() => setSettings(s => ({
+                        ...s,
+                        quality: 0.9,
+                        targetSize: s.targetSize ?? { bytes: 200 * 1024, allowDownscale: true },
+                      }))}
+                      className={`w-full py-4 px-4 rounded-xl text-sm font-bold flex items-center justify-between transition-all border ${
+                        settings.targetSize 
+                        ? 'bg-sky-500/10 border-sky-500 text-sky-400' 
+                        : 'bg-slate-800/30 text-slate-500 border-slate-700'
+                      }`}
+                    >
+                      <div className="text-left">
+                        <p>{t('strategy_target_title')}</p>
+                        <p className="text-[10px] font-normal opacity-60">{t('strategy_target_desc')}</p>
+                      </div>
+                      {settings.targetSize && <Target size={16} />}
                     </button>
                   </div>
+
+                  {settings.targetSize && (
+                    <div className="space-y-3 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+                      <div className="flex items-center justify-between gap-3">
+                        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('target_size_label')}</label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number" min="1" step="1"
+                            value={Math.round(settings.targetSize.bytes / 1024)}
+                            onChange={(e) => {
+                              const kb = Math.max(1, parseInt(e.target.value, 10) || 1);
+                              setSettings(s => ({ ...s, targetSize: s.targetSize && { ...s.targetSize, bytes: kb * 1024 } }));
+                            }}
+                            className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-sky-400 text-right"
+                          />
+                          <span className="text-xs font-bold text-slate-500">KB</span>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        {(['original', ImageFormat.JPEG, ImageFormat.WEBP] as const).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => setSettings(s => ({ ...s, targetFormat: format }))}
+                            className={`py-2 rounded-lg text-[10px] font-bold uppercase transition-all border ${
+                              settings.targetFormat === format
+                              ? 'bg-sky-500 border-sky-400 text-white'
+                              : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+                            }`}
+                          >
+                            {format === 'original' ? t('target_size_keep_format') : format.split('/')[1]}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={settings.targetSize.allowDownscale}
+                          onChange={(e) => setSettings(s => ({ ...s, targetSize: s.targetSize && { ...s.targetSize, allowDownscale: e.target.checked } }))}
+                          className="accent-sky-500"
+                        />
+                        {t('target_size_downscale')}
+                      </label>
+                    </div>
+                  )}
+                  {settings.targetFormat === 'original' && (
+                    <PngSettings
+                      png={settings.png}
+                      onChange={(png) => setSettings(s => ({ ...s, png }))}
+                    />
+                  )}
                 </div>
               )}
 
+              {mode === AppMode.ICONS && (
+                <IconSettings
+                  icons={settings.icons}
+                  sample={images[0]}
+                  onChange={(icons) => setSettings(s => ({ ...s, icons }))}
+                />
+              )}
+
               <div className="space-y-6 pt-2">
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">
-                      {mode === AppMode.CONVERT ? t('quality_label') : t('compress_label')}
-                    </label>
-                    <span className="text-xs font-mono font-bold text-sky-400 bg-sky-400/10 px-2 py-0.5 rounded">
-                      {Math.round(settings.quality * 100)}%
-                    </span>
-                  </div>
-                  <input
-                    type="range" min="0.05" max="1" step="0.01"
-                    value={settings.quality}
-                    onChange={(e) => setSettings(s => ({ ...s, quality: parseFloat(e.target.value) }))}
-                    className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
-                  />
-                </div>
+                {mode !== AppMode.ICONS && (
+                  <>
+                    <div className="space-y-3">
+                      <div className="flex justify-between items-center">
+                        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                          {mode === AppMode.CONVERT ? t('quality_label') : t('compress_label')}
+                        </label>
+                        <span className="text-xs font-mono font-bold text-sky-400 bg-sky-400/10 px-2 py-0.5 rounded">
+                          {Math.round(settings.quality * 100)}%
+                        </span>
+                      </div>
+                      <input
+                        type="range" min="0.05" max="1" step="0.01"
+                        value={settings.quality}
+                        onChange={(e) => setSettings(s => ({ ...s, quality: parseFloat(e.target.value) }))}
+                        className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                      />
+                    </div>
+
+                    <ResizeSettings
+                      resize={settings.resize}
+                      onChange={(resize) => setSettings(s => ({ ...s, resize }))}
+                    />
+
+                    <ResponsiveSettings
+                      responsive={settings.responsive}
+                      onChange={(responsive) => setSettings(s => ({ ...s, responsive }))}
+                    />
+
+                    <BackgroundSettings
+                      background={settings.background}
+                      onChange={(background) => setSettings(s => ({ ...s, background }))}
+                    />
+
+                    <FilterSettings
+                      filters={settings.filters}
+                      sample={sample}
+                      resize={settings.resize}
+                      onChange={(filters) => setSettings(s => ({ ...s, filters }))}
+                    />
+
+                    <WatermarkSettings
+                      watermark={settings.watermark}
+                      sample={sample}
+                      resize={settings.resize}
+                      onChange={(watermark) => setSettings(s => ({ ...s, watermark }))}
+                    />
+
+                    <MetadataSettings
+                      policy={settings.metadata}
+                      onChange={(metadata) => setSettings(s => ({ ...s, metadata }))}
+                    />
+
+                    <FormatRules
+                      rules={settings.rules}
+                      defaults={settings}
+                      onChange={(rules) => setSettings(s => ({ ...s, rules }))}
+                    />
+                  </>
+                )}
+
+                <NamingSettings
+                  naming={settings.naming}
+                  sample={images.find(img => img.status === 'completed') ?? images[0]}
+                  onChange={(naming) => setSettings(s => ({ ...s, naming }))}
+                />
 
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('scale_label')}</label>
-                    <span className="text-xs font-mono font-bold text-indigo-400 bg-indigo-400/10 px-2 py-0.5 rounded">
-                      x{settings.scale.toFixed(1)}
-                    </span>
+                {supportsWorkerConversion() && (
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+                        <Cpu size={12} />
+                        {t('concurrency_label')}
+                      </label>
+                      <span className="text-xs font-mono font-bold text-emerald-400 bg-emerald-400/10 px-2 py-0.5 rounded">
+                        {settings.concurrency}
+                      </span>
+                    </div>
+                    <input
+                      type="range" min="1" max={Math.max(defaultConcurrency(), 8)} step="1"
+                      value={settings.concurrency}
+                      onChange={(e) => setSettings(s => ({ ...s, concurrency: parseInt(e.target.value, 10) }))}
+                      className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                    />
                   </div>
-                  <input
-                    type="range" min="0.1" max="2" step="0.1"
-                    value={settings.scale}
-                    onChange={(e) => setSettings(s => ({ ...s, scale: parseFloat(e.target.value) }))}
-                    className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                )}
+
+                {supportsSessionStore() && (
+                  <SessionSettings
+                    enabled={persistSession}
+                    usage={storage}
+                    failed={storageFailed}
+                    onToggle={togglePersistSession}
+                    onClear={clearCachedSession}
                   />
-                </div>
+                )}
               </div>
 
               <div className="space-y-3 pt-6 border-t border-slate-800">
@@ -389,9 +1008,40 @@ const App: React.FC = () => {
                   className="w-full bg-gradient-to-r from-sky-500 to-indigo-600 disabled:from-slate-800 disabled:to-slate-900 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-3 shadow-xl shadow-sky-500/10 hover:shadow-sky-500/30 transition-all active:scale-95"
                 >
                   {isProcessing ? <Loader2 className="animate-spin" size={20} /> : <Play size={20} fill="currentColor" />}
-                  {isProcessing ? t('btn_processing') : mode === AppMode.CONVERT ? t('btn_process_convert') : t('btn_process_compress')}
+                  {isProcessing
+                    ? t('btn_processing')
+                    : t(mode === AppMode.CONVERT ? 'btn_process_convert' : mode === AppMode.ICONS ? 'btn_process_icons' : 'btn_process_compress')}
                 </button>
 
+                {progress && (
+                  <BatchProgress
+                    progress={progress}
+                    onPause={pauseBatch}
+                    onResume={resumeBatch}
+                    onCancel={cancelBatch}
+                  />
+                )}
+
+                {!isProcessing && (hasFailed || hasCompleted) && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={retryFailed}
+                      disabled={!hasFailed}
+                      className="flex items-center justify-center gap-1.5 py-2 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-rose-500/50 transition-all disabled:opacity-40"
+                    >
+                      <RotateCcw size={12} />
+                      {t('batch_retry_failed')}
+                    </button>
+                    <button
+                      onClick={reprocessAll}
+                      className="flex items-center justify-center gap-1.5 py-2 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-sky-500/50 transition-all"
+                    >
+                      <RefreshCw size={12} />
+                      {t('batch_reprocess_all')}
+                    </button>
+                  </div>
+                )}
+
                 {hasCompleted && (
                   <div className="grid grid-cols-1 gap-2">
                     <button
@@ -426,6 +1076,15 @@ const App: React.FC = () => {
           </p>
         </footer>
       </div>
+
+      {comparingImage && <CompareViewer image={comparingImage} onClose={closeCompare} />}
+      {editingImage && (
+        <TransformEditor
+          image={editingImage}
+          onApply={(transform) => setImageTransform(editingImage.id, transform)}
+          onClose={closeEditor}
+        />
+      )}
     </LanguageContext.Provider>
   );
 };
@@ -0,0 +1,144 @@
+import React from 'react';
+import { BackgroundOptions, PadMode } from '../types.ts';
+import { MAX_PAD_MARGIN } from '../services/background.ts';
+import { TranslationKeys } from '../services/translations.ts';
+import { PaintBucket } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface BackgroundSettingsProps {
+  background: BackgroundOptions;
+  onChange: (background: BackgroundOptions) => void;
+}
+
+const PAD_MODES: [PadMode, TranslationKeys][] = [
+  ['none', 'background_pad_none'],
+  ['canvas', 'background_pad_canvas'],
+  ['aspect', 'background_pad_aspect'],
+];
+
+const PAD_RATIOS: [number, string][] = [[1, '1:1'], [4 / 3, '4:3'], [3 / 4, '3:4'], [16 / 9, '16:9'], [9 / 16, '9:16']];
+
+const BackgroundSettings: React.FC<BackgroundSettingsProps> = ({ background, onChange }) => {
+  const { t } = useTranslation();
+  const update = (patch: Partial<BackgroundOptions>) => onChange({ ...background, ...patch });
+  const chip = (active: boolean) => `py-2 rounded-lg text-[10px] font-bold transition-all border ${
+    active ? 'bg-orange-500 border-orange-400 text-white' : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+  }`;
+  const size = (key: 'padWidth' | 'padHeight') => (
+    <input
+      type="number" min="1" max="16384" step="1"
+      value={background[key]}
+      onChange={(e) => {
+        const value = parseInt(e.target.value, 10);
+        if (value >= 1 && value <= 16384) update({ [key]: value });
+      }}
+      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-orange-400"
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+        <PaintBucket size={12} />
+        {t('background_title')}
+      </label>
+
+      <div className="space-y-4 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+        <div className="flex items-center gap-3">
+          <input
+            type="color"
+            value={background.color}
+            onChange={(e) => update({ color: e.target.value })}
+            className="w-8 h-8 rounded-lg bg-transparent border border-slate-700 cursor-pointer"
+          />
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase cursor-pointer">
+            <input
+              type="checkbox"
+              checked={background.flatten}
+              onChange={(e) => update({ flatten: e.target.checked })}
+              className="accent-orange-500"
+            />
+            {t('background_flatten')}
+          </label>
+        </div>
+        <p className="text-[10px] text-slate-500">{t('background_color_hint')}</p>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase cursor-pointer">
+            <input
+              type="checkbox"
+              checked={background.trim}
+              onChange={(e) => update({ trim: e.target.checked })}
+              className="accent-orange-500"
+            />
+            {t('background_trim')}
+          </label>
+          {background.trim && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] font-semibold text-slate-500">{t('background_tolerance')}</span>
+              <input
+                type="range" min="0" max="0.5" step="0.01"
+                value={background.trimTolerance}
+                onChange={(e) => update({ trimTolerance: parseFloat(e.target.value) })}
+                className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-orange-500"
+              />
+              <span className="w-10 text-right text-[10px] font-mono font-bold text-orange-400">
+                {Math.round(background.trimTolerance * 100)}%
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('background_pad')}</label>
+          <div className="grid grid-cols-3 gap-2">
+            {PAD_MODES.map(([mode, label]) => (
+              <button key={mode} onClick={() => update({ pad: mode })} className={chip(background.pad === mode)}>
+                {t(label)}
+              </button>
+            ))}
+          </div>
+
+          {background.pad === 'canvas' && (
+            <div className="flex items-center gap-2">
+              {size('padWidth')}
+              <span className="text-slate-500 text-xs">×</span>
+              {size('padHeight')}
+            </div>
+          )}
+
+          {background.pad === 'aspect' && (
+            <div className="grid grid-cols-5 gap-1.5">
+              {PAD_RATIOS.map(([ratio, label]) => (
+                <button
+                  key={label}
+                  onClick={() => update({ padRatio: ratio })}
+                  className={chip(Math.abs(background.padRatio - ratio) < 1e-6)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {background.pad !== 'none' && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] font-semibold text-slate-500">{t('background_margin')}</span>
+              <input
+                type="range" min="0" max={MAX_PAD_MARGIN} step="0.01"
+                value={background.padMargin}
+                onChange={(e) => update({ padMargin: parseFloat(e.target.value) })}
+                className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-orange-500"
+              />
+              <span className="w-10 text-right text-[10px] font-mono font-bold text-orange-400">
+                {Math.round(background.padMargin * 100)}%
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundSettings;
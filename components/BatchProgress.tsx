@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { BatchProgress as Progress, activeTime, estimateRemaining, formatDuration } from '../services/batchQueue.ts';
+import { Pause, Play, Square, Timer } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface BatchProgressProps {
+  progress: Progress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const BatchProgress: React.FC<BatchProgressProps> = ({ progress, onPause, onResume, onCancel }) => {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(Date.now);
+  const paused = progress.pausedAt !== null;
+
+  // Elapsed time and ETA are derived from the clock, so tick while running.
+  useEffect(() => {
+    if (paused) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [paused]);
+
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+  const remaining = estimateRemaining(progress, now);
+
+  return (
+    <div className="space-y-3 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest">
+        <span className="text-slate-400">
+          {paused ? t('batch_paused') : t('batch_running')} · {progress.done} / {progress.total}
+        </span>
+        <span className="font-mono text-sky-400">{Math.round(percent)}%</span>
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${paused ? 'bg-amber-500' : 'bg-gradient-to-r from-sky-500 to-indigo-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-[10px] font-semibold text-slate-500">
+        <span className="flex items-center gap-1">
+          <Timer size={12} />
+          {formatDuration(activeTime(progress, now))}
+        </span>
+        <span>
+          {t('batch_eta')} {remaining === null ? '—' : formatDuration(remaining)}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={paused ? onResume : onPause}
+          className="flex items-center justify-center gap-1.5 py-2 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-sky-500/50 transition-all"
+        >
+          {paused ? <Play size={12} /> : <Pause size={12} />}
+          {paused ? t('batch_resume') : t('batch_pause')}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-1.5 py-2 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-red-500/50 hover:text-red-400 transition-all"
+        >
+          <Square size={12} />
+          {t('batch_cancel')}
+        </button>
+      </div>
+      {paused && <p className="text-[10px] text-slate-500">{t('batch_pause_hint')}</p>}
+    </div>
+  );
+};
+
+export default BatchProgress;
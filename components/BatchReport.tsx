@@ -0,0 +1,117 @@
+import React from 'react';
+import { BatchReport as Report } from '../services/batchReport.ts';
+import { formatSize } from '../services/imageProcessor.ts';
+import { formatDuration } from '../services/batchQueue.ts';
+import { BarChart3, FileSpreadsheet, FileJson } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface BatchReportProps {
+  report: Report;
+  /** Whether ZIP downloads carry the CSV and JSON report. */
+  includeInZip: boolean;
+  onIncludeInZipChange: (include: boolean) => void;
+  onExport: (kind: 'csv' | 'json') => void;
+}
+
+const formatPercent = (percent: number) => `${percent > 0 ? '−' : '+'}${Math.abs(percent).toFixed(1)}%`;
+
+const formatMegapixels = (pixels: number) => `${(pixels / 1_000_000).toFixed(1)} MP`;
+
+const BatchReport: React.FC<BatchReportProps> = ({ report, includeInZip, onIncludeInZipChange, onExport }) => {
+  const { t } = useTranslation();
+  const shrank = report.savedBytes >= 0;
+  const stat = (label: string, value: string) => (
+    <div className="p-2 rounded-lg bg-slate-800/30 border border-slate-700/50">
+      <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">{label}</p>
+      <p className="text-xs font-mono font-bold text-slate-200">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 p-4 rounded-xl bg-emerald-500/5 border border-emerald-500/20">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 text-xs font-bold text-emerald-300 uppercase tracking-widest">
+          <BarChart3 size={14} />
+          {t('report_title')}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onExport('csv')}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-300 transition-all"
+          >
+            <FileSpreadsheet size={12} />
+            CSV
+          </button>
+          <button
+            onClick={() => onExport('json')}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-300 transition-all"
+          >
+            <FileJson size={12} />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-end justify-between gap-4">
+        <div className="text-sm font-mono font-bold text-slate-300">
+          {formatSize(report.originalBytes)} → {formatSize(report.resultBytes)}
+        </div>
+        <div className={`text-right ${shrank ? 'text-emerald-400' : 'text-amber-400'}`}>
+          <p className="text-xl font-black font-mono leading-none">{formatPercent(report.savedPercent)}</p>
+          <p className="text-[10px] font-bold">
+            {shrank ? t('report_saved') : t('report_grew')} {formatSize(Math.abs(report.savedBytes))}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {stat(t('report_completed'), `${report.completed} / ${report.total}`)}
+        {stat(t('report_failed'), String(report.failed))}
+        {stat(t('report_avg_time'), report.averageElapsedMs === null ? '—' : formatDuration(report.averageElapsedMs))}
+        {stat(t('report_pixels'), report.originalPixels > 0
+          ? `${formatMegapixels(report.originalPixels)} → ${formatMegapixels(report.resultPixels)}`
+          : '—')}
+      </div>
+
+      {report.formats.length > 0 && (
+        <table className="w-full text-[10px]">
+          <thead>
+            <tr className="text-slate-500 uppercase tracking-widest text-left">
+              <th className="font-bold py-1">{t('report_format')}</th>
+              <th className="font-bold py-1 text-right">{t('report_count')}</th>
+              <th className="font-bold py-1 text-right">{t('report_size')}</th>
+              <th className="font-bold py-1 text-right">{t('report_change')}</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-slate-300">
+            {report.formats.map(row => {
+              const percent = row.originalBytes > 0 ? ((row.originalBytes - row.resultBytes) / row.originalBytes) * 100 : 0;
+              return (
+                <tr key={`${row.input}>${row.output}`} className="border-t border-slate-800">
+                  <td className="py-1 font-bold">{row.input} → {row.output}</td>
+                  <td className="py-1 text-right">{row.count}</td>
+                  <td className="py-1 text-right">{formatSize(row.originalBytes)} → {formatSize(row.resultBytes)}</td>
+                  <td className={`py-1 text-right font-bold ${percent >= 0 ? 'text-emerald-400' : 'text-amber-400'}`}>
+                    {formatPercent(percent)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase cursor-pointer">
+        <input
+          type="checkbox"
+          checked={includeInZip}
+          onChange={(e) => onIncludeInZipChange(e.target.checked)}
+          className="accent-emerald-500"
+        />
+        {t('report_in_zip')}
+      </label>
+    </div>
+  );
+};
+
+export default BatchReport;
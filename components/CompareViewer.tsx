@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageFile } from '../types.ts';
+import { formatSize } from '../services/imageProcessor.ts';
+import { formatPsnr, isPoorQuality } from '../services/qualityMetrics.ts';
+import { X, ZoomIn, ZoomOut, Maximize, SplitSquareHorizontal, Contrast } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface CompareViewerProps {
+  image: ImageFile;
+  onClose: () => void;
+}
+
+type ViewMode = 'split' | 'difference';
+
+const MAX_ZOOM = 32;
+const ZOOM_STEP = 1.25;
+/** Differences are brightened so faint compression artifacts become visible. */
+const DIFFERENCE_GAIN = 6;
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Full-screen before/after viewer. Both images share one transform, so zoom
+ * and pan stay in sync; the result is scaled onto the original's pixel grid
+ * when the output was resized.
+ */
+const CompareViewer: React.FC<CompareViewerProps> = ({ image, onClose }) => {
+  const { t } = useTranslation();
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const [split, setSplit] = useState(0.5);
+  const [mode, setMode] = useState<ViewMode>('split');
+  const drag = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; view: View } | null>(null);
+
+  const fit = (size = natural) => {
+    const stage = stageRef.current;
+    if (!stage || !size) return;
+    const zoom = Math.min(stage.clientWidth / size.width, stage.clientHeight / size.height);
+    setView({
+      zoom,
+      x: (stage.clientWidth - size.width * zoom) / 2,
+      y: (stage.clientHeight - size.height * zoom) / 2,
+    });
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const zoomAt = (factor: number, cx: number, cy: number) => {
+    setView(v => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(0.02, v.zoom * factor));
+      const k = zoom / v.zoom;
+      return { zoom, x: cx - (cx - v.x) * k, y: cy - (cy - v.y) * k };
+    });
+  };
+
+  const zoomCenter = (factor: number) => {
+    const stage = stageRef.current;
+    if (stage) zoomAt(factor, stage.clientWidth / 2, stage.clientHeight / 2);
+  };
+
+  const actualPixels = () => {
+    const stage = stageRef.current;
+    if (stage) zoomAt(1 / view.zoom, stage.clientWidth / 2, stage.clientHeight / 2);
+  };
+
+  const onWheel = (e: React.WheelEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const onPointerDown = (e: React.PointerEvent, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    drag.current = { kind, startX: e.clientX, startY: e.clientY, view };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const state = drag.current;
+    if (!state) return;
+    if (state.kind === 'pan') {
+      setView({ ...state.view, x: state.view.x + e.clientX - state.startX, y: state.view.y + e.clientY - state.startY });
+    } else {
+      const rect = stageRef.current!.getBoundingClientRect();
+      setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    }
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  // Split position converted from stage space into the image's own space.
+  const stageWidth = stageRef.current?.clientWidth || 0;
+  const clipLeft = natural
+    ? Math.min(100, Math.max(0, ((split * stageWidth - view.x) / (natural.width * view.zoom)) * 100))
+    : 50;
+  const pixelated = view.zoom >= 2 ? 'pixelated' : 'auto';
+  const metrics = image.metrics;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-800">
+        <div className="min-w-0">
+          <h2 className="text-sm font-bold text-slate-200 truncate">{image.file.name}</h2>
+          <p className="text-[11px] font-semibold text-slate-500">
+            {formatSize(image.originalSize)} → {image.resultSize ? formatSize(image.resultSize) : '-'}
+            {metrics && (
+              <span className={isPoorQuality(metrics) ? 'text-amber-400' : 'text-emerald-400'}>
+                {' '}· PSNR {formatPsnr(metrics.psnr)} · SSIM {metrics.ssim.toFixed(3)}
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-900/80 p-1 rounded-xl border border-slate-800">
+            {([['split', SplitSquareHorizontal, 'compare_split'], ['difference', Contrast, 'compare_difference']] as const).map(([value, Icon, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                  mode === value ? 'bg-sky-500 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <Icon size={14} />
+                {t(label)}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => zoomCenter(1 / ZOOM_STEP)} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('compare_zoom_out')}>
+            <ZoomOut size={18} />
+          </button>
+          <span className="w-14 text-center text-xs font-mono font-bold text-sky-400">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => zoomCenter(ZOOM_STEP)} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('compare_zoom_in')}>
+            <ZoomIn size={18} />
+          </button>
+          <button onClick={actualPixels} className="px-2 py-1.5 rounded-lg text-xs font-bold text-slate-400 hover:text-white hover:bg-slate-800">
+            1:1
+          </button>
+          <button onClick={() => fit()} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title={t('compare_fit')}>
+            <Maximize size={18} />
+          </button>
+          <button onClick={onClose} className="ml-2 p-2 rounded-full bg-slate-800 hover:bg-red-500 text-white transition-all">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={stageRef}
+        className="relative flex-1 overflow-hidden cursor-grab active:cursor-grabbing select-none touch-none"
+        onWheel={onWheel}
+        onPointerDown={(e) => onPointerDown(e, 'pan')}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+      >
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{
+            width: natural?.width,
+            height: natural?.height,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+            filter: mode === 'difference' ? `brightness(${DIFFERENCE_GAIN})` : undefined,
+            isolation: 'isolate',
+          }}
+        >
+          <img
+            src={image.previewUrl}
+            alt=""
+            draggable={false}
+            onLoad={(e) => {
+              const size = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+              setNatural(size);
+              fit(size);
+            }}
+            className="absolute inset-0 w-full h-full max-w-none"
+            style={{ imageRendering: pixelated }}
+          />
+          {image.resultUrl && (
+            <img
+              src={image.resultUrl}
+              alt=""
+              draggable={false}
+              className="absolute inset-0 w-full h-full max-w-none"
+              style={{
+                imageRendering: pixelated,
+                mixBlendMode: mode === 'difference' ? 'difference' : undefined,
+                clipPath: mode === 'split' ? `inset(0 0 0 ${clipLeft}%)` : undefined,
+              }}
+            />
+          )}
+        </div>
+
+        {mode === 'split' && (
+          <div
+            className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-sky-400 shadow-[0_0_12px_rgba(56,189,248,0.8)] cursor-ew-resize"
+            style={{ left: `${split * 100}%` }}
+            onPointerDown={(e) => onPointerDown(e, 'split')}
+          >
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-sky-500 border-2 border-white shadow-xl" />
+          </div>
+        )}
+
+        {mode === 'split' && (
+          <>
+            <span className="absolute top-4 left-4 px-2 py-1 rounded-lg bg-slate-950/80 text-[10px] font-bold uppercase tracking-widest text-slate-300">
+              {t('card_original')}
+            </span>
+            <span className="absolute top-4 right-4 px-2 py-1 rounded-lg bg-slate-950/80 text-[10px] font-bold uppercase tracking-widest text-sky-400">
+              {t('card_result')}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { DuplicateGroup } from '../services/duplicates.ts';
+import { formatSize } from '../services/imageProcessor.ts';
+import { CopyCheck, X, Star } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface DuplicatePanelProps {
+  groups: DuplicateGroup[];
+  onRemove: (ids: string[]) => void;
+}
+
+const othersThanBest = (group: DuplicateGroup) =>
+  group.images.filter(img => img !== group.best).map(img => img.id);
+
+const DuplicatePanel: React.FC<DuplicatePanelProps> = ({ groups, onRemove }) => {
+  const { t } = useTranslation();
+  const redundant = groups.reduce((sum, group) => sum + group.images.length - 1, 0);
+
+  return (
+    <div className="space-y-3 p-4 rounded-xl bg-teal-500/5 border border-teal-500/20">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 text-xs font-bold text-teal-300 uppercase tracking-widest">
+          <CopyCheck size={14} />
+          {t('dup_title')} · {groups.length}
+        </span>
+        <button
+          onClick={() => onRemove(groups.flatMap(othersThanBest))}
+          className="px-3 py-1.5 rounded-lg text-[10px] font-bold border border-teal-500/40 bg-teal-500/10 text-teal-300 hover:bg-teal-500 hover:text-white transition-all"
+        >
+          {t('dup_keep_best_all')} (−{redundant})
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500">{t('dup_hint')}</p>
+
+      {groups.map(group => (
+        <div key={group.best.id} className="space-y-2 p-3 rounded-lg bg-slate-900/50 border border-slate-700/50">
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-[10px] font-bold uppercase tracking-widest ${group.kind === 'exact' ? 'text-teal-400' : 'text-amber-400'}`}>
+              {t(group.kind === 'exact' ? 'dup_exact' : 'dup_similar')} · {group.images.length}
+            </span>
+            <button
+              onClick={() => onRemove(othersThanBest(group))}
+              className="text-[10px] font-bold text-slate-400 hover:text-teal-300 transition-colors"
+            >
+              {t('dup_keep_best')}
+            </button>
+          </div>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {group.images.map(img => {
+              const best = img === group.best;
+              return (
+                <div
+                  key={img.id}
+                  className={`relative shrink-0 w-28 rounded-lg overflow-hidden border ${best ? 'border-teal-400' : 'border-slate-700'}`}
+                >
+                  <img src={img.previewUrl} alt={img.file.name} className="w-full h-16 object-cover bg-slate-950" />
+                  {best ? (
+                    <span className="absolute top-1 left-1 inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-teal-500 text-[9px] font-bold text-white">
+                      <Star size={9} />
+                      {t('dup_best')}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => onRemove([img.id])}
+                      title={t('dup_remove')}
+                      className="absolute top-1 right-1 p-1 rounded-full bg-slate-950/80 hover:bg-red-500 text-white transition-all"
+                    >
+                      <X size={10} />
+                    </button>
+                  )}
+                  <div className="px-1.5 py-1 bg-slate-900">
+                    <p className="text-[9px] font-semibold text-slate-300 truncate" title={img.relativePath ?? img.file.name}>
+                      {img.file.name}
+                    </p>
+                    <p className="text-[9px] font-mono text-slate-500">
+                      {img.fingerprint!.width > 0 && `${img.fingerprint!.width}×${img.fingerprint!.height} · `}
+                      {formatSize(img.originalSize)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DuplicatePanel;
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FilterKind, FilterStep, ImageFile, ResizeOptions } from '../types.ts';
+import { FILTER_KINDS, FILTER_SPECS, MAX_FILTER_STEPS, activeFilters, applyFilters, createFilterStep, scaleFilters } from '../services/filters.ts';
+import { computeResizeGeometry } from '../services/resize.ts';
+import { getContext2D } from '../services/canvas.ts';
+import { TranslationKeys } from '../services/translations.ts';
+import { Wand2, ChevronUp, ChevronDown, X, Plus } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface FilterSettingsProps {
+  filters: FilterStep[];
+  /** Queue image the live preview is rendered on. */
+  sample?: ImageFile;
+  resize: ResizeOptions;
+  onChange: (filters: FilterStep[]) => void;
+}
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_MAX_HEIGHT = 240;
+
+const KIND_LABELS: Record<FilterKind, TranslationKeys> = {
+  grayscale: 'filter_grayscale',
+  brightness: 'filter_brightness',
+  contrast: 'filter_contrast',
+  saturation: 'filter_saturation',
+  sharpen: 'filter_sharpen',
+  blur: 'filter_blur',
+  autoLevels: 'filter_auto_levels',
+};
+
+const formatAmount = (kind: FilterKind, amount: number): string => {
+  if (kind === 'sharpen') return amount.toFixed(2);
+  if (kind === 'autoLevels') return `${(amount * 100).toFixed(1)}%`;
+  const percent = Math.round(amount * 100);
+  return `${percent > 0 && kind !== 'grayscale' ? '+' : ''}${percent}%`;
+};
+
+const FilterSettings: React.FC<FilterSettingsProps> = ({ filters, sample, resize, onChange }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sampleImage, setSampleImage] = useState<HTMLImageElement | null>(null);
+  const [adding, setAdding] = useState<FilterKind>('sharpen');
+  const [showOriginal, setShowOriginal] = useState(false);
+  const active = activeFilters(filters);
+
+  useEffect(() => {
+    if (!sample) {
+      setSampleImage(null);
+      return;
+    }
+    const img = new Image();
+    img.onload = () => setSampleImage(img);
+    img.src = sample.previewUrl;
+  }, [sample?.previewUrl]);
+
+  // Rendered at the output's aspect ratio with radii scaled to the preview,
+  // so sharpening and blur look as strong as they will at full size.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !sampleImage) return;
+    const geometry = computeResizeGeometry(sampleImage.naturalWidth, sampleImage.naturalHeight, resize);
+    const ratio = Math.min(1, PREVIEW_WIDTH / geometry.width, PREVIEW_MAX_HEIGHT / geometry.height);
+    const width = Math.max(1, Math.round(geometry.width * ratio));
+    const height = Math.max(1, Math.round(geometry.height * ratio));
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = getContext2D(canvas);
+    ctx.drawImage(sampleImage, geometry.sx, geometry.sy, geometry.sw, geometry.sh, 0, 0, width, height);
+    if (active && !showOriginal) {
+      const pixels = ctx.getImageData(0, 0, width, height);
+      applyFilters(pixels, scaleFilters(active, ratio));
+      ctx.putImageData(pixels, 0, 0);
+    }
+  }, [filters, sampleImage, resize, showOriginal]);
+
+  const updateStep = (id: string, patch: Partial<FilterStep>) =>
+    onChange(filters.map(step => (step.id === id ? { ...step, ...patch } : step)));
+
+  const moveStep = (index: number, by: -1 | 1) => {
+    const next = [...filters];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    onChange(next);
+  };
+
+  const slider = (step: FilterStep, key: 'amount' | 'radius') => {
+    const range = FILTER_SPECS[step.kind][key];
+    if (!range) return null;
+    return (
+      <div className="flex items-center gap-2">
+        <span className="w-12 text-[10px] font-semibold text-slate-500">{t(key === 'amount' ? 'filter_amount' : 'filter_radius')}</span>
+        <input
+          type="range" min={range.min} max={range.max} step={range.step}
+          value={step[key]}
+          disabled={!step.enabled}
+          onChange={(e) => updateStep(step.id, { [key]: parseFloat(e.target.value) })}
+          className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-fuchsia-500 disabled:opacity-40"
+        />
+        <span className="w-12 text-right text-[10px] font-mono font-bold text-fuchsia-400">
+          {key === 'amount' ? formatAmount(step.kind, step.amount) : `${step.radius}px`}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+        <Wand2 size={12} />
+        {t('filters_title')}
+      </label>
+
+      {filters.length > 0 && (
+        <div className="space-y-3 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+          {sampleImage && (
+            <div className="space-y-1">
+              <canvas
+                ref={canvasRef}
+                onPointerDown={() => setShowOriginal(true)}
+                onPointerUp={() => setShowOriginal(false)}
+                onPointerLeave={() => setShowOriginal(false)}
+                className="w-full rounded-lg border border-slate-800 bg-slate-950 cursor-pointer"
+              />
+              <p className="text-[10px] text-slate-500">{t('filters_preview_hint')}</p>
+            </div>
+          )}
+
+          {filters.map((step, index) => (
+            <div key={step.id} className="space-y-2 p-3 rounded-lg bg-slate-800/30 border border-slate-700/50">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={step.enabled}
+                  onChange={(e) => updateStep(step.id, { enabled: e.target.checked })}
+                  className="accent-fuchsia-500"
+                />
+                <span className={`flex-1 text-[10px] font-bold uppercase tracking-widest ${step.enabled ? 'text-slate-300' : 'text-slate-600'}`}>
+                  {index + 1}. {t(KIND_LABELS[step.kind])}
+                </span>
+                <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-slate-300 disabled:opacity-30">
+                  <ChevronUp size={14} />
+                </button>
+                <button onClick={() => moveStep(index, 1)} disabled={index === filters.length - 1} className="text-slate-500 hover:text-slate-300 disabled:opacity-30">
+                  <ChevronDown size={14} />
+                </button>
+                <button onClick={() => onChange(filters.filter(s => s.id !== step.id))} className="text-slate-500 hover:text-red-400">
+                  <X size={14} />
+                </button>
+              </div>
+              {slider(step, 'amount')}
+              {slider(step, 'radius')}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {filters.length < MAX_FILTER_STEPS && (
+        <div className="flex items-center gap-2">
+          <select
+            value={adding}
+            onChange={(e) => setAdding(e.target.value as FilterKind)}
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200"
+          >
+            {FILTER_KINDS.map(kind => <option key={kind} value={kind}>{t(KIND_LABELS[kind])}</option>)}
+          </select>
+          <button
+            onClick={() => onChange([...filters, createFilterStep(adding)])}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-fuchsia-500/50 hover:text-fuchsia-300 transition-all"
+          >
+            <Plus size={12} />
+            {t('filters_add')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterSettings;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { FormatRule, ImageFormat, ResizeOptions } from '../types.ts';
+import { createFormatRule } from '../services/overrides.ts';
+import { ListFilter, Plus, Trash2 } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+import OverrideEditor from './OverrideEditor.tsx';
+
+interface FormatRulesProps {
+  rules: FormatRule[];
+  defaults: { quality: number; resize: ResizeOptions };
+  onChange: (rules: FormatRule[]) => void;
+}
+
+const formatName = (format: ImageFormat) => format.split('/')[1].split('+')[0].toUpperCase();
+
+const FormatRules: React.FC<FormatRulesProps> = ({ rules, defaults, onChange }) => {
+  const { t } = useTranslation();
+  const used = new Set(rules.map(r => r.source));
+  const next = Object.values(ImageFormat).find(format => !used.has(format));
+
+  const updateRule = (id: string, patch: Partial<FormatRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+          <ListFilter size={12} />
+          {t('rules_title')}
+        </label>
+        {next && (
+          <button
+            onClick={() => onChange([...rules, createFormatRule(next)])}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase text-amber-400 hover:text-amber-300"
+          >
+            <Plus size={12} />
+            {t('rules_add')}
+          </button>
+        )}
+      </div>
+      {rules.length === 0 && <p className="text-[10px] text-slate-500">{t('rules_hint')}</p>}
+
+      {rules.map(rule => (
+        <div key={rule.id} className="space-y-3 p-4 rounded-xl bg-slate-900/50 border border-amber-500/20">
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t('rules_source')}
+              <select
+                value={rule.source}
+                onChange={(e) => updateRule(rule.id, { source: e.target.value as ImageFormat })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-amber-400"
+              >
+                {Object.values(ImageFormat).map(format => (
+                  <option key={format} value={format} disabled={format !== rule.source && used.has(format)}>
+                    {formatName(format)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-800"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <OverrideEditor
+            overrides={rule.overrides}
+            defaults={defaults}
+            onChange={(overrides) => updateRule(rule.id, { overrides: overrides ?? {} })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FormatRules;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { GifOptions } from '../types.ts';
+import { Palette } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface GifSettingsProps {
+  gif: GifOptions;
+  onChange: (gif: GifOptions) => void;
+}
+
+const GifSettings: React.FC<GifSettingsProps> = ({ gif, onChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-300 uppercase tracking-widest">
+        <Palette size={14} className="text-sky-400" />
+        {t('gif_title')}
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('gif_colors')}</label>
+          <span className="text-[10px] font-mono font-bold text-sky-400 bg-sky-400/10 px-2 py-0.5 rounded">{gif.colors}</span>
+        </div>
+        <input
+          type="range" min="2" max="256" step="1"
+          value={gif.colors}
+          onChange={(e) => onChange({ ...gif, colors: parseInt(e.target.value, 10) })}
+          className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={gif.dither}
+          onChange={(e) => onChange({ ...gif, dither: e.target.checked })}
+          className="accent-sky-500"
+        />
+        {t('gif_dither')}
+      </label>
+    </div>
+  );
+};
+
+export default GifSettings;
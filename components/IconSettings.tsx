@@ -0,0 +1,178 @@
+import React from 'react';
+import { IconOptions, ImageFile } from '../types.ts';
+import { ICO_SIZES, PWA_SIZES } from '../services/iconSet.ts';
+import { AppWindow } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+import { TranslationKeys } from '../services/translations.ts';
+
+interface IconSettingsProps {
+  icons: IconOptions;
+  /** Queue image shown in the shape previews. */
+  sample?: ImageFile;
+  onChange: (icons: IconOptions) => void;
+}
+
+const ENCODINGS: { encoding: IconOptions['icoEncoding']; label: TranslationKeys }[] = [
+  { encoding: 'auto', label: 'icons_encoding_auto' },
+  { encoding: 'png', label: 'icons_encoding_png' },
+  { encoding: 'bmp', label: 'icons_encoding_bmp' },
+];
+
+const toggleSize = (sizes: number[], size: number) =>
+  sizes.includes(size) ? sizes.filter(s => s !== size) : [...sizes, size].sort((a, b) => a - b);
+
+const IconSettings: React.FC<IconSettingsProps> = ({ icons, sample, onChange }) => {
+  const { t } = useTranslation();
+  const update = (patch: Partial<IconOptions>) => onChange({ ...icons, ...patch });
+
+  const sizeChips = (all: number[], selected: number[], onToggle: (size: number) => void) => (
+    <div className="flex flex-wrap gap-1.5">
+      {all.map(size => (
+        <button
+          key={size}
+          onClick={() => onToggle(size)}
+          className={`px-2 py-1 rounded-md text-[10px] font-mono font-bold transition-all border ${
+            selected.includes(size)
+            ? 'bg-teal-500 border-teal-400 text-white'
+            : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+          }`}
+        >
+          {size}
+        </button>
+      ))}
+    </div>
+  );
+
+  const textFields: { key: 'appName' | 'shortName' | 'basePath'; label: TranslationKeys; maxLength: number }[] = [
+    { key: 'appName', label: 'icons_app_name', maxLength: 100 },
+    { key: 'shortName', label: 'icons_short_name', maxLength: 40 },
+    { key: 'basePath', label: 'icons_base_path', maxLength: 200 },
+  ];
+
+  // Inset as a percentage of the preview box, matching the maskable padding.
+  const inset = `${icons.maskablePadding * 100}%`;
+
+  return (
+    <div className="space-y-4">
+      <label className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+        <AppWindow size={16} className="text-teal-400" />
+        {t('icons_title')}
+      </label>
+
+      {sample && (
+        <div className="flex items-end justify-around p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+          <div className="flex flex-col items-center gap-2">
+            <img src={sample.previewUrl} alt="" className="w-8 h-8 object-contain" />
+            <span className="text-[9px] font-bold text-slate-500 uppercase">ICO</span>
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <div className="w-14 h-14 rounded-2xl overflow-hidden" style={{ background: icons.background }}>
+              <img src={sample.previewUrl} alt="" className="w-full h-full object-contain" />
+            </div>
+            <span className="text-[9px] font-bold text-slate-500 uppercase">Apple</span>
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <div className="w-14 h-14 rounded-full overflow-hidden" style={{ background: icons.background, padding: inset }}>
+              <img src={sample.previewUrl} alt="" className="w-full h-full object-contain" />
+            </div>
+            <span className="text-[9px] font-bold text-slate-500 uppercase">{t('icons_maskable')}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('icons_ico_sizes')}</label>
+        {sizeChips(ICO_SIZES, icons.icoSizes, size => update({ icoSizes: toggleSize(icons.icoSizes, size) }))}
+        <div className="grid grid-cols-3 gap-2">
+          {ENCODINGS.map(({ encoding, label }) => (
+            <button
+              key={encoding}
+              onClick={() => update({ icoEncoding: encoding })}
+              className={`py-2 rounded-lg text-[10px] font-bold transition-all border ${
+                icons.icoEncoding === encoding
+                ? 'bg-teal-500/20 border-teal-400 text-teal-300'
+                : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={icons.appleTouch}
+          onChange={(e) => update({ appleTouch: e.target.checked })}
+          className="accent-teal-500"
+        />
+        {t('icons_apple_touch')}
+      </label>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('icons_pwa_sizes')}</label>
+        {sizeChips(PWA_SIZES, icons.pwaSizes, size => update({ pwaSizes: toggleSize(icons.pwaSizes, size) }))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={icons.maskable}
+            onChange={(e) => update({ maskable: e.target.checked })}
+            className="accent-teal-500"
+          />
+          {t('icons_maskable_label')}
+        </label>
+        {icons.maskable && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('icons_padding')}</label>
+              <span className="text-[10px] font-mono font-bold text-teal-400 bg-teal-400/10 px-2 py-0.5 rounded">
+                {Math.round(icons.maskablePadding * 100)}%
+              </span>
+            </div>
+            <input
+              type="range" min="0" max="0.3" step="0.01"
+              value={icons.maskablePadding}
+              onChange={(e) => update({ maskablePadding: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-teal-500"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {([['background', 'icons_background'], ['themeColor', 'icons_theme_color']] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase cursor-pointer">
+            <input
+              type="color"
+              value={icons[key]}
+              onChange={(e) => update({ [key]: e.target.value })}
+              className="w-8 h-8 rounded-lg bg-transparent border border-slate-700 cursor-pointer"
+            />
+            {t(label)}
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {textFields.map(({ key, label, maxLength }) => (
+          <div key={key} className="flex items-center gap-2">
+            <label className="w-24 shrink-0 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t(label)}</label>
+            <input
+              type="text"
+              value={icons[key]}
+              maxLength={maxLength}
+              onChange={(e) => update({ [key]: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default IconSettings;
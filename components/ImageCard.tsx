@@ -1,20 +1,68 @@
 
-import React from 'react';
-import { ImageFile } from '../types.ts';
+import React, { useState } from 'react';
+import { ImageFile, ResizeOptions, SettingOverrides } from '../types.ts';
 import { formatSize } from '../services/imageProcessor.ts';
-import { X, CheckCircle, Loader2, AlertCircle, Download, FileImage } from 'lucide-react';
+import { formatPsnr, isPoorQuality } from '../services/qualityMetrics.ts';
+import { formatDuration } from '../services/batchQueue.ts';
+import { OverrideField, overriddenFields } from '../services/overrides.ts';
+import { sourceFolder } from '../services/fileIntake.ts';
+import { TranslationKeys } from '../services/translations.ts';
+import { X, CheckCircle, Loader2, AlertCircle, AlertTriangle, Download, FileImage, Film, Columns2, Gauge, SlidersHorizontal, Folder, FileArchive, Files, Copy, Check, Crop, Eye, CopyCheck, Layers } from 'lucide-react';
 import { useTranslation } from '../App.tsx';
+import OverrideEditor from './OverrideEditor.tsx';
 
 interface ImageCardProps {
   image: ImageFile;
   onRemove: (id: string) => void;
+  onCompare: (id: string) => void;
+  onOverride: (id: string, overrides: SettingOverrides | undefined) => void;
+  /** Opens the crop / rotate / flip editor. */
+  onEdit: (id: string) => void;
+  /** Whether the settings previews are drawn on this image. */
+  selected: boolean;
+  onSelect: (id: string) => void;
+  /** Set when the image belongs to a group of exact or near duplicates. */
+  duplicate?: 'exact' | 'similar';
+  /** Picks the TIFF page or icon entry that is previewed and converted. */
+  onPage: (id: string, page: number) => void;
+  onDownload: (id: string) => void;
+  /** Copy-ready HTML for multi-file results, resolved with the current export naming. */
+  getHtml: (id: string) => Promise<string | undefined>;
+  /** Settings the image would use without its own overrides. */
+  defaults: { quality: number; resize: ResizeOptions };
 }
 
-const ImageCard: React.FC<ImageCardProps> = ({ image, onRemove }) => {
+const FIELD_LABELS: Record<OverrideField, TranslationKeys> = {
+  targetFormat: 'override_format',
+  quality: 'quality_label',
+  resize: 'scale_label',
+};
+
+const ImageCard: React.FC<ImageCardProps> = ({ image, onRemove, onCompare, onOverride, onEdit, selected, onSelect, duplicate, onPage, onDownload, getHtml, defaults }) => {
   const { t } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const overridden = overriddenFields(image.overrides);
+  const folder = sourceFolder(image.relativePath, image.archive);
+  const report = image.targetSizeReport;
+  const metrics = image.metrics;
+  const poor = metrics ? isPoorQuality(metrics) : false;
+
+  const copyHtml = () => {
+    getHtml(image.id)
+      .then(html => html && navigator.clipboard.writeText(html))
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(() => {});
+  };
+  const outputCount = image.resultFiles?.length ?? image.resultVariants?.length;
 
   return (
-    <div className="glass rounded-2xl overflow-hidden group transition-all duration-500 hover:shadow-2xl hover:shadow-sky-500/5 hover:border-sky-500/50 flex flex-col h-full border border-slate-700/50 bg-slate-800/10">
+    <div className={`glass rounded-2xl overflow-hidden group transition-all duration-500 hover:shadow-2xl hover:shadow-sky-500/5 hover:border-sky-500/50 flex flex-col h-full border bg-slate-800/10 ${
+      poor ? 'border-amber-500/60 ring-1 ring-amber-500/30' : 'border-slate-700/50'
+    }`}>
       <div className="relative aspect-[1.4] bg-slate-900/80 overflow-hidden">
         {image.status === 'processing' && (
           <div className="absolute inset-0 z-10 bg-slate-900/70 flex items-center justify-center backdrop-blur-[2px]">
@@ -24,7 +72,9 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, onRemove }) => {
         <img
           src={image.previewUrl}
           alt={image.file.name}
-          className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110 opacity-90 group-hover:opacity-100"
+          onClick={() => onSelect(image.id)}
+          title={t('card_select_sample')}
+          className="w-full h-full cursor-pointer object-cover transition-transform duration-700 group-hover:scale-110 opacity-90 group-hover:opacity-100"
         />
         <button
           onClick={() => onRemove(image.id)}
@@ -32,12 +82,140 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, onRemove }) => {
         >
           <X size={16} />
         </button>
+        {selected && (
+          <span className="absolute bottom-3 left-3 inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-slate-950/80 backdrop-blur-md text-[10px] font-bold text-sky-300">
+            <Eye size={12} />
+            {t('card_sample')}
+          </span>
+        )}
+        {duplicate && (
+          <span className={`absolute bottom-3 right-3 inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-slate-950/80 backdrop-blur-md text-[10px] font-bold ${
+            duplicate === 'exact' ? 'text-teal-300' : 'text-amber-300'
+          }`}>
+            <CopyCheck size={12} />
+            {t(duplicate === 'exact' ? 'card_duplicate' : 'card_similar')}
+          </span>
+        )}
+        {image.resultUrl && !image.resultFiles && (
+          <button
+            onClick={() => onCompare(image.id)}
+            title={t('compare_open')}
+            className="absolute top-3 left-3 p-2 bg-slate-950/80 hover:bg-sky-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-all duration-300 backdrop-blur-md shadow-xl"
+          >
+            <Columns2 size={16} />
+          </button>
+        )}
       </div>
 
       <div className="p-5 flex flex-col flex-grow">
-        <h3 className="text-sm font-bold text-slate-200 truncate mb-4" title={image.file.name}>
-          {image.file.name}
-        </h3>
+        <div className="flex items-start justify-between gap-2 mb-4">
+          <div className="min-w-0">
+            <h3 className="text-sm font-bold text-slate-200 truncate" title={image.file.name}>
+              {image.file.name}
+            </h3>
+            {folder && (
+              <p className="flex items-center gap-1 text-[10px] font-semibold text-slate-500 truncate" title={image.archive ? `${image.archive} › ${image.relativePath}` : image.relativePath}>
+                {image.archive ? <FileArchive size={10} className="shrink-0" /> : <Folder size={10} className="shrink-0" />}
+                {folder}
+              </p>
+            )}
+          </div>
+          <div className="shrink-0 flex items-center gap-1">
+            <button
+              onClick={() => onEdit(image.id)}
+              disabled={image.status === 'processing'}
+              title={t('edit_open')}
+              className={`p-1 rounded-lg transition-all disabled:opacity-30 ${
+                image.transform ? 'text-sky-400 bg-sky-400/10' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              <Crop size={14} />
+            </button>
+            <button
+              onClick={() => setEditing(e => !e)}
+              disabled={image.status === 'processing'}
+              title={t('override_title')}
+              className={`p-1 rounded-lg transition-all disabled:opacity-30 ${
+                editing || overridden.length > 0 ? 'text-amber-400 bg-amber-400/10' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              <SlidersHorizontal size={14} />
+            </button>
+          </div>
+        </div>
+
+        {overridden.length > 0 && (
+          <div className="-mt-2 mb-4 inline-flex items-center gap-1.5 self-start px-2 py-1 rounded-lg bg-amber-500/10 border border-amber-500/20 text-[10px] font-bold text-amber-300">
+            <SlidersHorizontal size={12} />
+            {overridden.map(field => t(FIELD_LABELS[field])).join(' · ')}
+          </div>
+        )}
+
+        {editing && image.status !== 'processing' && (
+          <div className="mb-4 p-4 rounded-xl bg-slate-900/50 border border-amber-500/20 space-y-3">
+            <OverrideEditor
+              overrides={image.overrides ?? {}}
+              defaults={defaults}
+              onChange={(overrides) => onOverride(image.id, overrides)}
+            />
+            {overridden.length > 0 && (
+              <button
+                onClick={() => onOverride(image.id, undefined)}
+                className="text-[10px] font-bold uppercase text-slate-500 hover:text-red-400"
+              >
+                {t('override_clear')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {image.animation && (
+          <div className="-mt-2 mb-4 inline-flex items-center gap-1.5 self-start px-2 py-1 rounded-lg bg-indigo-500/10 border border-indigo-500/20 text-[10px] font-bold text-indigo-300">
+            <Film size={12} />
+            {image.animation.frameCount} {t('card_frames')} · {(image.animation.duration / 1000).toFixed(2)}s
+            {image.resultFrames && ` · ${t('card_frame_sequence')}`}
+          </div>
+        )}
+
+        {image.pages && image.pages.length > 1 && (
+          <label
+            title={t('card_page_hint')}
+            className="-mt-2 mb-4 inline-flex items-center gap-1.5 self-start px-2 py-1 rounded-lg bg-violet-500/10 border border-violet-500/20 text-[10px] font-bold text-violet-300"
+          >
+            <Layers size={12} />
+            {t('card_page')}
+            <select
+              value={image.page ?? 0}
+              onChange={(e) => onPage(image.id, Number(e.target.value))}
+              disabled={image.status === 'processing'}
+              className="bg-transparent text-violet-200 outline-none cursor-pointer disabled:opacity-50"
+            >
+              {image.pages.map((page, i) => (
+                <option key={i} value={i} className="bg-slate-900">
+                  {i + 1} · {page.width}×{page.height}{page.depth ? ` · ${page.depth}-bit` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {!!outputCount && (
+          <div className="-mt-2 mb-4 flex items-center gap-2">
+            <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg bg-teal-500/10 border border-teal-500/20 text-[10px] font-bold text-teal-300">
+              <Files size={12} />
+              {outputCount} {t(image.resultVariants ? 'card_variants' : 'card_files')}
+            </span>
+            {(image.resultHtml || image.resultVariants) && (
+              <button
+                onClick={copyHtml}
+                className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-teal-300 hover:border-teal-500/40 transition-all"
+              >
+                {copied ? <Check size={12} /> : <Copy size={12} />}
+                {t(copied ? 'card_html_copied' : 'card_copy_html')}
+              </button>
+            )}
+          </div>
+        )}
         
         <div className="flex items-center justify-between text-[11px] font-bold">
           <div className="flex flex-col gap-2">
@@ -51,6 +229,39 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, onRemove }) => {
                 <span className="text-sky-400">{formatSize(image.resultSize)}</span>
               </div>
             )}
+            {image.elapsed !== undefined && (
+              <div className="flex items-center gap-3">
+                <span className="text-slate-500 uppercase tracking-widest">{t('card_elapsed')}</span>
+                <span className="text-slate-300">{formatDuration(image.elapsed)}</span>
+              </div>
+            )}
+            {metrics && (
+              <div className="flex items-center gap-3">
+                <span className="text-slate-500 uppercase tracking-widest">{t('card_quality')}</span>
+                <span className={`flex items-center gap-1 ${poor ? 'text-amber-400' : 'text-emerald-400'}`}>
+                  <Gauge size={12} />
+                  PSNR {formatPsnr(metrics.psnr)} · SSIM {metrics.ssim.toFixed(3)}
+                </span>
+              </div>
+            )}
+            {!metrics && image.metricsFailed && (
+              <div className="flex items-center gap-3">
+                <span className="text-slate-500 uppercase tracking-widest">{t('card_quality')}</span>
+                <span className="flex items-center gap-1 text-rose-400">
+                  <Gauge size={12} />
+                  {t('card_quality_failed')}
+                </span>
+              </div>
+            )}
+            {report?.met && (
+              <div className="flex items-center gap-3">
+                <span className="text-slate-500 uppercase tracking-widest">{t('card_budget_met')}</span>
+                <span className="text-emerald-400">
+                  ≤ {formatSize(report.budget)} · Q{Math.round(report.quality * 100)}
+                  {report.scale !== 1 && ` · x${report.scale.toFixed(2)}`}
+                </span>
+              </div>
+            )}
           </div>
           
           <div className="flex items-center">
@@ -61,14 +272,31 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, onRemove }) => {
         </div>
 
         {image.status === 'completed' && image.resultUrl && (
-          <a
-            href={image.resultUrl}
-            download={`pixelflex-${image.file.name}`}
+          <button
+            onClick={() => onDownload(image.id)}
             className="mt-6 flex items-center justify-center gap-2 w-full py-3 bg-sky-500 hover:bg-sky-400 text-white rounded-xl text-xs font-bold transition-all shadow-lg shadow-sky-500/20 active:scale-95"
           >
             <Download size={16} />
             {t('card_download')}
-          </a>
+          </button>
+        )}
+
+        {report && !report.met && image.resultSize && (
+          <div className="mt-4 flex items-start gap-2 text-[11px] text-amber-400 bg-amber-400/5 p-3 rounded-xl border border-amber-400/20 font-semibold">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>
+              {t(report.unsupported ? 'card_budget_animation' : 'card_budget_missed')}
+              {formatSize(image.resultSize)} / {formatSize(report.budget)}
+              {' '}(+{Math.round((image.resultSize / report.budget - 1) * 100)}%)
+            </span>
+          </div>
+        )}
+
+        {poor && (
+          <div className="mt-4 flex items-start gap-2 text-[11px] text-amber-400 bg-amber-400/5 p-3 rounded-xl border border-amber-400/20 font-semibold">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>{t('card_quality_poor')}</span>
+          </div>
         )}
 
         {image.status === 'error' && (
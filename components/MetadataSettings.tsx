@@ -0,0 +1,47 @@
+import React from 'react';
+import { MetadataPolicy } from '../types.ts';
+import { Tags } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+import { TranslationKeys } from '../services/translations.ts';
+
+interface MetadataSettingsProps {
+  policy: MetadataPolicy;
+  onChange: (policy: MetadataPolicy) => void;
+}
+
+const POLICIES: { policy: MetadataPolicy; label: TranslationKeys }[] = [
+  { policy: 'strip', label: 'metadata_strip' },
+  { policy: 'copyright', label: 'metadata_copyright' },
+  { policy: 'all', label: 'metadata_all' },
+];
+
+const MetadataSettings: React.FC<MetadataSettingsProps> = ({ policy, onChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+        <Tags size={12} />
+        {t('metadata_label')}
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {POLICIES.map(({ policy: value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange(value)}
+            className={`py-2 rounded-lg text-[10px] font-bold transition-all border ${
+              policy === value
+              ? 'bg-indigo-500 border-indigo-400 text-white'
+              : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+            }`}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">{t('metadata_orientation_hint')}</p>
+    </div>
+  );
+};
+
+export default MetadataSettings;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ImageFile, NameConflictPolicy, NamingOptions } from '../types.ts';
+import { NAME_TOKENS, renderNameTemplate } from '../services/naming.ts';
+import { FileSignature } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+import { TranslationKeys } from '../services/translations.ts';
+
+interface NamingSettingsProps {
+  naming: NamingOptions;
+  /** Queue image the preview name is rendered for. */
+  sample?: ImageFile;
+  onChange: (naming: NamingOptions) => void;
+}
+
+const CONFLICTS: { conflict: NameConflictPolicy; label: TranslationKeys }[] = [
+  { conflict: 'rename', label: 'naming_conflict_rename' },
+  { conflict: 'overwrite', label: 'naming_conflict_overwrite' },
+  { conflict: 'skip', label: 'naming_conflict_skip' },
+];
+
+const NamingSettings: React.FC<NamingSettingsProps> = ({ naming, sample, onChange }) => {
+  const { t } = useTranslation();
+  const update = (patch: Partial<NamingOptions>) => onChange({ ...naming, ...patch });
+
+  const sampleName = sample ? sample.file.name.split('.').slice(0, -1).join('.') || sample.file.name : 'photo';
+  const preview = renderNameTemplate(naming.template, {
+    name: sampleName,
+    index: 1,
+    total: 1,
+    width: sample?.resultWidth ?? 1920,
+    height: sample?.resultHeight ?? 1080,
+    format: 'webp',
+    quality: sample?.resultQuality ?? 0.8,
+    date: new Date(),
+    hash: '3fa9c01e',
+  });
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+        <FileSignature size={12} />
+        {t('naming_label')}
+      </label>
+      <input
+        type="text"
+        value={naming.template}
+        maxLength={200}
+        onChange={(e) => update({ template: e.target.value })}
+        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-mono text-indigo-400"
+      />
+      <div className="flex flex-wrap gap-1.5">
+        {NAME_TOKENS.map(token => (
+          <button
+            key={token}
+            onClick={() => update({ template: naming.template + `{${token}}` })}
+            className="px-2 py-1 rounded-md text-[10px] font-mono font-bold bg-slate-800/50 border border-slate-700 text-slate-400 hover:text-indigo-300 hover:border-indigo-400/50"
+          >
+            {`{${token}}`}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500 truncate" title={preview}>
+        {t('naming_preview')} <span className="font-mono text-slate-300">{preview}.webp</span>
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(['mirror', 'flat'] as const).map(layout => (
+          <button
+            key={layout}
+            onClick={() => update({ layout })}
+            className={`py-2 rounded-lg text-[10px] font-bold transition-all border ${
+              naming.layout === layout
+              ? 'bg-indigo-500/20 border-indigo-400 text-indigo-300'
+              : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+            }`}
+          >
+            {t(layout === 'mirror' ? 'naming_layout_mirror' : 'naming_layout_flat')}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('naming_conflict_label')}</label>
+        <div className="grid grid-cols-3 gap-2">
+          {CONFLICTS.map(({ conflict, label }) => (
+            <button
+              key={conflict}
+              onClick={() => update({ conflict })}
+              className={`py-2 rounded-lg text-[10px] font-bold transition-all border ${
+                naming.conflict === conflict
+                ? 'bg-indigo-500 border-indigo-400 text-white'
+                : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500">{t('naming_conflict_hint')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default NamingSettings;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ImageFormat, ResizeOptions, SettingOverrides } from '../types.ts';
+import { compactOverrides } from '../services/overrides.ts';
+import { useTranslation } from '../App.tsx';
+import ResizeSettings from './ResizeSettings.tsx';
+
+interface OverrideEditorProps {
+  overrides: SettingOverrides;
+  /** Values an override starts from when it is switched on. */
+  defaults: { quality: number; resize: ResizeOptions };
+  onChange: (overrides: SettingOverrides | undefined) => void;
+}
+
+const FORMATS: (ImageFormat | 'original' | undefined)[] = [undefined, 'original', ...Object.values(ImageFormat)];
+
+const OverrideEditor: React.FC<OverrideEditorProps> = ({ overrides, defaults, onChange }) => {
+  const { t } = useTranslation();
+  const update = (patch: SettingOverrides) => onChange(compactOverrides({ ...overrides, ...patch }));
+
+  const formatLabel = (format: ImageFormat | 'original' | undefined) =>
+    format === undefined ? t('override_inherit')
+    : format === 'original' ? t('target_size_keep_format')
+    : format.split('/')[1].split('+')[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('target_format')}</label>
+        <div className="grid grid-cols-4 gap-1.5">
+          {FORMATS.map(format => (
+            <button
+              key={format ?? 'inherit'}
+              onClick={() => update({ targetFormat: format })}
+              className={`py-1.5 rounded-lg text-[10px] font-bold uppercase transition-all border ${
+                overrides.targetFormat === format
+                ? 'bg-amber-500 border-amber-400 text-white'
+                : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+              }`}
+            >
+              {formatLabel(format)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-2 text-xs text-slate-400 cursor-pointer">
+          <span className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={overrides.quality !== undefined}
+              onChange={(e) => update({ quality: e.target.checked ? defaults.quality : undefined })}
+              className="accent-amber-500"
+            />
+            {t('override_quality')}
+          </span>
+          {overrides.quality !== undefined && (
+            <span className="text-xs font-mono font-bold text-amber-400 bg-amber-400/10 px-2 py-0.5 rounded">
+              {Math.round(overrides.quality * 100)}%
+            </span>
+          )}
+        </label>
+        {overrides.quality !== undefined && (
+          <input
+            type="range" min="0.05" max="1" step="0.01"
+            value={overrides.quality}
+            onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-amber-500"
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={overrides.resize !== undefined}
+            onChange={(e) => update({ resize: e.target.checked ? defaults.resize : undefined })}
+            className="accent-amber-500"
+          />
+          {t('override_resize')}
+        </label>
+        {overrides.resize && (
+          <ResizeSettings resize={overrides.resize} onChange={(resize) => update({ resize })} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OverrideEditor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { PngOptions } from '../types.ts';
+import { Minimize2 } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface PngSettingsProps {
+  png: PngOptions;
+  onChange: (png: PngOptions) => void;
+}
+
+const PngSettings: React.FC<PngSettingsProps> = ({ png, onChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-300 uppercase tracking-widest">
+        <Minimize2 size={14} className="text-sky-400" />
+        {t('png_title')}
+      </div>
+      <p className="text-[10px] text-slate-500">{t('png_lossless_hint')}</p>
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={png.lossy}
+          onChange={(e) => onChange({ ...png, lossy: e.target.checked })}
+          className="accent-sky-500"
+        />
+        {t('png_lossy')}
+      </label>
+      {png.lossy && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('png_colors')}</label>
+            <span className="text-[10px] font-mono font-bold text-sky-400 bg-sky-400/10 px-2 py-0.5 rounded">{png.colors}</span>
+          </div>
+          <input
+            type="range" min="2" max="256" step="1"
+            value={png.colors}
+            onChange={(e) => onChange({ ...png, colors: parseInt(e.target.value, 10) })}
+            className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PngSettings;
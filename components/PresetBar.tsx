@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Preset } from '../types.ts';
+import { Bookmark, Download, Save, Upload, X } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface PresetBarProps {
+  presets: Preset[];
+  activeId: string | null;
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const PresetBar: React.FC<PresetBarProps> = ({ presets, activeId, onApply, onSave, onDelete, onImport, onExport }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+          <Bookmark size={12} />
+          {t('presets_title')}
+        </label>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInput.current?.click()}
+            title={t('presets_import')}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-slate-200 hover:bg-slate-800"
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            onClick={onExport}
+            disabled={presets.length === 0}
+            title={t('presets_export')}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-30"
+          >
+            <Download size={14} />
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {presets.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <span
+              key={preset.id}
+              className={`inline-flex items-center rounded-lg border text-[10px] font-bold transition-all ${
+                preset.id === activeId
+                ? 'bg-violet-500 border-violet-400 text-white'
+                : 'bg-slate-800/30 text-slate-400 hover:text-slate-200 border-slate-700'
+              }`}
+            >
+              <button onClick={() => onApply(preset)} className="pl-2.5 pr-1.5 py-1.5">
+                {preset.name}
+              </button>
+              <button onClick={() => onDelete(preset.id)} className="pr-1.5 py-1.5 opacity-60 hover:opacity-100">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-500">{t('presets_empty')}</p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          maxLength={60}
+          placeholder={t('presets_name_placeholder')}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 placeholder:text-slate-600"
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase bg-violet-500/20 border border-violet-400/40 text-violet-300 hover:bg-violet-500/30 disabled:opacity-40"
+        >
+          <Save size={12} />
+          {t('presets_save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresetBar;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ResizeMode, ResizeOptions } from '../types.ts';
+import { useTranslation } from '../App.tsx';
+import { TranslationKeys } from '../services/translations.ts';
+
+interface ResizeSettingsProps {
+  resize: ResizeOptions;
+  onChange: (resize: ResizeOptions) => void;
+}
+
+const MODES: { mode: ResizeMode; label: TranslationKeys }[] = [
+  { mode: 'scale', label: 'resize_mode_scale' },
+  { mode: 'width', label: 'resize_mode_width' },
+  { mode: 'height', label: 'resize_mode_height' },
+  { mode: 'longEdge', label: 'resize_mode_long_edge' },
+  { mode: 'fit', label: 'resize_mode_fit' },
+  { mode: 'cover', label: 'resize_mode_cover' },
+];
+
+const ResizeSettings: React.FC<ResizeSettingsProps> = ({ resize, onChange }) => {
+  const { t } = useTranslation();
+  const update = (patch: Partial<ResizeOptions>) => onChange({ ...resize, ...patch });
+
+  const pixelInput = (key: 'width' | 'height' | 'longEdge', label: string) => (
+    <label className="flex items-center justify-between gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+      {label}
+      <span className="flex items-center gap-1">
+        <input
+          type="number" min="1" step="1"
+          value={resize[key]}
+          onChange={(e) => update({ [key]: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          className="w-20 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-indigo-400 text-right"
+        />
+        <span className="text-slate-500">px</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('scale_label')}</label>
+        {resize.mode === 'scale' && (
+          <span className="text-xs font-mono font-bold text-indigo-400 bg-indigo-400/10 px-2 py-0.5 rounded">
+            x{resize.scale.toFixed(1)}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => update({ mode })}
+            className={`py-2 rounded-lg text-[10px] font-bold transition-all border ${
+              resize.mode === mode
+              ? 'bg-indigo-500 border-indigo-400 text-white'
+              : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+            }`}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+
+      {resize.mode === 'scale' && (
+        <input
+          type="range" min="0.1" max="2" step="0.1"
+          value={resize.scale}
+          onChange={(e) => update({ scale: parseFloat(e.target.value) })}
+          className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+      )}
+      {(resize.mode === 'width' || resize.mode === 'fit' || resize.mode === 'cover') && pixelInput('width', t('resize_width'))}
+      {(resize.mode === 'height' || resize.mode === 'fit' || resize.mode === 'cover') && pixelInput('height', t('resize_height'))}
+      {resize.mode === 'longEdge' && pixelInput('longEdge', t('resize_long_edge'))}
+
+      {resize.mode === 'cover' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['center', 'smart'] as const).map(crop => (
+            <button
+              key={crop}
+              onClick={() => update({ crop })}
+              className={`py-2 rounded-lg text-[10px] font-bold transition-all border ${
+                resize.crop === crop
+                ? 'bg-indigo-500/20 border-indigo-400 text-indigo-300'
+                : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+              }`}
+            >
+              {t(crop === 'center' ? 'resize_crop_center' : 'resize_crop_smart')}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={resize.noUpscale}
+          onChange={(e) => update({ noUpscale: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        {t('resize_no_upscale')}
+      </label>
+    </div>
+  );
+};
+
+export default ResizeSettings;
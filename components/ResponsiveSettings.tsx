@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ImageFormat, ResponsiveOptions } from '../types.ts';
+import { RESPONSIVE_FORMATS } from '../services/responsive.ts';
+import { MonitorSmartphone, X, Plus } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface ResponsiveSettingsProps {
+  responsive: ResponsiveOptions;
+  onChange: (responsive: ResponsiveOptions) => void;
+}
+
+const MAX_WIDTHS = 16;
+
+const ResponsiveSettings: React.FC<ResponsiveSettingsProps> = ({ responsive, onChange }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState('');
+  const update = (patch: Partial<ResponsiveOptions>) => onChange({ ...responsive, ...patch });
+
+  const addWidth = () => {
+    const width = parseInt(draft, 10);
+    setDraft('');
+    if (!(width >= 1 && width <= 16384) || responsive.widths.includes(width)) return;
+    update({ widths: [...responsive.widths, width].sort((a, b) => a - b) });
+  };
+
+  // Formats keep the fixed preference order whatever order they are toggled in.
+  const toggleFormat = (format: ImageFormat) => {
+    const selected = responsive.formats.includes(format)
+      ? responsive.formats.filter(f => f !== format)
+      : [...responsive.formats, format];
+    if (selected.length > 0) update({ formats: RESPONSIVE_FORMATS.filter(f => selected.includes(f)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+          <MonitorSmartphone size={12} />
+          {t('responsive_title')}
+        </span>
+        <input
+          type="checkbox"
+          checked={responsive.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-cyan-500"
+        />
+      </label>
+
+      {responsive.enabled && (
+        <div className="space-y-4 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('responsive_widths')}</label>
+            <div className="flex flex-wrap gap-1.5">
+              {responsive.widths.map(width => (
+                <span key={width} className="inline-flex items-center gap-1 pl-2 pr-1 py-1 rounded-md text-[10px] font-mono font-bold bg-cyan-500/10 border border-cyan-500/30 text-cyan-300">
+                  {width}w
+                  <button
+                    onClick={() => responsive.widths.length > 1 && update({ widths: responsive.widths.filter(w => w !== width) })}
+                    className="text-cyan-400/60 hover:text-red-400"
+                  >
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+              {responsive.widths.length < MAX_WIDTHS && (
+                <span className="inline-flex items-center gap-1">
+                  <input
+                    type="number" min="1" max="16384" step="1"
+                    value={draft}
+                    placeholder="px"
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addWidth()}
+                    className="w-16 bg-slate-800 border border-slate-700 rounded-md px-2 py-0.5 text-[10px] font-mono text-cyan-400"
+                  />
+                  <button onClick={addWidth} className="p-1 rounded-md text-slate-500 hover:text-cyan-300">
+                    <Plus size={12} />
+                  </button>
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('responsive_formats')}</label>
+            <div className="grid grid-cols-3 gap-2">
+              {RESPONSIVE_FORMATS.map(format => (
+                <button
+                  key={format}
+                  onClick={() => toggleFormat(format)}
+                  className={`py-2 rounded-lg text-[10px] font-bold uppercase transition-all border ${
+                    responsive.formats.includes(format)
+                    ? 'bg-cyan-500 border-cyan-400 text-white'
+                    : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+                  }`}
+                >
+                  {format.split('/')[1]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('responsive_sizes')}</label>
+            <input
+              type="text"
+              value={responsive.sizes}
+              maxLength={200}
+              onChange={(e) => update({ sizes: e.target.value })}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-mono text-cyan-400"
+            />
+          </div>
+          <p className="text-[10px] text-slate-500">{t('responsive_hint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResponsiveSettings;
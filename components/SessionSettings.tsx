@@ -0,0 +1,68 @@
+import React from 'react';
+import { formatSize } from '../services/imageProcessor.ts';
+import { HardDrive, Trash2, AlertTriangle } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface SessionSettingsProps {
+  enabled: boolean;
+  usage: { usage: number; quota: number } | null;
+  /** The last write was rejected, usually because the quota ran out. */
+  failed: boolean;
+  onToggle: (enabled: boolean) => void;
+  onClear: () => void;
+}
+
+const SessionSettings: React.FC<SessionSettingsProps> = ({ enabled, usage, failed, onToggle, onClear }) => {
+  const { t } = useTranslation();
+  const percent = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+          <HardDrive size={12} />
+          {t('session_title')}
+        </span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="accent-violet-500"
+        />
+      </label>
+
+      {usage && (
+        <div className="space-y-1.5">
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all ${percent > 80 ? 'bg-amber-500' : 'bg-violet-500'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-[10px] font-semibold text-slate-500">
+            <span>{t('session_usage')} {formatSize(usage.usage)}</span>
+            <span>{t('session_quota')} {formatSize(usage.quota)}</span>
+          </div>
+        </div>
+      )}
+
+      {failed && (
+        <p className="flex items-center gap-1 text-[10px] font-semibold text-amber-400">
+          <AlertTriangle size={12} />
+          {t('session_write_failed')}
+        </p>
+      )}
+
+      <button
+        onClick={onClear}
+        className="w-full flex items-center justify-center gap-1.5 py-2 rounded-lg text-[10px] font-bold border border-slate-700 bg-slate-800/30 text-slate-300 hover:border-red-500/50 hover:text-red-400 transition-all"
+      >
+        <Trash2 size={12} />
+        {t('session_clear')}
+      </button>
+      <p className="text-[10px] text-slate-500">{enabled ? t('session_hint') : t('session_off_hint')}</p>
+    </div>
+  );
+};
+
+export default SessionSettings;
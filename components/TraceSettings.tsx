@@ -0,0 +1,44 @@
+import React from 'react';
+import { TraceOptions } from '../types.ts';
+import { PenTool } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface TraceSettingsProps {
+  trace: TraceOptions;
+  onChange: (trace: TraceOptions) => void;
+}
+
+const TraceSettings: React.FC<TraceSettingsProps> = ({ trace, onChange }) => {
+  const { t } = useTranslation();
+
+  const sliders: { key: keyof TraceOptions; label: string; min: number; max: number; step: number; display: string }[] = [
+    { key: 'colors', label: t('trace_colors'), min: 2, max: 64, step: 1, display: String(trace.colors) },
+    { key: 'detail', label: t('trace_detail'), min: 0, max: 1, step: 0.05, display: `${Math.round(trace.detail * 100)}%` },
+    { key: 'smoothing', label: t('trace_smoothing'), min: 0, max: 1, step: 0.05, display: `${Math.round(trace.smoothing * 100)}%` },
+  ];
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-300 uppercase tracking-widest">
+        <PenTool size={14} className="text-sky-400" />
+        {t('trace_title')}
+      </div>
+      {sliders.map(({ key, label, min, max, step, display }) => (
+        <div key={key} className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</label>
+            <span className="text-[10px] font-mono font-bold text-sky-400 bg-sky-400/10 px-2 py-0.5 rounded">{display}</span>
+          </div>
+          <input
+            type="range" min={min} max={max} step={step}
+            value={trace[key]}
+            onChange={(e) => onChange({ ...trace, [key]: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TraceSettings;
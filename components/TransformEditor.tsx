@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect, ImageFile, ImageTransform } from '../types.ts';
+import { AnyCanvas, createCanvas, getContext2D } from '../services/canvas.ts';
+import {
+  IDENTITY_TRANSFORM, MAX_STRAIGHTEN, MIN_CROP, applyTransform, fitAspect, isIdentityTransform, normalizeCrop, rotatedSize,
+} from '../services/transform.ts';
+import { X, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, Ruler, Undo2, Check } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface TransformEditorProps {
+  image: ImageFile;
+  /** Receives undefined when every edit was undone. */
+  onApply: (transform: ImageTransform | undefined) => void;
+  onClose: () => void;
+}
+
+type Aspect = 'free' | '1:1' | '4:3' | '16:9';
+
+const ASPECTS: Aspect[] = ['free', '1:1', '4:3', '16:9'];
+
+const ASPECT_RATIOS: Record<Exclude<Aspect, 'free'>, number> = { '1:1': 1, '4:3': 4 / 3, '16:9': 16 / 9 };
+
+/** Long edge of the working copy; edits are previewed on it, not on the full-size original. */
+const PREVIEW_EDGE = 1200;
+
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const HANDLES: Exclude<Handle, 'move'>[] = ['nw', 'ne', 'sw', 'se'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Moves one corner of `crop` while the opposite corner stays put. `k` is the
+ * locked width-to-height ratio in frame fractions, or null for a free crop.
+ */
+const dragCorner = (crop: CropRect, handle: Exclude<Handle, 'move'>, dx: number, dy: number, k: number | null): CropRect => {
+  const east = handle === 'ne' || handle === 'se';
+  const south = handle === 'sw' || handle === 'se';
+  const anchorX = east ? crop.x : crop.x + crop.width;
+  const anchorY = south ? crop.y : crop.y + crop.height;
+  const roomX = east ? 1 - anchorX : anchorX;
+  const roomY = south ? 1 - anchorY : anchorY;
+  let width = clamp((east ? 1 : -1) * ((east ? crop.x + crop.width : crop.x) + dx - anchorX), MIN_CROP, roomX);
+  let height = clamp((south ? 1 : -1) * ((south ? crop.y + crop.height : crop.y) + dy - anchorY), MIN_CROP, roomY);
+  if (k !== null) {
+    width = Math.max(MIN_CROP, Math.min(width, roomY * k));
+    height = width / k;
+  }
+  return {
+    x: east ? anchorX : anchorX - width,
+    y: south ? anchorY : anchorY - height,
+    width,
+    height,
+  };
+};
+
+/**
+ * Modal crop / rotate / flip editor. Edits are previewed on a downscaled copy
+ * and only stored as a transform; the conversion applies them to the
+ * full-size source.
+ */
+const TransformEditor: React.FC<TransformEditorProps> = ({ image, onApply, onClose }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [base, setBase] = useState<AnyCanvas | null>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [draft, setDraft] = useState<ImageTransform>(image.transform ?? IDENTITY_TRANSFORM);
+  const [aspect, setAspect] = useState<Aspect>('free');
+  const drag = useRef<{ handle: Handle; startX: number; startY: number; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const ratio = Math.min(1, PREVIEW_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+      const copy = createCanvas(Math.max(1, Math.round(img.naturalWidth * ratio)), Math.max(1, Math.round(img.naturalHeight * ratio)));
+      getContext2D(copy).drawImage(img, 0, 0, copy.width, copy.height);
+      setNatural({ width: img.naturalWidth, height: img.naturalHeight });
+      setBase(copy);
+    };
+    img.src = image.previewUrl;
+  }, [image.previewUrl]);
+
+  // The preview shows the whole turned frame; the crop is drawn on top of it.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!base || !canvas) return;
+    const frame = applyTransform(base, base.width, base.height, { ...draft, crop: null });
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext('2d')!.drawImage(frame, 0, 0);
+  }, [base, draft.rotate, draft.angle, draft.flipH, draft.flipV]);
+
+  const frame = natural && rotatedSize(natural.width, natural.height, draft.rotate);
+  const aspectK = (value: Aspect, size = frame) =>
+    value === 'free' || !size ? null : ASPECT_RATIOS[value] * size.height / size.width;
+  const crop = draft.crop ?? FULL_CROP;
+
+  const update = (patch: Partial<ImageTransform>) => setDraft(d => ({ ...d, ...patch }));
+
+  const chooseAspect = (value: Aspect) => {
+    setAspect(value);
+    if (value !== 'free' && frame) update({ crop: fitAspect(ASPECT_RATIOS[value], frame.width, frame.height) });
+  };
+
+  // A quarter turn swaps the frame's edges, so the crop starts over.
+  const turn = (by: 90 | 270) => {
+    const rotate = ((draft.rotate + by) % 360) as ImageTransform['rotate'];
+    const size = natural && rotatedSize(natural.width, natural.height, rotate);
+    update({
+      rotate,
+      crop: aspect !== 'free' && size ? fitAspect(ASPECT_RATIOS[aspect], size.width, size.height) : null,
+    });
+  };
+
+  const flip = (axis: 'flipH' | 'flipV') => {
+    const c = draft.crop;
+    update({
+      [axis]: !draft[axis],
+      crop: c && (axis === 'flipH' ? { ...c, x: 1 - c.x - c.width } : { ...c, y: 1 - c.y - c.height }),
+    });
+  };
+
+  const onPointerDown = (e: React.PointerEvent, handle: Handle) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    drag.current = { handle, startX: e.clientX, startY: e.clientY, crop };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const state = drag.current;
+    const stage = stageRef.current;
+    if (!state || !stage) return;
+    const rect = stage.getBoundingClientRect();
+    const dx = (e.clientX - state.startX) / rect.width;
+    const dy = (e.clientY - state.startY) / rect.height;
+    const c = state.crop;
+    update({
+      crop: state.handle === 'move'
+        ? { ...c, x: clamp(c.x + dx, 0, 1 - c.width), y: clamp(c.y + dy, 0, 1 - c.height) }
+        : dragCorner(c, state.handle, dx, dy, aspectK(aspect)),
+    });
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  const reset = () => {
+    setAspect('free');
+    setDraft(IDENTITY_TRANSFORM);
+  };
+
+  const apply = () => {
+    const transform = { ...draft, crop: normalizeCrop(draft.crop) };
+    onApply(isIdentityTransform(transform) ? undefined : transform);
+    onClose();
+  };
+
+  const outputSize = frame && {
+    width: Math.max(1, Math.round(crop.width * frame.width)),
+    height: Math.max(1, Math.round(crop.height * frame.height)),
+  };
+  const toolButton = 'p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-800">
+        <div className="min-w-0">
+          <h2 className="text-sm font-bold text-slate-200 truncate">{t('edit_title')} · {image.file.name}</h2>
+          {outputSize && (
+            <p className="text-[11px] font-mono font-semibold text-slate-500">{outputSize.width} × {outputSize.height}</p>
+          )}
+        </div>
+        <button onClick={onClose} className="p-2 rounded-full bg-slate-800 hover:bg-red-500 text-white transition-all">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center p-6 select-none touch-none">
+        <div ref={stageRef} className="relative overflow-hidden" onPointerMove={onPointerMove} onPointerUp={onPointerUp}>
+          <canvas ref={canvasRef} className="block max-w-[calc(100vw-3rem)] max-h-[calc(100vh-14rem)]" />
+          {base && (
+            <div
+              className="absolute border border-white/80 cursor-move"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(2, 6, 23, 0.6)',
+              }}
+              onPointerDown={(e) => onPointerDown(e, 'move')}
+            >
+              {/* Thirds grid, which also helps to level a horizon while straightening. */}
+              <div className="absolute inset-0 pointer-events-none">
+                {[1, 2].map(i => (
+                  <React.Fragment key={i}>
+                    <div className="absolute top-0 bottom-0 border-l border-white/25" style={{ left: `${(i * 100) / 3}%` }} />
+                    <div className="absolute left-0 right-0 border-t border-white/25" style={{ top: `${(i * 100) / 3}%` }} />
+                  </React.Fragment>
+                ))}
+              </div>
+              {HANDLES.map(handle => (
+                <div
+                  key={handle}
+                  onPointerDown={(e) => onPointerDown(e, handle)}
+                  className={`absolute w-3.5 h-3.5 bg-white rounded-sm shadow ${
+                    handle[0] === 'n' ? '-top-1.5' : '-bottom-1.5'
+                  } ${handle[1] === 'w' ? '-left-1.5' : '-right-1.5'} ${
+                    handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+                  }`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-4 px-6 py-4 border-t border-slate-800">
+        <div className="flex items-center gap-1">
+          <button onClick={() => turn(270)} className={toolButton} title={t('edit_rotate_left')}>
+            <RotateCcw size={18} />
+          </button>
+          <button onClick={() => turn(90)} className={toolButton} title={t('edit_rotate_right')}>
+            <RotateCw size={18} />
+          </button>
+          <button
+            onClick={() => flip('flipH')}
+            className={`${toolButton} ${draft.flipH ? 'text-sky-400' : ''}`}
+            title={t('edit_flip_h')}
+          >
+            <FlipHorizontal2 size={18} />
+          </button>
+          <button
+            onClick={() => flip('flipV')}
+            className={`${toolButton} ${draft.flipV ? 'text-sky-400' : ''}`}
+            title={t('edit_flip_v')}
+          >
+            <FlipVertical2 size={18} />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          <Ruler size={14} />
+          {t('edit_straighten')}
+          <input
+            type="range" min={-MAX_STRAIGHTEN} max={MAX_STRAIGHTEN} step="0.1"
+            value={draft.angle}
+            onChange={(e) => update({ angle: parseFloat(e.target.value) })}
+            onDoubleClick={() => update({ angle: 0 })}
+            className="w-40 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+          />
+          <span className="w-12 text-right font-mono text-sky-400">{draft.angle.toFixed(1)}°</span>
+        </label>
+
+        <div className="flex bg-slate-900/80 p-1 rounded-xl border border-slate-800">
+          {ASPECTS.map(value => (
+            <button
+              key={value}
+              onClick={() => chooseAspect(value)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                aspect === value ? 'bg-sky-500 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {value === 'free' ? t('edit_aspect_free') : value}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={reset}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold border border-slate-700 text-slate-300 hover:border-red-500/50 hover:text-red-400 transition-all"
+          >
+            <Undo2 size={14} />
+            {t('edit_reset')}
+          </button>
+          <button
+            onClick={apply}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-xs font-bold bg-sky-500 hover:bg-sky-400 text-white transition-all"
+          >
+            <Check size={14} />
+            {t('edit_apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransformEditor;
@@ -1,14 +1,38 @@
 
-import React, { useCallback } from 'react';
-import { Upload, Image as ImageIcon } from 'lucide-react';
+import React, { useCallback, useRef, useState } from 'react';
+import { Upload, Image as ImageIcon, FolderOpen, Loader2 } from 'lucide-react';
 import { useTranslation } from '../App.tsx';
+import { IntakeFile, collectDroppedFiles, expandArchives, filesFromInput, identifyFiles } from '../services/fileIntake.ts';
+import { RASTER_EXTENSIONS } from '../services/rasterDecoders.ts';
+
+/** Untyped formats such as PSD are only offered by the picker when listed by extension. */
+const ACCEPT = ['image/*', '.zip', 'application/zip', ...RASTER_EXTENSIONS.map(ext => `.${ext}`)].join(',');
 
 interface UploaderProps {
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (files: IntakeFile[]) => void;
 }
 
 const Uploader: React.FC<UploaderProps> = ({ onFilesSelected }) => {
   const { t } = useTranslation();
+  const folderInput = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  /** Unpacks ZIP archives and types every image by its contents before handing them to the queue. */
+  const accept = useCallback(async (collect: () => Promise<IntakeFile[]>) => {
+    setIsReading(true);
+    try {
+      const { files: expanded, failed } = await expandArchives(await collect());
+      const files = await identifyFiles(expanded);
+      if (failed.length > 0) alert(t('alert_archive_fail') + failed.join(', '));
+      if (files.length > 0) onFilesSelected(files);
+    } catch (err: any) {
+      // Dropped folders and files can vanish or become unreadable while they are walked.
+      console.error('Reading files failed:', err);
+      alert(t('alert_folder_fail') + err.message);
+    } finally {
+      setIsReading(false);
+    }
+  }, [onFilesSelected, t]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -18,17 +42,17 @@ const Uploader: React.FC<UploaderProps> = ({ onFilesSelected }) => {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    const files = Array.from(e.dataTransfer.files).filter((f: File) => f.type.startsWith('image/'));
-    if (files.length > 0) {
-      onFilesSelected(files);
-    }
-  }, [onFilesSelected]);
+    // Started synchronously: drop entries are only readable inside the handler.
+    const dropped = collectDroppedFiles(e.dataTransfer);
+    accept(() => dropped);
+  }, [accept]);
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const files = Array.from(e.target.files);
-      onFilesSelected(files);
+      const files = filesFromInput(e.target.files);
+      accept(async () => files);
     }
+    e.target.value = '';
   };
 
   return (
@@ -40,14 +64,16 @@ const Uploader: React.FC<UploaderProps> = ({ onFilesSelected }) => {
       <input
         type="file"
         multiple
-        accept="image/*"
+        accept={ACCEPT}
         onChange={handleFileInput}
         className="absolute inset-0 opacity-0 cursor-pointer z-10"
       />
       
       <div className="relative z-0">
         <div className="mb-6 inline-flex items-center justify-center p-6 bg-sky-500/10 rounded-2xl group-hover:scale-110 group-hover:bg-sky-500/20 transition-all duration-500">
-          <Upload className="w-12 h-12 text-sky-400" />
+          {isReading
+            ? <Loader2 className="w-12 h-12 text-sky-400 animate-spin" />
+            : <Upload className="w-12 h-12 text-sky-400" />}
         </div>
         <h2 className="text-3xl font-bold mb-3 text-white tracking-tight">{t('uploader_title')}</h2>
         <p className="text-slate-400 max-w-sm mx-auto text-lg leading-relaxed">
@@ -55,7 +81,24 @@ const Uploader: React.FC<UploaderProps> = ({ onFilesSelected }) => {
         </p>
       </div>
 
-      <div className="mt-10 flex flex-wrap items-center justify-center gap-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+      <button
+        type="button"
+        onClick={() => folderInput.current?.click()}
+        className="relative z-20 mt-8 inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-slate-900 border border-slate-700 hover:border-sky-500/50 text-sm font-bold text-slate-300 hover:text-white transition-all"
+      >
+        <FolderOpen size={16} className="text-sky-400" />
+        {t('uploader_pick_folder')}
+      </button>
+      <input
+        ref={folderInput}
+        type="file"
+        multiple
+        {...{ webkitdirectory: '', directory: '' }}
+        onChange={handleFileInput}
+        className="hidden"
+      />
+
+      <div className="mt-8 flex flex-wrap items-center justify-center gap-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
         <span className="px-4 py-1.5 bg-slate-900 border border-slate-800 rounded-full">{t('uploader_tag_no_server')}</span>
         <span className="px-4 py-1.5 bg-slate-900 border border-slate-800 rounded-full">{t('uploader_tag_svg')}</span>
         <span className="px-4 py-1.5 bg-slate-900 border border-slate-800 rounded-full">{t('uploader_tag_speed')}</span>
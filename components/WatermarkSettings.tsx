@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageFile, ResizeOptions, WatermarkOptions } from '../types.ts';
+import { WATERMARK_ANCHORS, WATERMARK_FONTS, drawWatermark, prepareWatermark, shrinkWatermarkImage } from '../services/watermark.ts';
+import { computeResizeGeometry } from '../services/resize.ts';
+import { getContext2D } from '../services/canvas.ts';
+import { Stamp, Type, ImagePlus, Grid3x3 } from 'lucide-react';
+import { useTranslation } from '../App.tsx';
+
+interface WatermarkSettingsProps {
+  watermark: WatermarkOptions;
+  /** Queue image the live preview is rendered on. */
+  sample?: ImageFile;
+  resize: ResizeOptions;
+  onChange: (watermark: WatermarkOptions) => void;
+}
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_MAX_HEIGHT = 240;
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const WatermarkSettings: React.FC<WatermarkSettingsProps> = ({ watermark, sample, resize, onChange }) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sampleImage, setSampleImage] = useState<HTMLImageElement | null>(null);
+  const update = (patch: Partial<WatermarkOptions>) => onChange({ ...watermark, ...patch });
+
+  useEffect(() => {
+    if (!sample) {
+      setSampleImage(null);
+      return;
+    }
+    const img = new Image();
+    img.onload = () => setSampleImage(img);
+    img.src = sample.previewUrl;
+  }, [sample?.previewUrl]);
+
+  // Redraws the preview with the output's aspect ratio, so margins and
+  // relative sizes look as they will in the exported files.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !watermark.enabled) return;
+    let cancelled = false;
+    const sourceWidth = sampleImage?.naturalWidth || 1600;
+    const sourceHeight = sampleImage?.naturalHeight || 1000;
+    const geometry = computeResizeGeometry(sourceWidth, sourceHeight, resize);
+    const ratio = Math.min(PREVIEW_WIDTH / geometry.width, PREVIEW_MAX_HEIGHT / geometry.height);
+    const width = Math.max(1, Math.round(geometry.width * ratio));
+    const height = Math.max(1, Math.round(geometry.height * ratio));
+
+    prepareWatermark(watermark).then(prepared => {
+      if (cancelled) return;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = getContext2D(canvas);
+      if (sampleImage) {
+        ctx.drawImage(sampleImage, geometry.sx, geometry.sy, geometry.sw, geometry.sh, 0, 0, width, height);
+      } else {
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, '#0ea5e9');
+        gradient.addColorStop(1, '#4f46e5');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+      }
+      if (prepared) drawWatermark(ctx, width, height, prepared);
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [watermark, sampleImage, resize]);
+
+  const sliders: { key: 'size' | 'opacity' | 'margin' | 'rotation'; label: string; min: number; max: number; step: number; display: string }[] = [
+    { key: 'size', label: t('watermark_size'), min: 0.01, max: 0.5, step: 0.01, display: `${Math.round(watermark.size * 100)}%` },
+    { key: 'opacity', label: t('watermark_opacity'), min: 0.05, max: 1, step: 0.05, display: `${Math.round(watermark.opacity * 100)}%` },
+    { key: 'margin', label: t('watermark_margin'), min: 0, max: 0.2, step: 0.01, display: `${Math.round(watermark.margin * 100)}%` },
+    { key: 'rotation', label: t('watermark_rotation'), min: -180, max: 180, step: 1, display: `${watermark.rotation}°` },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between gap-2 cursor-pointer">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+          <Stamp size={12} />
+          {t('watermark_title')}
+        </span>
+        <input
+          type="checkbox"
+          checked={watermark.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-rose-500"
+        />
+      </label>
+
+      {watermark.enabled && (
+        <div className="space-y-4 p-4 rounded-xl bg-slate-900/50 border border-slate-700/50">
+          <canvas ref={canvasRef} className="w-full rounded-lg border border-slate-800 bg-slate-950" />
+
+          <div className="grid grid-cols-2 gap-2">
+            {([['text', Type, 'watermark_text'], ['image', ImagePlus, 'watermark_image']] as const).map(([kind, Icon, label]) => (
+              <button
+                key={kind}
+                onClick={() => update({ kind })}
+                className={`flex items-center justify-center gap-1.5 py-2 rounded-lg text-[10px] font-bold transition-all border ${
+                  watermark.kind === kind
+                  ? 'bg-rose-500 border-rose-400 text-white'
+                  : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+                }`}
+              >
+                <Icon size={12} />
+                {t(label)}
+              </button>
+            ))}
+          </div>
+
+          {watermark.kind === 'text' ? (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={watermark.text}
+                maxLength={200}
+                onChange={(e) => update({ text: e.target.value })}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200"
+              />
+              <div className="flex items-center gap-2">
+                <select
+                  value={watermark.font}
+                  onChange={(e) => update({ font: e.target.value })}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200"
+                >
+                  {WATERMARK_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+                <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={watermark.bold}
+                    onChange={(e) => update({ bold: e.target.checked })}
+                    className="accent-rose-500"
+                  />
+                  {t('watermark_bold')}
+                </label>
+                <input
+                  type="color"
+                  value={watermark.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                  className="w-8 h-8 rounded-lg bg-transparent border border-slate-700 cursor-pointer"
+                />
+              </div>
+            </div>
+          ) : (
+            <label className="flex items-center gap-3 p-2 rounded-lg border border-dashed border-slate-700 hover:border-rose-400/50 cursor-pointer">
+              {watermark.image
+                ? <img src={watermark.image} alt="" className="w-10 h-10 object-contain rounded bg-slate-800" />
+                : <ImagePlus size={20} className="text-slate-500" />}
+              <span className="text-[10px] font-bold text-slate-400">{t('watermark_upload')}</span>
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (!file) return;
+                  try {
+                    update({ image: await readAsDataUrl(await shrinkWatermarkImage(file)) });
+                  } catch {
+                    alert(t('alert_watermark_fail'));
+                  }
+                }}
+              />
+            </label>
+          )}
+
+          {sliders.map(({ key, label, min, max, step, display }) => (
+            <div key={key} className="space-y-2">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</label>
+                <span className="text-[10px] font-mono font-bold text-rose-400 bg-rose-400/10 px-2 py-0.5 rounded">{display}</span>
+              </div>
+              <input
+                type="range" min={min} max={max} step={step}
+                value={watermark[key]}
+                onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-rose-500"
+              />
+            </div>
+          ))}
+
+          <div className="flex items-start gap-3">
+            <div className="grid grid-cols-3 gap-1">
+              {WATERMARK_ANCHORS.map(anchor => (
+                <button
+                  key={anchor}
+                  onClick={() => update({ placement: anchor })}
+                  title={anchor}
+                  className={`w-7 h-7 rounded-md border transition-all flex items-center justify-center ${
+                    watermark.placement === anchor
+                    ? 'bg-rose-500 border-rose-400'
+                    : 'bg-slate-800/30 border-slate-700 hover:border-slate-500'
+                  }`}
+                >
+                  <span className="w-1.5 h-1.5 rounded-full bg-slate-200" />
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => update({ placement: 'tile' })}
+              className={`flex-1 flex flex-col items-center justify-center gap-1 h-[92px] rounded-lg text-[10px] font-bold border transition-all ${
+                watermark.placement === 'tile'
+                ? 'bg-rose-500 border-rose-400 text-white'
+                : 'bg-slate-800/30 text-slate-500 hover:text-slate-300 border-slate-700'
+              }`}
+            >
+              <Grid3x3 size={18} />
+              {t('watermark_tile')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatermarkSettings;
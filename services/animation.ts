@@ -0,0 +1,106 @@
+import { AnimationInfo, ImageFormat } from '../types.ts';
+import { decodeGifFrames, isGif, parseGif } from './gifDecoder.ts';
+import { isWebp, probeWebpAnimation } from './webpContainer.ts';
+
+export interface DecodedFrame {
+  data: Uint8ClampedArray;
+  delay: number;
+}
+
+export interface DecodedAnimation {
+  width: number;
+  height: number;
+  info: AnimationInfo;
+  frames: AsyncIterable<DecodedFrame>;
+}
+
+/**
+ * Reads frame count and total duration from animated GIF or WebP bytes.
+ * Returns null for still images, including single-frame GIFs.
+ */
+export const probeAnimation = (bytes: Uint8Array): AnimationInfo | null => {
+  try {
+    if (isGif(bytes)) {
+      const { frames } = parseGif(bytes);
+      if (frames.length < 2) return null;
+      return {
+        frameCount: frames.length,
+        duration: frames.reduce((sum, frame) => sum + frame.delay, 0),
+      };
+    }
+    if (isWebp(bytes)) return probeWebpAnimation(bytes);
+  } catch {
+    // Malformed containers are handled as still images by the browser decoder.
+  }
+  return null;
+};
+
+export const probeAnimationFile = async (file: File): Promise<AnimationInfo | null> => {
+  if (file.type !== ImageFormat.GIF && file.type !== ImageFormat.WEBP) return null;
+  return probeAnimation(new Uint8Array(await file.arrayBuffer()));
+};
+
+async function* gifFrames(bytes: Uint8Array): AsyncGenerator<DecodedFrame> {
+  yield* decodeGifFrames(parseGif(bytes));
+}
+
+/**
+ * WebCodecs path for animated WebP; the browser composites each frame for us
+ * and we read the pixels back through a canvas.
+ */
+async function* imageDecoderFrames(
+  bytes: Uint8Array,
+  type: string,
+  width: number,
+  height: number,
+  frameCount: number
+): AsyncGenerator<DecodedFrame> {
+  const decoder = new ImageDecoder({ data: bytes, type });
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context failure');
+  try {
+    for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+      const { image } = await decoder.decode({ frameIndex });
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(image, 0, 0, width, height);
+      const delay = (image.duration ?? 100_000) / 1000;
+      image.close();
+      yield { data: ctx.getImageData(0, 0, width, height).data, delay };
+    }
+  } finally {
+    decoder.close();
+  }
+}
+
+const readWebpCanvasSize = (bytes: Uint8Array): { width: number; height: number } => {
+  // VP8X payload starts at byte 20; canvas size is stored minus one, 24-bit LE.
+  const u24 = (o: number) => bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16);
+  return { width: u24(24) + 1, height: u24(27) + 1 };
+};
+
+/**
+ * Opens an animated input for frame-by-frame decoding. Returns null when the
+ * file is a still image, or an animated WebP in a browser without
+ * ImageDecoder, in which case callers fall back to the first frame.
+ */
+export const openAnimation = async (file: File): Promise<DecodedAnimation | null> => {
+  if (file.type !== ImageFormat.GIF && file.type !== ImageFormat.WEBP) return null;
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const info = probeAnimation(bytes);
+  if (!info) return null;
+
+  if (isGif(bytes)) {
+    const { width, height } = parseGif(bytes);
+    return { width, height, info, frames: gifFrames(bytes) };
+  }
+
+  if (typeof ImageDecoder === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  const { width, height } = readWebpCanvasSize(bytes);
+  return {
+    width,
+    height,
+    info,
+    frames: imageDecoderFrames(bytes, ImageFormat.WEBP, width, height, info.frameCount),
+  };
+};
@@ -0,0 +1,143 @@
+import { BackgroundOptions, ImageFormat } from '../types.ts';
+import { AnyCanvas, createCanvas, getContext2D } from './canvas.ts';
+
+export const DEFAULT_BACKGROUND: BackgroundOptions = {
+  color: '#FFFFFF',
+  flatten: false,
+  trim: false,
+  trimTolerance: 0.1,
+  pad: 'none',
+  padWidth: 1000,
+  padHeight: 1000,
+  padRatio: 1,
+  padMargin: 0.05,
+};
+
+export const MAX_PAD_MARGIN = 0.25;
+
+/** Formats whose encoders drop the alpha channel. */
+const OPAQUE_FORMATS: string[] = [ImageFormat.JPEG];
+
+export const flattensAlpha = (format: string, options?: BackgroundOptions): boolean =>
+  OPAQUE_FORMATS.includes(format) || !!options?.flatten;
+
+export const flattenColor = (options?: BackgroundOptions): string => options?.color ?? DEFAULT_BACKGROUND.color;
+
+/** Whether the options change anything beyond the flattening every opaque target gets anyway. */
+export const reshapesOutput = (options?: BackgroundOptions): boolean =>
+  !!options && (options.flatten || options.trim || options.pad !== 'none');
+
+/** Output canvas size and where the resized image sits in it. */
+export interface CanvasLayout {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+/**
+ * Places a `width`×`height` image on its padded canvas. `canvas` padding
+ * scales the image to fit inside the margins, enlarging it when needed so a
+ * catalogue comes out uniformly framed. `aspect` padding keeps the image's
+ * size and grows the canvas just enough for the ratio and margins.
+ */
+export const layoutCanvas = (width: number, height: number, options?: BackgroundOptions): CanvasLayout => {
+  const none = { width, height, x: 0, y: 0, drawWidth: width, drawHeight: height };
+  if (!options || options.pad === 'none') return none;
+  const margin = Math.min(MAX_PAD_MARGIN, Math.max(0, options.padMargin));
+
+  let canvasWidth: number;
+  let canvasHeight: number;
+  let drawWidth = width;
+  let drawHeight = height;
+  if (options.pad === 'canvas') {
+    canvasWidth = Math.max(1, Math.round(options.padWidth));
+    canvasHeight = Math.max(1, Math.round(options.padHeight));
+    const inset = 2 * margin * Math.min(canvasWidth, canvasHeight);
+    const scale = Math.min((canvasWidth - inset) / width, (canvasHeight - inset) / height);
+    drawWidth = Math.max(1, Math.round(width * scale));
+    drawHeight = Math.max(1, Math.round(height * scale));
+  } else {
+    const ratio = options.padRatio > 0 ? options.padRatio : 1;
+    // Shorter edge S of a canvas that is S·ratio × S (or S × S/ratio) and
+    // leaves margin·S free on every side of the image.
+    const shorter = ratio >= 1
+      ? Math.max(width / (ratio - 2 * margin), height / (1 - 2 * margin))
+      : Math.max(width / (1 - 2 * margin), height / (1 / ratio - 2 * margin));
+    canvasWidth = Math.max(width, Math.round(ratio >= 1 ? shorter * ratio : shorter));
+    canvasHeight = Math.max(height, Math.round(ratio >= 1 ? shorter : shorter / ratio));
+  }
+  return {
+    width: canvasWidth,
+    height: canvasHeight,
+    x: Math.round((canvasWidth - drawWidth) / 2),
+    y: Math.round((canvasHeight - drawHeight) / 2),
+    drawWidth,
+    drawHeight,
+  };
+};
+
+/** The same layout at `factor` size, as used by the target-size search. */
+export const scaleLayout = (layout: CanvasLayout, factor: number): CanvasLayout => {
+  if (factor === 1) return layout;
+  const scale = (value: number) => Math.max(1, Math.round(value * factor));
+  return {
+    width: scale(layout.width),
+    height: scale(layout.height),
+    x: Math.round(layout.x * factor),
+    y: Math.round(layout.y * factor),
+    drawWidth: scale(layout.drawWidth),
+    drawHeight: scale(layout.drawHeight),
+  };
+};
+
+/**
+ * Bounds of the content inside uniform borders. The top-left pixel defines
+ * the border: when it is (nearly) transparent, every (nearly) transparent
+ * pixel counts as border, otherwise every pixel within `tolerance` of its
+ * colour. Returns null when nothing would be trimmed or everything would.
+ */
+export const findTrimBounds = (data: Uint8ClampedArray, width: number, height: number, tolerance: number) => {
+  const limit = Math.round(Math.min(1, Math.max(0, tolerance)) * 255);
+  const [r, g, b, a] = data;
+  const transparent = a <= limit;
+  const isBorder = (i: number) => transparent
+    ? data[i + 3] <= limit
+    : Math.abs(data[i] - r) <= limit && Math.abs(data[i + 1] - g) <= limit
+      && Math.abs(data[i + 2] - b) <= limit && Math.abs(data[i + 3] - a) <= limit;
+  const rowIsBorder = (y: number) => {
+    for (let x = 0; x < width; x++) if (!isBorder((y * width + x) * 4)) return false;
+    return true;
+  };
+  const columnIsBorder = (x: number, top: number, bottom: number) => {
+    for (let y = top; y <= bottom; y++) if (!isBorder((y * width + x) * 4)) return false;
+    return true;
+  };
+
+  let top = 0;
+  while (top < height && rowIsBorder(top)) top++;
+  if (top === height) return null;
+  let bottom = height - 1;
+  while (bottom > top && rowIsBorder(bottom)) bottom--;
+  let left = 0;
+  while (left < width - 1 && columnIsBorder(left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > left && columnIsBorder(right, top, bottom)) right--;
+
+  if (top === 0 && left === 0 && bottom === height - 1 && right === width - 1) return null;
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/** A copy of `source` without its uniform borders, or null when there are none. */
+export const trimSource = (source: CanvasImageSource, width: number, height: number, tolerance: number): AnyCanvas | null => {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  ctx.drawImage(source, 0, 0, width, height);
+  const bounds = findTrimBounds(ctx.getImageData(0, 0, width, height).data, width, height, tolerance);
+  if (!bounds) return null;
+  const trimmed = createCanvas(bounds.width, bounds.height);
+  getContext2D(trimmed).drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return trimmed;
+};
@@ -0,0 +1,86 @@
+/** Pause/resume and cancellation for one batch run. */
+export interface BatchController {
+  /** Aborted by `cancel`; passed down to every conversion. */
+  readonly signal: AbortSignal;
+  readonly paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  /**
+   * Resolves right away while running, otherwise once resumed. Cancelling
+   * also releases waiters, so callers check `signal.aborted` afterwards.
+   */
+  whenRunning: () => Promise<void>;
+}
+
+/**
+ * Pausing only holds back images that have not started yet; conversions
+ * already in flight finish. Cancelling aborts those too.
+ */
+export const createBatchController = (): BatchController => {
+  const abort = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+  const wake = () => {
+    waiters.forEach(resolve => resolve());
+    waiters = [];
+  };
+
+  return {
+    signal: abort.signal,
+    get paused() {
+      return paused;
+    },
+    pause: () => {
+      if (!abort.signal.aborted) paused = true;
+    },
+    resume: () => {
+      paused = false;
+      wake();
+    },
+    cancel: () => {
+      abort.abort();
+      paused = false;
+      wake();
+    },
+    whenRunning: () => (paused ? new Promise<void>(resolve => waiters.push(resolve)) : Promise.resolve()),
+  };
+};
+
+/** Counters and timing of a batch run. Paused time is left out of every estimate. */
+export interface BatchProgress {
+  total: number;
+  /** Images that completed or failed. */
+  done: number;
+  startedAt: number;
+  /** Start of the current pause, or null while running. */
+  pausedAt: number | null;
+  /** Combined length of earlier pauses. */
+  pausedMs: number;
+}
+
+export const startProgress = (total: number, now = Date.now()): BatchProgress =>
+  ({ total, done: 0, startedAt: now, pausedAt: null, pausedMs: 0 });
+
+export const pauseProgress = (progress: BatchProgress, now = Date.now()): BatchProgress =>
+  progress.pausedAt !== null ? progress : { ...progress, pausedAt: now };
+
+export const resumeProgress = (progress: BatchProgress, now = Date.now()): BatchProgress =>
+  progress.pausedAt === null
+    ? progress
+    : { ...progress, pausedAt: null, pausedMs: progress.pausedMs + now - progress.pausedAt };
+
+/** Time spent running, excluding pauses. */
+export const activeTime = (progress: BatchProgress, now = Date.now()): number =>
+  now - progress.startedAt - progress.pausedMs - (progress.pausedAt !== null ? now - progress.pausedAt : 0);
+
+/** Remaining time at the average pace so far; null until the first image is done. */
+export const estimateRemaining = (progress: BatchProgress, now = Date.now()): number | null =>
+  progress.done === 0 ? null : (activeTime(progress, now) / progress.done) * (progress.total - progress.done);
+
+export const formatDuration = (ms: number): string => {
+  if (ms < 10_000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { BatchReport, reportEntries, reportToCsv } from './batchReport.ts';
+import { createPathAllocator } from './naming.ts';
+
+const report = (rows: Partial<BatchReport['rows'][number]>[]) => ({ rows } as BatchReport);
+
+describe('reportToCsv', () => {
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    const lines = reportToCsv(report([{ name: '=HYPERLINK("x")', status: 'error', error: '@cmd' }])).split('\r\n');
+    expect(lines[1]).toMatch(/^"'=HYPERLINK\(""x""\)",error,/);
+    expect(lines[1]).toMatch(/,"'@cmd"$/);
+  });
+
+  it('leaves negative numbers alone', () => {
+    const lines = reportToCsv(report([{ name: 'a.png', savedPercent: -12 }])).split('\r\n');
+    expect(lines[1].split(',')).toContain('-12');
+  });
+});
+
+describe('reportEntries', () => {
+  it('takes a free path when an exported image already uses the report name', () => {
+    const allocate = createPathAllocator();
+    allocate('pixelflex-report.csv');
+    expect(reportEntries(report([]), allocate).map(entry => entry.path))
+      .toEqual(['pixelflex-report-2.csv', 'pixelflex-report.json']);
+  });
+});
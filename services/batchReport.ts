@@ -0,0 +1,177 @@
+import { ImageFile } from '../types.ts';
+import { ExportEntry } from './exporter.ts';
+
+/** One queue image as it appears in the exported report. */
+export interface ReportRow {
+  /** Input path below the dropped folder or archive, or the file name. */
+  name: string;
+  status: ImageFile['status'];
+  inputFormat: string;
+  outputFormat?: string;
+  originalBytes: number;
+  resultBytes?: number;
+  /** Share of the original size saved, in percent; negative when the result grew. */
+  savedPercent?: number;
+  originalWidth?: number;
+  originalHeight?: number;
+  resultWidth?: number;
+  resultHeight?: number;
+  /** Encoder quality, 0–100. */
+  quality?: number;
+  elapsedMs?: number;
+  psnr?: number;
+  ssim?: number;
+  error?: string;
+}
+
+/** Totals for completed images with the same input and output format. */
+export interface FormatBreakdown {
+  input: string;
+  output: string;
+  count: number;
+  originalBytes: number;
+  resultBytes: number;
+}
+
+/**
+ * Savings are measured over completed images only, so a failed or pending
+ * image does not count as saved bytes.
+ */
+export interface BatchReport {
+  generatedAt: string;
+  total: number;
+  completed: number;
+  failed: number;
+  originalBytes: number;
+  resultBytes: number;
+  savedBytes: number;
+  savedPercent: number;
+  /** Mean conversion time of completed images, or null when there are none. */
+  averageElapsedMs: number | null;
+  /** Pixel totals of completed images whose original size is known. */
+  originalPixels: number;
+  resultPixels: number;
+  formats: FormatBreakdown[];
+  rows: ReportRow[];
+}
+
+const formatName = (mime: string | undefined, fileName?: string): string => {
+  if (mime) return mime.split('/')[1].split('+')[0].toUpperCase();
+  const dot = fileName?.lastIndexOf('.') ?? -1;
+  return dot > 0 ? fileName!.slice(dot + 1).toUpperCase() : '?';
+};
+
+const savedPercent = (original: number, result: number) =>
+  original > 0 ? ((original - result) / original) * 100 : 0;
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const toRow = (img: ImageFile): ReportRow => {
+  const done = img.status === 'completed' && img.resultSize !== undefined;
+  const decoded = img.fingerprint && img.fingerprint.width > 0;
+  return {
+    name: img.archive ? `${img.archive}/${img.relativePath}` : img.relativePath ?? img.file.name,
+    status: img.status,
+    inputFormat: formatName(img.format, img.file.name),
+    outputFormat: done ? formatName(img.resultFormat) : undefined,
+    originalBytes: img.originalSize,
+    resultBytes: done ? img.resultSize : undefined,
+    savedPercent: done ? round(savedPercent(img.originalSize, img.resultSize!), 2) : undefined,
+    originalWidth: decoded ? img.fingerprint!.width : undefined,
+    originalHeight: decoded ? img.fingerprint!.height : undefined,
+    resultWidth: done ? img.resultWidth : undefined,
+    resultHeight: done ? img.resultHeight : undefined,
+    quality: done && img.resultQuality !== undefined ? Math.round(img.resultQuality * 100) : undefined,
+    elapsedMs: img.elapsed !== undefined ? Math.round(img.elapsed) : undefined,
+    psnr: img.metrics && isFinite(img.metrics.psnr) ? round(img.metrics.psnr, 2) : undefined,
+    ssim: img.metrics ? round(img.metrics.ssim, 4) : undefined,
+    error: img.status === 'error' ? img.error : undefined,
+  };
+};
+
+export const buildBatchReport = (images: ImageFile[], date = new Date()): BatchReport => {
+  const rows = images.map(toRow);
+  const completed = rows.filter(row => row.resultBytes !== undefined);
+  const originalBytes = completed.reduce((sum, row) => sum + row.originalBytes, 0);
+  const resultBytes = completed.reduce((sum, row) => sum + row.resultBytes!, 0);
+  const timed = completed.filter(row => row.elapsedMs !== undefined);
+
+  const formats = new Map<string, FormatBreakdown>();
+  for (const row of completed) {
+    const key = `${row.inputFormat}>${row.outputFormat}`;
+    const entry = formats.get(key) ?? { input: row.inputFormat, output: row.outputFormat!, count: 0, originalBytes: 0, resultBytes: 0 };
+    entry.count++;
+    entry.originalBytes += row.originalBytes;
+    entry.resultBytes += row.resultBytes!;
+    formats.set(key, entry);
+  }
+
+  let originalPixels = 0;
+  let resultPixels = 0;
+  for (const row of completed) {
+    if (row.originalWidth === undefined || row.resultWidth === undefined) continue;
+    originalPixels += row.originalWidth * row.originalHeight!;
+    resultPixels += row.resultWidth * row.resultHeight!;
+  }
+
+  return {
+    generatedAt: date.toISOString(),
+    total: rows.length,
+    completed: completed.length,
+    failed: rows.filter(row => row.status === 'error').length,
+    originalBytes,
+    resultBytes,
+    savedBytes: originalBytes - resultBytes,
+    savedPercent: round(savedPercent(originalBytes, resultBytes), 2),
+    averageElapsedMs: timed.length > 0 ? Math.round(timed.reduce((sum, row) => sum + row.elapsedMs!, 0) / timed.length) : null,
+    originalPixels,
+    resultPixels,
+    formats: [...formats.values()].sort((a, b) => b.originalBytes - a.originalBytes),
+    rows,
+  };
+};
+
+const CSV_COLUMNS: (keyof ReportRow)[] = [
+  'name', 'status', 'inputFormat', 'outputFormat', 'originalBytes', 'resultBytes', 'savedPercent',
+  'originalWidth', 'originalHeight', 'resultWidth', 'resultHeight', 'quality', 'elapsedMs', 'psnr', 'ssim', 'error',
+];
+
+/** Text a spreadsheet app would run as a formula when it leads a cell. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes fields that need it. Text taken from file and folder names that
+ * looks like a formula gets a leading `'`, so opening the report never runs
+ * it; numbers, including negative savings, are left alone.
+ */
+const csvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'string' && FORMULA_START.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per image. Starts with a byte order mark so spreadsheet apps read
+ * non-ASCII file names as UTF-8.
+ */
+export const reportToCsv = (report: BatchReport): string =>
+  '\uFEFF' + [CSV_COLUMNS.join(','), ...report.rows.map(row => CSV_COLUMNS.map(key => csvField(row[key])).join(','))]
+    .join('\r\n') + '\r\n';
+
+export const reportToJson = (report: BatchReport): string => JSON.stringify(report, null, 2);
+
+/** `allocate` reserves the path next to the exported images, so neither overwrites the other. */
+export const reportFile = (
+  report: BatchReport,
+  kind: 'csv' | 'json',
+  allocate: (path: string) => string = path => path
+): ExportEntry => kind === 'csv'
+  ? { path: allocate('pixelflex-report.csv'), blob: new Blob([reportToCsv(report)], { type: 'text/csv' }) }
+  : { path: allocate('pixelflex-report.json'), blob: new Blob([reportToJson(report)], { type: 'application/json' }) };
+
+/** The CSV and JSON report at the export root. */
+export const reportEntries = (
+  report: BatchReport,
+  allocate: (path: string) => string = path => path
+): ExportEntry[] => [reportFile(report, 'csv', allocate), reportFile(report, 'json', allocate)];
@@ -0,0 +1,175 @@
+import type { RasterImage } from './rasterDecoders.ts';
+
+const FILE_HEADER_SIZE = 14;
+/** BITMAPCOREHEADER, the OS/2 1.x header with 16-bit sizes and 3-byte palette entries. */
+const CORE_HEADER_SIZE = 12;
+
+const COMPRESSION = { rgb: 0, rle8: 1, rle4: 2, bitfields: 3, alphaBitfields: 6 };
+
+export const isBmp = (bytes: Uint8Array): boolean =>
+  bytes.length >= FILE_HEADER_SIZE + CORE_HEADER_SIZE && bytes[0] === 0x42 && bytes[1] === 0x4d;
+
+/** Decodes a channel mask's shift and width, so masked values can be widened to 8 bits. */
+const maskChannel = (mask: number) => {
+  if (mask === 0) return null;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  let bits = 0;
+  while (bits + shift < 32 && ((mask >>> (shift + bits)) & 1) === 1) bits++;
+  const max = 2 ** bits - 1;
+  return (value: number) => Math.round((((value & mask) >>> shift) * 255) / max);
+};
+
+/**
+ * Expands RLE8 / RLE4 data into one palette index per pixel, in stored
+ * (bottom-up) row order. Pixels the deltas skip stay transparent.
+ */
+const decodeRle = (input: Uint8Array, width: number, height: number, four: boolean) => {
+  const indices = new Uint8Array(width * height);
+  const written = new Uint8Array(width * height);
+  let x = 0;
+  let y = 0;
+  const put = (index: number) => {
+    if (x < width && y < height) {
+      indices[y * width + x] = index;
+      written[y * width + x] = 1;
+    }
+    x++;
+  };
+  for (let i = 0; i + 1 < input.length && y < height;) {
+    const count = input[i++];
+    const value = input[i++];
+    if (count > 0) {
+      for (let k = 0; k < count; k++) put(four ? (k & 1 ? value & 0x0f : value >> 4) : value);
+    } else if (value === 0) {
+      x = 0;
+      y++;
+    } else if (value === 1) {
+      break;
+    } else if (value === 2) {
+      x += input[i++];
+      y += input[i++];
+    } else {
+      for (let k = 0; k < value; k++) put(four ? (k & 1 ? input[i + (k >> 1)] & 0x0f : input[i + (k >> 1)] >> 4) : input[i + k]);
+      const length = four ? Math.ceil(value / 2) : value;
+      i += length + (length & 1);
+    }
+  }
+  return { indices, written };
+};
+
+/**
+ * Decodes a device-independent bitmap starting at its info header. Icons
+ * store a DIB with doubled height and a 1-bit AND mask after the colour rows;
+ * `icon` applies that mask unless the 32-bit colours carry their own alpha.
+ * `pixelOffset` is where the colour rows start; by default right after the
+ * palette.
+ */
+export const decodeDib = (bytes: Uint8Array, offset: number, icon = false, pixelOffset?: number): RasterImage => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = view.getUint32(offset, true);
+  const core = headerSize === CORE_HEADER_SIZE;
+  const width = core ? view.getUint16(offset + 4, true) : view.getInt32(offset + 4, true);
+  const rawHeight = core ? view.getUint16(offset + 6, true) : view.getInt32(offset + 8, true);
+  const bitCount = view.getUint16(offset + (core ? 10 : 14), true);
+  const compression = core ? COMPRESSION.rgb : view.getUint32(offset + 16, true);
+  const topDown = rawHeight < 0;
+  const height = Math.abs(icon ? Math.trunc(rawHeight / 2) : rawHeight);
+  if (width < 1 || height < 1) throw new Error('Invalid BMP dimensions');
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) throw new Error(`Unsupported BMP bit depth ${bitCount}`);
+
+  // Masks follow a 40-byte header, or sit inside the V2+ headers at the same place.
+  let masks = bitCount === 16 ? [0x7c00, 0x03e0, 0x001f, 0] : [0xff0000, 0xff00, 0xff, 0];
+  let paletteStart = offset + headerSize;
+  if (compression === COMPRESSION.bitfields || compression === COMPRESSION.alphaBitfields) {
+    const count = compression === COMPRESSION.alphaBitfields ? 4 : 3;
+    masks = Array.from({ length: 4 }, (_, i) => (i < count ? view.getUint32(offset + 40 + i * 4, true) : 0));
+    if (headerSize === 40) paletteStart += count * 4;
+  } else if (headerSize >= 56 && bitCount === 32) {
+    masks[3] = view.getUint32(offset + 52, true);
+  }
+  if (bitCount === 32 && compression === COMPRESSION.rgb && !masks[3]) masks[3] = 0xff000000;
+
+  const colorsUsed = core ? 0 : view.getUint32(offset + 32, true);
+  const paletteSize = bitCount <= 8 ? Math.min(1 << bitCount, colorsUsed || 1 << bitCount) : 0;
+  const entrySize = core ? 3 : 4;
+  const palette = new Uint8Array(256 * 3);
+  for (let i = 0; i < paletteSize && paletteStart + i * entrySize + 2 < bytes.length; i++) {
+    const at = paletteStart + i * entrySize;
+    palette[i * 3] = bytes[at + 2];
+    palette[i * 3 + 1] = bytes[at + 1];
+    palette[i * 3 + 2] = bytes[at];
+  }
+  const start = pixelOffset ?? paletteStart + paletteSize * entrySize;
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  const row = (y: number) => start + (topDown ? y : height - 1 - y) * stride;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const setIndex = (p: number, index: number) => {
+    data[p] = palette[index * 3];
+    data[p + 1] = palette[index * 3 + 1];
+    data[p + 2] = palette[index * 3 + 2];
+    data[p + 3] = 255;
+  };
+
+  if (compression === COMPRESSION.rle8 || compression === COMPRESSION.rle4) {
+    const { indices, written } = decodeRle(bytes.subarray(start), width, height, compression === COMPRESSION.rle4);
+    for (let y = 0; y < height; y++) {
+      const source = (topDown ? y : height - 1 - y) * width;
+      for (let x = 0; x < width; x++) {
+        if (written[source + x]) setIndex((y * width + x) * 4, indices[source + x]);
+      }
+    }
+    return { width, height, data };
+  }
+
+  const [red, green, blue, alpha] = masks.map(maskChannel);
+  let anyAlpha = false;
+  for (let y = 0; y < height; y++) {
+    const at = row(y);
+    if (at + stride > bytes.length) break;
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        setIndex(p, (bytes[at + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1));
+      } else if (bitCount === 24) {
+        data[p] = bytes[at + x * 3 + 2];
+        data[p + 1] = bytes[at + x * 3 + 1];
+        data[p + 2] = bytes[at + x * 3];
+        data[p + 3] = 255;
+      } else {
+        const value = bitCount === 16 ? view.getUint16(at + x * 2, true) : view.getUint32(at + x * 4, true);
+        data[p] = red ? red(value) : 0;
+        data[p + 1] = green ? green(value) : 0;
+        data[p + 2] = blue ? blue(value) : 0;
+        data[p + 3] = alpha ? alpha(value) : 255;
+        if (alpha && data[p + 3] > 0) anyAlpha = true;
+      }
+    }
+  }
+  // Many writers leave the fourth byte zero; an all-transparent image means it is unused.
+  if (alpha && !anyAlpha) {
+    for (let p = 3; p < data.length; p += 4) data[p] = 255;
+  }
+
+  if (icon && !anyAlpha) {
+    const maskStride = Math.ceil(width / 32) * 4;
+    const maskStart = start + stride * height;
+    for (let y = 0; y < height; y++) {
+      const at = maskStart + (topDown ? y : height - 1 - y) * maskStride;
+      if (at + maskStride > bytes.length) break;
+      for (let x = 0; x < width; x++) {
+        if (bytes[at + (x >> 3)] & (0x80 >> (x & 7))) data[(y * width + x) * 4 + 3] = 0;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+/** Decodes a Windows or OS/2 `.bmp`: 1-32 bits, palettes, bit fields and RLE. */
+export const decodeBmp = async (bytes: Uint8Array): Promise<RasterImage> => {
+  if (!isBmp(bytes)) throw new Error('Not a BMP file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return decodeDib(bytes, FILE_HEADER_SIZE, false, view.getUint32(10, true));
+};
@@ -0,0 +1,70 @@
+/**
+ * Growable byte buffer used by the binary encoders.
+ */
+export interface ByteWriter {
+  readonly length: number;
+  byte: (value: number) => void;
+  u16le: (value: number) => void;
+  u16be: (value: number) => void;
+  u32le: (value: number) => void;
+  u32be: (value: number) => void;
+  bytes: (data: ArrayLike<number>) => void;
+  ascii: (text: string) => void;
+  toUint8Array: () => Uint8Array;
+}
+
+export const createByteWriter = (initialCapacity = 4096): ByteWriter => {
+  let buffer = new Uint8Array(initialCapacity);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let capacity = buffer.length * 2;
+    while (capacity < length + extra) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+  };
+
+  const byte = (value: number) => {
+    ensure(1);
+    buffer[length++] = value & 0xff;
+  };
+
+  return {
+    get length() {
+      return length;
+    },
+    byte,
+    u16le: (value) => {
+      byte(value);
+      byte(value >>> 8);
+    },
+    u16be: (value) => {
+      byte(value >>> 8);
+      byte(value);
+    },
+    u32le: (value) => {
+      byte(value);
+      byte(value >>> 8);
+      byte(value >>> 16);
+      byte(value >>> 24);
+    },
+    u32be: (value) => {
+      byte(value >>> 24);
+      byte(value >>> 16);
+      byte(value >>> 8);
+      byte(value);
+    },
+    bytes: (data) => {
+      ensure(data.length);
+      buffer.set(data, length);
+      length += data.length;
+    },
+    ascii: (text) => {
+      ensure(text.length);
+      for (let i = 0; i < text.length; i++) buffer[length++] = text.charCodeAt(i) & 0xff;
+    },
+    toUint8Array: () => buffer.slice(0, length),
+  };
+};
@@ -0,0 +1,38 @@
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Creates a drawing surface. Uses a DOM canvas when a document is available and
+ * falls back to OffscreenCanvas inside workers.
+ */
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext2D = (canvas: AnyCanvas): AnyContext2D => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as AnyContext2D | null;
+  if (!ctx) throw new Error('Canvas context failure');
+  return ctx;
+};
+
+export const canvasToBlob = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error('Blob generation failed'));
+      },
+      type,
+      quality
+    );
+  });
+};
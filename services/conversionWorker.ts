@@ -0,0 +1,32 @@
+import { ConversionOptions, RenderOutput } from '../types.ts';
+import { renderFile } from './imageProcessor.ts';
+import { DecodeImage } from './orientation.ts';
+
+export interface WorkerRequest {
+  jobId: number;
+  file: File;
+  options: ConversionOptions;
+}
+
+export type WorkerResponse =
+  | { jobId: number; output: RenderOutput }
+  | { jobId: number; error: string };
+
+const decodeBitmap: DecodeImage = async (blob) => {
+  const bitmap = await createImageBitmap(blob);
+  return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+};
+
+/**
+ * Conversion worker entry. Decodes with createImageBitmap and renders on an
+ * OffscreenCanvas so the main thread stays responsive during large batches.
+ */
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { jobId, file, options } = e.data;
+  try {
+    const output = await renderFile(file, options, decodeBitmap);
+    self.postMessage({ jobId, output } satisfies WorkerResponse);
+  } catch (err: any) {
+    self.postMessage({ jobId, error: err?.message || String(err) } satisfies WorkerResponse);
+  }
+};
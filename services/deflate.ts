@@ -0,0 +1,474 @@
+/**
+ * Pure TypeScript DEFLATE encoder with a zlib wrapper. Slower than the
+ * platform CompressionStream but searches much harder for matches, which is
+ * what the PNG optimizer needs for its final pass.
+ */
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const HASH_BITS = 15;
+const HASH_MASK = (1 << HASH_BITS) - 1;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** Three-byte matches further back than this cost more than the literals. */
+const TOO_FAR = 4096;
+/** Granularity of block splitting, and the cap on symbols per block. */
+const SEGMENT_SYMBOLS = 2048;
+const MAX_BLOCK_SYMBOLS = 1 << 16;
+const END_OF_BLOCK = 256;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const buildLookup = (bases: number[], size: number) => {
+  const table = new Uint8Array(size);
+  for (let code = 0; code < bases.length; code++) {
+    const end = code + 1 < bases.length ? bases[code + 1] : size;
+    for (let v = bases[code]; v < end && v < size; v++) table[v] = code;
+  }
+  return table;
+};
+const LENGTH_CODE = buildLookup(LENGTH_BASE, MAX_MATCH + 1);
+const DIST_CODE = buildLookup(DIST_BASE, WINDOW_SIZE + 1);
+
+const FIXED_LIT_LENGTHS = Uint8Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FIXED_DIST_LENGTHS = new Uint8Array(30).fill(5);
+
+interface BitWriter {
+  bits: (value: number, count: number) => void;
+  align: () => void;
+  bytes: (data: Uint8Array) => void;
+  finish: () => Uint8Array;
+}
+
+const createBitWriter = (capacity: number): BitWriter => {
+  let buffer = new Uint8Array(Math.max(1024, capacity));
+  let length = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    const next = new Uint8Array(Math.max(buffer.length * 2, length + extra));
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+  };
+  const bits = (value: number, count: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += count;
+    if (bitCount >= 8) {
+      ensure(4);
+      while (bitCount >= 8) {
+        buffer[length++] = bitBuffer & 0xff;
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+      }
+    }
+  };
+  const align = () => {
+    if (bitCount > 0) bits(0, 8 - bitCount);
+  };
+
+  return {
+    bits,
+    align,
+    bytes: (data) => {
+      align();
+      ensure(data.length);
+      buffer.set(data, length);
+      length += data.length;
+    },
+    finish: () => {
+      align();
+      return buffer.slice(0, length);
+    },
+  };
+};
+
+/**
+ * Optimal code lengths limited to `maxBits`, via package-merge. Unused
+ * symbols get length 0; a lone symbol gets length 1.
+ */
+const buildCodeLengths = (freqs: Uint32Array, maxBits: number): Uint8Array => {
+  const lengths = new Uint8Array(freqs.length);
+  const leaves: { weight: number; symbols: number[] }[] = [];
+  freqs.forEach((f, symbol) => {
+    if (f > 0) leaves.push({ weight: f, symbols: [symbol] });
+  });
+  if (leaves.length === 0) return lengths;
+  if (leaves.length === 1) {
+    lengths[leaves[0].symbols[0]] = 1;
+    return lengths;
+  }
+  leaves.sort((a, b) => a.weight - b.weight);
+
+  let list = leaves;
+  for (let level = 1; level < maxBits; level++) {
+    const packages: typeof leaves = [];
+    for (let i = 0; i + 1 < list.length; i += 2) {
+      packages.push({ weight: list[i].weight + list[i + 1].weight, symbols: list[i].symbols.concat(list[i + 1].symbols) });
+    }
+    const merged: typeof leaves = [];
+    let a = 0;
+    let b = 0;
+    while (a < leaves.length || b < packages.length) {
+      if (b >= packages.length || (a < leaves.length && leaves[a].weight <= packages[b].weight)) merged.push(leaves[a++]);
+      else merged.push(packages[b++]);
+    }
+    list = merged;
+  }
+  for (let i = 0; i < 2 * leaves.length - 2; i++) {
+    for (const symbol of list[i].symbols) lengths[symbol]++;
+  }
+  return lengths;
+};
+
+/** Canonical codes, bit-reversed for LSB-first output. */
+const buildCodes = (lengths: Uint8Array): Uint16Array => {
+  const counts = new Uint16Array(16);
+  lengths.forEach(len => counts[len]++);
+  counts[0] = 0;
+  const next = new Uint16Array(16);
+  let code = 0;
+  for (let bits = 1; bits < 16; bits++) {
+    code = (code + counts[bits - 1]) << 1;
+    next[bits] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((len, symbol) => {
+    if (len === 0) return;
+    let value = next[len]++;
+    let reversed = 0;
+    for (let i = 0; i < len; i++) {
+      reversed = (reversed << 1) | (value & 1);
+      value >>= 1;
+    }
+    codes[symbol] = reversed;
+  });
+  return codes;
+};
+
+/** Run-length encodes the concatenated code lengths with symbols 16-18. */
+const encodeCodeLengths = (lengths: Uint8Array): { symbol: number; extra: number }[] => {
+  const out: { symbol: number; extra: number }[] = [];
+  for (let i = 0; i < lengths.length;) {
+    const value = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === value) run++;
+    i += run;
+    if (value === 0) {
+      while (run >= 11) {
+        const n = Math.min(run, 138);
+        out.push({ symbol: 18, extra: n - 11 });
+        run -= n;
+      }
+      if (run >= 3) {
+        out.push({ symbol: 17, extra: run - 3 });
+        run = 0;
+      }
+    } else {
+      out.push({ symbol: value, extra: 0 });
+      run--;
+      while (run >= 3) {
+        const n = Math.min(run, 6);
+        out.push({ symbol: 16, extra: n - 3 });
+        run -= n;
+      }
+    }
+    for (; run > 0; run--) out.push({ symbol: value, extra: 0 });
+  }
+  return out;
+};
+
+const CODE_LENGTH_EXTRA: Record<number, number> = { 16: 2, 17: 3, 18: 7 };
+
+interface Symbols {
+  /** Literal byte, or 256 + match length. */
+  lit: Uint16Array;
+  /** Match distance; 0 for literals. */
+  dist: Uint16Array;
+}
+
+interface Frequencies {
+  lit: Uint32Array;
+  dist: Uint32Array;
+  extraBits: number;
+}
+
+const countSymbols = (symbols: Symbols, from: number, to: number): Frequencies => {
+  const lit = new Uint32Array(286);
+  const dist = new Uint32Array(30);
+  let extraBits = 0;
+  for (let i = from; i < to; i++) {
+    const d = symbols.dist[i];
+    if (d === 0) {
+      lit[symbols.lit[i]]++;
+    } else {
+      const lc = LENGTH_CODE[symbols.lit[i] - 256];
+      const dc = DIST_CODE[d];
+      lit[257 + lc]++;
+      dist[dc]++;
+      extraBits += LENGTH_EXTRA[lc] + DIST_EXTRA[dc];
+    }
+  }
+  lit[END_OF_BLOCK] = 1;
+  return { lit, dist, extraBits };
+};
+
+const addFrequencies = (a: Frequencies, b: Frequencies): Frequencies => ({
+  lit: a.lit.map((f, i) => f + b.lit[i]),
+  dist: a.dist.map((f, i) => f + b.dist[i]),
+  extraBits: a.extraBits + b.extraBits,
+});
+
+interface HuffmanPlan {
+  litLengths: Uint8Array;
+  distLengths: Uint8Array;
+  clLengths: Uint8Array;
+  rle: { symbol: number; extra: number }[];
+  hlit: number;
+  hdist: number;
+  hclen: number;
+  dynamicBits: number;
+  fixedBits: number;
+}
+
+const planHuffman = (freqs: Frequencies): HuffmanPlan => {
+  const litLengths = buildCodeLengths(freqs.lit, 15);
+  const distLengths = buildCodeLengths(freqs.dist, 15);
+  if (distLengths.every(len => len === 0)) distLengths[0] = 1;
+
+  let hlit = 286;
+  while (hlit > 257 && litLengths[hlit - 1] === 0) hlit--;
+  let hdist = 30;
+  while (hdist > 1 && distLengths[hdist - 1] === 0) hdist--;
+  const combined = new Uint8Array(hlit + hdist);
+  combined.set(litLengths.subarray(0, hlit));
+  combined.set(distLengths.subarray(0, hdist), hlit);
+  const rle = encodeCodeLengths(combined);
+  const clFreq = new Uint32Array(19);
+  rle.forEach(({ symbol }) => clFreq[symbol]++);
+  const clLengths = buildCodeLengths(clFreq, 7);
+  let hclen = 19;
+  while (hclen > 4 && clLengths[CODE_LENGTH_ORDER[hclen - 1]] === 0) hclen--;
+
+  const cost = (lit: Uint8Array, dist: Uint8Array) => {
+    let bits = freqs.extraBits;
+    freqs.lit.forEach((f, s) => { bits += f * lit[s]; });
+    freqs.dist.forEach((f, s) => { bits += f * dist[s]; });
+    return bits;
+  };
+  const dynamicBits = 3 + 5 + 5 + 4 + hclen * 3
+    + rle.reduce((sum, { symbol }) => sum + clLengths[symbol] + (CODE_LENGTH_EXTRA[symbol] || 0), 0)
+    + cost(litLengths, distLengths);
+  const fixedBits = 3 + cost(FIXED_LIT_LENGTHS, FIXED_DIST_LENGTHS);
+  return { litLengths, distLengths, clLengths, rle, hlit, hdist, hclen, dynamicBits, fixedBits };
+};
+
+const blockBits = (plan: HuffmanPlan) => Math.min(plan.dynamicBits, plan.fixedBits);
+
+interface Block {
+  from: number;
+  to: number;
+  /** Input byte range, for stored blocks. */
+  start: number;
+  end: number;
+}
+
+const writeBlock = (out: BitWriter, symbols: Symbols, block: Block, data: Uint8Array, last: boolean) => {
+  const plan = planHuffman(countSymbols(symbols, block.from, block.to));
+  const rawLength = block.end - block.start;
+  const storedBits = (Math.ceil(rawLength / 65535) || 1) * 40 + rawLength * 8 + 7;
+
+  if (storedBits <= blockBits(plan)) {
+    for (let pos = block.start, first = true; first || pos < block.end; first = false) {
+      const end = Math.min(block.end, pos + 65535);
+      out.bits(last && end === block.end ? 1 : 0, 1);
+      out.bits(0, 2);
+      out.align();
+      out.bits(end - pos, 16);
+      out.bits(~(end - pos) & 0xffff, 16);
+      out.bytes(data.subarray(pos, end));
+      pos = end;
+    }
+    return;
+  }
+
+  let litTable = FIXED_LIT_LENGTHS;
+  let distTable = FIXED_DIST_LENGTHS;
+  out.bits(last ? 1 : 0, 1);
+  if (plan.fixedBits <= plan.dynamicBits) {
+    out.bits(1, 2);
+  } else {
+    litTable = plan.litLengths;
+    distTable = plan.distLengths;
+    out.bits(2, 2);
+    out.bits(plan.hlit - 257, 5);
+    out.bits(plan.hdist - 1, 5);
+    out.bits(plan.hclen - 4, 4);
+    for (let i = 0; i < plan.hclen; i++) out.bits(plan.clLengths[CODE_LENGTH_ORDER[i]], 3);
+    const clCodes = buildCodes(plan.clLengths);
+    for (const { symbol, extra } of plan.rle) {
+      out.bits(clCodes[symbol], plan.clLengths[symbol]);
+      if (symbol >= 16) out.bits(extra, CODE_LENGTH_EXTRA[symbol]);
+    }
+  }
+
+  const litCodes = buildCodes(litTable);
+  const distCodes = buildCodes(distTable);
+  for (let i = block.from; i < block.to; i++) {
+    const dist = symbols.dist[i];
+    if (dist === 0) {
+      const lit = symbols.lit[i];
+      out.bits(litCodes[lit], litTable[lit]);
+      continue;
+    }
+    const length = symbols.lit[i] - 256;
+    const lc = LENGTH_CODE[length];
+    out.bits(litCodes[257 + lc], litTable[257 + lc]);
+    if (LENGTH_EXTRA[lc]) out.bits(length - LENGTH_BASE[lc], LENGTH_EXTRA[lc]);
+    const dc = DIST_CODE[dist];
+    out.bits(distCodes[dc], distTable[dc]);
+    if (DIST_EXTRA[dc]) out.bits(dist - DIST_BASE[dc], DIST_EXTRA[dc]);
+  }
+  out.bits(litCodes[END_OF_BLOCK], litTable[END_OF_BLOCK]);
+};
+
+/**
+ * Greedy block splitting: symbols are examined in fixed segments, and each
+ * segment either extends the current block or starts a new one, whichever
+ * the Huffman cost estimate favours.
+ */
+const planBlocks = (symbols: Symbols, count: number, segmentStarts: number[]): Block[] => {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let currentFreqs: Frequencies | null = null;
+  let currentBits = 0;
+  for (let s = 0; s * SEGMENT_SYMBOLS < count; s++) {
+    const from = s * SEGMENT_SYMBOLS;
+    const to = Math.min(count, from + SEGMENT_SYMBOLS);
+    const segment = { from, to, start: segmentStarts[s], end: segmentStarts[s + 1] };
+    const freqs = countSymbols(symbols, from, to);
+    const bits = blockBits(planHuffman(freqs));
+    if (current && currentFreqs && current.to - current.from < MAX_BLOCK_SYMBOLS) {
+      const merged = addFrequencies(currentFreqs, freqs);
+      const mergedBits = blockBits(planHuffman(merged));
+      if (mergedBits <= currentBits + bits) {
+        current.to = to;
+        current.end = segment.end;
+        currentFreqs = merged;
+        currentBits = mergedBits;
+        continue;
+      }
+    }
+    current = segment;
+    currentFreqs = freqs;
+    currentBits = bits;
+    blocks.push(current);
+  }
+  return blocks;
+};
+
+const adler32 = (data: Uint8Array) => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length;) {
+    const end = Math.min(data.length, i + 5552);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * Compresses `data` into a zlib stream. `maxChain` bounds how many earlier
+ * positions are tried per match search; higher is slower and smaller. Uses
+ * lazy matching, cost-based block splitting, and picks stored, fixed or
+ * dynamic Huffman coding per block.
+ */
+export const deflateZlib = (data: Uint8Array, maxChain = 256): Uint8Array => {
+  const out = createBitWriter((data.length >> 1) + 64);
+  out.bits(0x78, 8);
+  out.bits(0xda, 8);
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hashAt = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & HASH_MASK;
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hashAt(i);
+    prev[i & WINDOW_MASK] = head[h];
+    head[h] = i;
+  };
+  // Longest match for position i among already inserted positions.
+  const findMatch = (i: number): { length: number; distance: number } => {
+    let best = 0;
+    let distance = 0;
+    if (i + MIN_MATCH > data.length) return { length: 0, distance: 0 };
+    const limit = Math.min(MAX_MATCH, data.length - i);
+    let candidate = head[hashAt(i)];
+    for (let chain = maxChain; candidate >= 0 && chain > 0; chain--) {
+      const d = i - candidate;
+      if (d > WINDOW_SIZE - 1 || d <= 0) break;
+      if (data[candidate + best] === data[i + best]) {
+        let len = 0;
+        while (len < limit && data[candidate + len] === data[i + len]) len++;
+        if (len > best) {
+          best = len;
+          distance = d;
+          if (len === limit) break;
+        }
+      }
+      const next = prev[candidate & WINDOW_MASK];
+      if (next >= candidate) break;
+      candidate = next;
+    }
+    if (best < MIN_MATCH || (best === MIN_MATCH && distance > TOO_FAR)) return { length: 0, distance: 0 };
+    return { length: best, distance };
+  };
+
+  const symbols: Symbols = {
+    lit: new Uint16Array(data.length),
+    dist: new Uint16Array(data.length),
+  };
+  const segmentStarts = [0];
+  let count = 0;
+
+  let i = 0;
+  while (i < data.length) {
+    const match = findMatch(i);
+    insert(i);
+    if (match.length > 0 && match.length < MAX_MATCH) {
+      // Lazy evaluation: prefer a literal if the next position matches longer.
+      const ahead = findMatch(i + 1);
+      if (ahead.length > match.length) match.length = 0;
+    }
+    if (match.length > 0) {
+      symbols.lit[count] = 256 + match.length;
+      symbols.dist[count++] = match.distance;
+      for (let k = 1; k < match.length; k++) insert(i + k);
+      i += match.length;
+    } else {
+      symbols.lit[count] = data[i];
+      symbols.dist[count++] = 0;
+      i++;
+    }
+    if (count % SEGMENT_SYMBOLS === 0) segmentStarts.push(i);
+  }
+  if (count % SEGMENT_SYMBOLS !== 0 || count === 0) segmentStarts.push(data.length);
+
+  const blocks = planBlocks(symbols, count, segmentStarts);
+  if (blocks.length === 0) blocks.push({ from: 0, to: 0, start: 0, end: 0 });
+  blocks.forEach((block, index) => writeBlock(out, symbols, block, data, index === blocks.length - 1));
+
+  const trailer = adler32(data);
+  out.bytes(new Uint8Array([trailer >>> 24, (trailer >>> 16) & 0xff, (trailer >>> 8) & 0xff, trailer & 0xff]));
+  return out.finish();
+};
@@ -0,0 +1,167 @@
+import { ImageFile, ImageFingerprint } from '../types.ts';
+import { createCanvas, getContext2D } from './canvas.ts';
+import { crc32 } from './pngChunks.ts';
+
+/** Largest dHash distance (of 64 bits) at which two images still count as the same shot. */
+export const SIMILAR_DISTANCE = 6;
+/** Re-exports keep their proportions; a larger aspect difference means a different crop. */
+const MAX_ASPECT_DIFFERENCE = 0.02;
+
+/** dHash grid: 9×8 samples give 8×8 horizontal gradients. */
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+/** Each hash sample averages a block of this many pixels per side, so resampling does not alias. */
+const BLOCK = 4;
+
+/** Hex SHA-256 of the content, or its CRC-32 and length outside secure contexts. */
+export const contentHash = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+    return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+  }
+  return `${crc32(bytes).toString(16).padStart(8, '0')}-${bytes.length}`;
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image decoding failed'));
+    img.src = url;
+  });
+
+/**
+ * Difference hash of RGBA pixels sampled at (9·BLOCK)×(8·BLOCK): one bit per
+ * horizontally adjacent pair of block averages, set when the left is brighter.
+ * Transparent pixels count as white, as they are shown on a light page.
+ */
+export const differenceHash = (data: Uint8ClampedArray): string => {
+  const width = HASH_WIDTH * BLOCK;
+  const luma = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT * BLOCK; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3] / 255;
+      const value = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      luma[Math.floor(y / BLOCK) * HASH_WIDTH + Math.floor(x / BLOCK)] += value * alpha + 255 * (1 - alpha);
+    }
+  }
+  let hex = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const at = row * HASH_WIDTH + col;
+      nibble = (nibble << 1) | (luma[at] > luma[at + 1] ? 1 : 0);
+      if (col % 4 === 3) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+};
+
+/**
+ * Content hash plus, when the browser can decode the image, its dHash and
+ * upright dimensions.
+ */
+export const fingerprintImage = async (image: ImageFile): Promise<ImageFingerprint> => {
+  const hash = await contentHash(image.file);
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(image.previewUrl);
+  } catch {
+    return { hash, dhash: null, width: 0, height: 0 };
+  }
+  const canvas = createCanvas(HASH_WIDTH * BLOCK, HASH_HEIGHT * BLOCK);
+  const ctx = getContext2D(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { hash, dhash: differenceHash(data), width: img.naturalWidth, height: img.naturalHeight };
+};
+
+const popcount = (value: number) => {
+  let count = 0;
+  for (let v = value >>> 0; v; v &= v - 1) count++;
+  return count;
+};
+
+/** A 16-digit hex hash as two 32-bit halves. */
+const hashWords = (hex: string): [number, number] => [parseInt(hex.slice(0, 8), 16), parseInt(hex.slice(8), 16)];
+
+const wordDistance = (a: [number, number], b: [number, number]) => popcount(a[0] ^ b[0]) + popcount(a[1] ^ b[1]);
+
+/** Number of differing bits between two 16-digit hex hashes. */
+export const hammingDistance = (a: string, b: string): number => wordDistance(hashWords(a), hashWords(b));
+
+export interface DuplicateGroup {
+  /** `exact` when every copy has the same bytes, `similar` when some only look alike. */
+  kind: 'exact' | 'similar';
+  /** In queue order. */
+  images: ImageFile[];
+  /** The copy worth keeping: most pixels, then largest file, then first queued. */
+  best: ImageFile;
+}
+
+const pixels = (image: ImageFile) => (image.fingerprint ? image.fingerprint.width * image.fingerprint.height : 0);
+
+export const pickBest = (images: ImageFile[]): ImageFile =>
+  images.reduce((best, image) => {
+    if (pixels(image) !== pixels(best)) return pixels(image) > pixels(best) ? image : best;
+    return image.originalSize > best.originalSize ? image : best;
+  });
+
+/**
+ * Groups fingerprinted images whose bytes match or whose dHashes lie within
+ * `maxDistance` bits at (nearly) the same aspect ratio. Matches are chained,
+ * so a group may hold two copies that are only similar through a third.
+ */
+export const groupDuplicates = (images: ImageFile[], maxDistance = SIMILAR_DISTANCE): DuplicateGroup[] => {
+  const hashed = images.filter(image => image.fingerprint);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const [ra, rb] = [find(a), find(b)];
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+
+  const byHash = new Map<string, number>();
+  hashed.forEach((image, i) => {
+    const hash = image.fingerprint!.hash;
+    const first = byHash.get(hash);
+    if (first === undefined) byHash.set(hash, i);
+    else union(first, i);
+  });
+
+  // Parsed once, since every pair is compared.
+  const visual = hashed.flatMap((image, i) => {
+    const { dhash, width, height } = image.fingerprint!;
+    return dhash && width > 0 && height > 0 ? [{ i, words: hashWords(dhash), aspect: width / height }] : [];
+  });
+  for (let a = 0; a < visual.length; a++) {
+    for (let b = a + 1; b < visual.length; b++) {
+      if (Math.abs(visual[a].aspect / visual[b].aspect - 1) > MAX_ASPECT_DIFFERENCE) continue;
+      if (wordDistance(visual[a].words, visual[b].words) <= maxDistance) union(visual[a].i, visual[b].i);
+    }
+  }
+
+  const groups = new Map<number, ImageFile[]>();
+  hashed.forEach((image, i) => {
+    const root = find(i);
+    const members = groups.get(root);
+    if (members) members.push(image);
+    else groups.set(root, [image]);
+  });
+  return [...groups.values()]
+    .filter(members => members.length > 1)
+    .map((members): DuplicateGroup => ({
+      kind: members.every(image => image.fingerprint!.hash === members[0].fingerprint!.hash) ? 'exact' : 'similar',
+      images: members,
+      best: pickBest(members),
+    }));
+};
@@ -0,0 +1,145 @@
+import { createByteWriter } from './bytes.ts';
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+
+/** Byte size of one value for each TIFF field type (index = type id). */
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Offset of the value (inline or out-of-line) within the TIFF block. */
+  valueOffset: number;
+  /** Offset of the 4-byte value/offset field itself. */
+  fieldOffset: number;
+}
+
+/** Prefix of EXIF payloads in JPEG APP1 segments (and some WebP writers). */
+export const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+
+export const hasExifHeader = (bytes: Uint8Array): boolean =>
+  bytes.length >= 6 && EXIF_HEADER.every((b, i) => bytes[i] === b);
+
+const readIfd0 = (tiff: Uint8Array): { view: DataView; little: boolean; entries: IfdEntry[] } | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (view.getUint16(2, little) !== 42) return null;
+
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) return null;
+  const count = view.getUint16(ifd, little);
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const fieldOffset = ifd + 2 + i * 12 + 8;
+    if (fieldOffset + 4 > tiff.length) break;
+    const tag = view.getUint16(fieldOffset - 8, little);
+    const type = view.getUint16(fieldOffset - 6, little);
+    const n = view.getUint32(fieldOffset - 4, little);
+    const size = (TYPE_SIZES[type] || 1) * n;
+    const valueOffset = size <= 4 ? fieldOffset : view.getUint32(fieldOffset, little);
+    entries.push({ tag, type, count: n, valueOffset, fieldOffset });
+  }
+  return { view, little, entries };
+};
+
+const readAscii = (tiff: Uint8Array, entry: IfdEntry): string | undefined => {
+  if (entry.type !== TYPE_ASCII || entry.valueOffset + entry.count > tiff.length) return undefined;
+  const raw = tiff.subarray(entry.valueOffset, entry.valueOffset + entry.count);
+  const end = raw.indexOf(0);
+  const text = new TextDecoder().decode(end >= 0 ? raw.subarray(0, end) : raw).trim();
+  return text || undefined;
+};
+
+/** EXIF orientation (1-8) from a TIFF block; 1 when absent or invalid. */
+export const readExifOrientation = (tiff: Uint8Array): number => {
+  const ifd = readIfd0(tiff);
+  const entry = ifd?.entries.find(e => e.tag === TAG_ORIENTATION && e.type === TYPE_SHORT);
+  if (!ifd || !entry) return 1;
+  const value = ifd.view.getUint16(entry.valueOffset, ifd.little);
+  return value >= 1 && value <= 8 ? value : 1;
+};
+
+/**
+ * Copy of the TIFF block with the orientation tag reset to 1, for outputs
+ * whose pixels have already been rotated upright.
+ */
+export const resetExifOrientation = (tiff: Uint8Array): Uint8Array => {
+  const copy = tiff.slice();
+  const ifd = readIfd0(copy);
+  const entry = ifd?.entries.find(e => e.tag === TAG_ORIENTATION && e.type === TYPE_SHORT);
+  if (ifd && entry) ifd.view.setUint16(entry.valueOffset, 1, ifd.little);
+  return copy;
+};
+
+export const readExifCredits = (tiff: Uint8Array): { artist?: string; copyright?: string } => {
+  const ifd = readIfd0(tiff);
+  if (!ifd) return {};
+  const find = (tag: number) => ifd.entries.find(e => e.tag === tag);
+  const artist = find(TAG_ARTIST);
+  const copyright = find(TAG_COPYRIGHT);
+  return {
+    artist: artist && readAscii(tiff, artist),
+    copyright: copyright && readAscii(tiff, copyright),
+  };
+};
+
+interface ExifField {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;
+}
+
+/** Serializes fields (sorted by tag) into a little-endian TIFF block with a single IFD. */
+const buildExif = (fields: ExifField[]): Uint8Array => {
+  const out = createByteWriter();
+  out.ascii('II');
+  out.u16le(42);
+  out.u32le(8);
+  out.u16le(fields.length);
+  // Out-of-line values start right after the IFD and its next-IFD pointer.
+  let dataOffset = 8 + 2 + fields.length * 12 + 4;
+  const payload: number[] = [];
+  for (const { tag, type, count, value } of fields) {
+    out.u16le(tag);
+    out.u16le(type);
+    out.u32le(count);
+    if (value.length <= 4) {
+      const inline = new Uint8Array(4);
+      inline.set(value);
+      out.bytes(inline);
+    } else {
+      out.u32le(dataOffset);
+      payload.push(...value);
+      dataOffset += value.length;
+    }
+  }
+  out.u32le(0);
+  out.bytes(payload);
+  return out.toUint8Array();
+};
+
+/** TIFF block holding only the Artist and Copyright tags, or null when both are empty. */
+export const buildCreditsExif = (credits: { artist?: string; copyright?: string }): Uint8Array | null => {
+  const fields = [
+    { tag: TAG_ARTIST, text: credits.artist },
+    { tag: TAG_COPYRIGHT, text: credits.copyright },
+  ]
+    .filter((f): f is { tag: number; text: string } => !!f.text)
+    .map(({ tag, text }) => {
+      const value = new Uint8Array([...new TextEncoder().encode(text), 0]);
+      return { tag, type: TYPE_ASCII, count: value.length, value };
+    });
+  return fields.length > 0 ? buildExif(fields) : null;
+};
+
+export const buildOrientationExif = (orientation: number): Uint8Array =>
+  buildExif([{ tag: TAG_ORIENTATION, type: TYPE_SHORT, count: 1, value: new Uint8Array([orientation, 0]) }]);
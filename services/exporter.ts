@@ -0,0 +1,195 @@
+import { ImageFile, NameConflictPolicy, NamingOptions, ResponsiveOptions } from '../types.ts';
+import { sourceFolder } from './fileIntake.ts';
+import { createPathAllocator, hashBlob, renderNameTemplate, templateUses, withCounter } from './naming.ts';
+import { ResponsiveSet, buildPictureHtml, buildResponsiveManifest } from './responsive.ts';
+
+export interface ExportEntry {
+  /** Relative output path; `/` separates subfolders. */
+  path: string;
+  blob: Blob;
+}
+
+const extensionFor = (blob: Blob): string => {
+  let ext = blob.type.split('/')[1].split('+')[0];
+  if (ext === 'jpeg') ext = 'jpg';
+  return ext;
+};
+
+/** Everything the naming template needs besides the image itself. */
+export interface ExportContext {
+  naming: NamingOptions;
+  /** 1-based position of the image in the queue. */
+  index: number;
+  total: number;
+  date: Date;
+}
+
+const inputBaseName = (img: ImageFile) => img.file.name.split('.').slice(0, -1).join('.') || img.file.name;
+
+const exportBaseName = async (img: ImageFile, blob: Blob, context: ExportContext): Promise<string> => {
+  const { template } = context.naming;
+  return renderNameTemplate(template, {
+    name: inputBaseName(img),
+    index: context.index,
+    total: context.total,
+    width: img.resultWidth,
+    height: img.resultHeight,
+    format: extensionFor(blob),
+    quality: img.resultQuality,
+    date: context.date,
+    hash: templateUses(template, 'hash') ? await hashBlob(blob) : undefined,
+  });
+};
+
+/** The main result as a single file, named the way exports name it. */
+export const exportResultFile = async (img: ImageFile, context: ExportContext): Promise<ExportEntry> => {
+  const response = await fetch(img.resultUrl!);
+  const blob = await response.blob();
+  const baseName = await exportBaseName(img, blob, context);
+  return { path: `${baseName}.${extensionFor(blob)}`, blob };
+};
+
+/**
+ * Lists the files a completed image contributes to an export, below the same
+ * subfolders (and archive folder) the input came from unless the layout is
+ * flat. Multi-file results such as icon sets go into a folder named by the
+ * template, keeping their own file names. Responsive variants sit side by
+ * side with a `-<width>w` suffix, in the order of `resultVariants`.
+ * Animations that were converted to a still format expand into a numbered
+ * frame folder. `allocate` turns the proposed file (or folder) path into a
+ * unique one.
+ */
+export const collectExportEntries = async (
+  img: ImageFile,
+  context: ExportContext,
+  allocate: (path: string) => string = path => path
+): Promise<ExportEntry[]> => {
+  const parent = context.naming.layout === 'mirror' ? sourceFolder(img.relativePath, img.archive) : '';
+  const prefix = parent ? `${parent}/` : '';
+
+  if (img.resultFiles && img.resultFiles.length > 0) {
+    const main = await (await fetch(img.resultUrl!)).blob();
+    const folder = allocate(prefix + await exportBaseName(img, main, context));
+    return img.resultFiles.map(({ path, blob }) => ({ path: `${folder}/${path}`, blob }));
+  }
+
+  if (img.resultVariants && img.resultVariants.length > 0) {
+    const baseName = await exportBaseName(img, img.resultVariants[0].blob, context);
+    return img.resultVariants.map(({ width, blob }) => ({
+      path: allocate(`${prefix}${baseName}-${width}w.${extensionFor(blob)}`),
+      blob,
+    }));
+  }
+
+  if (img.resultFrames && img.resultFrames.length > 0) {
+    const frames = img.resultFrames;
+    const baseName = await exportBaseName(img, frames[0], context);
+    const folder = allocate(`${prefix}${baseName}_frames`);
+    const digits = String(frames.length).length;
+    return frames.map((blob, i) => ({
+      path: `${folder}/${baseName}_${String(i + 1).padStart(Math.max(3, digits), '0')}.${extensionFor(blob)}`,
+      blob,
+    }));
+  }
+
+  const entry = await exportResultFile(img, context);
+  return [{ ...entry, path: allocate(prefix + entry.path) }];
+};
+
+/** Pairs a responsive image's exported entries (as listed by `collectExportEntries`) with its variants. */
+export const describeResponsiveSet = (img: ImageFile, entries: ExportEntry[]): ResponsiveSet => ({
+  name: inputBaseName(img),
+  variants: (img.resultVariants ?? []).map((variant, i) => ({
+    path: entries[i].path,
+    width: variant.width,
+    height: variant.height,
+    format: variant.format,
+    bytes: variant.blob.size,
+  })),
+});
+
+/** `srcset.html` with one `<picture>` per set and the `srcset.json` manifest, at the export root. */
+export const responsiveIndexEntries = (
+  sets: ResponsiveSet[],
+  sizes: string,
+  allocate: (path: string) => string = path => path
+): ExportEntry[] => [
+  {
+    path: allocate('srcset.html'),
+    blob: new Blob([sets.map(set => buildPictureHtml(set, sizes)).join('\n\n') + '\n'], { type: 'text/html' }),
+  },
+  {
+    path: allocate('srcset.json'),
+    blob: new Blob([buildResponsiveManifest(sets, sizes)], { type: 'application/json' }),
+  },
+];
+
+/**
+ * Entries for every completed image in the queue. Names that collide within
+ * the export get a counter suffix, in queue order. Responsive sets add the
+ * markup and manifest files, with paths relative to the export root. Files
+ * added to the same export afterwards, such as the batch report, take their
+ * paths from the same `allocate`.
+ */
+export const planExport = async (
+  images: ImageFile[],
+  naming: NamingOptions,
+  responsive: ResponsiveOptions,
+  allocate: (path: string) => string = createPathAllocator()
+): Promise<ExportEntry[]> => {
+  const date = new Date();
+  const entries: ExportEntry[] = [];
+  const sets: ResponsiveSet[] = [];
+  for (const [i, img] of images.entries()) {
+    if (img.status !== 'completed' || !img.resultUrl) continue;
+    const context = { naming, index: i + 1, total: images.length, date };
+    const imageEntries = await collectExportEntries(img, context, allocate);
+    entries.push(...imageEntries);
+    if (img.resultVariants) sets.push(describeResponsiveSet(img, imageEntries));
+  }
+  if (sets.length > 0) {
+    entries.push(...responsiveIndexEntries(sets, responsive.sizes, allocate));
+  }
+  return entries;
+};
+
+const fileExists = async (dir: FileSystemDirectoryHandle, name: string): Promise<boolean> => {
+  try {
+    await dir.getFileHandle(name);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Writes a blob below a File System Access directory, creating intermediate
+ * folders from the entry path. An existing file is replaced, kept (returns
+ * null) or left alone while the blob gets the next free counter name,
+ * depending on `conflict`. Returns the path actually written.
+ */
+export const writeToDirectory = async (
+  directoryHandle: FileSystemDirectoryHandle,
+  path: string,
+  blob: Blob,
+  conflict: NameConflictPolicy = 'overwrite'
+): Promise<string | null> => {
+  const segments = path.split('/');
+  let fileName = segments.pop()!;
+  let dir = directoryHandle;
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment, { create: true });
+  }
+  if (conflict !== 'overwrite' && await fileExists(dir, fileName)) {
+    if (conflict === 'skip') return null;
+    const original = fileName;
+    for (let counter = 2; await fileExists(dir, fileName); counter++) {
+      fileName = withCounter(original, counter);
+    }
+  }
+  const fileHandle = await dir.getFileHandle(fileName, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  return [...segments, fileName].join('/');
+};
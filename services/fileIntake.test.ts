@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { expandArchives, sourceFolder } from './fileIntake.ts';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const zipOf = async (files: Record<string, Uint8Array>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, data]) => zip.file(path, data));
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+describe('expandArchives', () => {
+  it('opens archives nested one level deep below a folder named after them', async () => {
+    const deepest = await zipOf({ 'c.png': PNG });
+    const nested = await zipOf({ 'b.png': PNG, 'deeper.zip': deepest });
+    const outer = await zipOf({ 'a.png': PNG, 'packs/more.zip': nested, 'notes.txt': new Uint8Array([1]) });
+    const { files, failed } = await expandArchives([
+      { file: new File([outer], 'photos.zip', { type: 'application/zip' }), relativePath: 'shoot/photos.zip' },
+    ]);
+
+    expect(files.map(({ relativePath, archive }) => sourceFolder(relativePath, archive) + '/' + relativePath.split('/').pop()))
+      .toEqual(['shoot/photos/a.png', 'shoot/photos/packs/more/b.png']);
+    expect(failed).toEqual(['shoot/photos/packs/more/deeper.zip']);
+  });
+
+  it('reports a nested archive that cannot be read', async () => {
+    const outer = await zipOf({ 'broken.zip': new Uint8Array([1, 2, 3]), 'a.png': PNG });
+    const { files, failed } = await expandArchives([
+      { file: new File([outer], 'set.zip', { type: 'application/zip' }), relativePath: 'set.zip' },
+    ]);
+    expect(files.map(file => file.relativePath)).toEqual(['a.png']);
+    expect(failed).toEqual(['set/broken.zip']);
+  });
+});
@@ -0,0 +1,212 @@
+import JSZip from 'jszip';
+import { SNIFF_LENGTH, sniffImageType } from './rasterDecoders.ts';
+
+/** An input file plus where it sat below the dropped or picked folder. */
+export interface IntakeFile {
+  file: File;
+  /** `/`-separated path including the file name, e.g. `assets/icons/logo.png`. */
+  relativePath: string;
+  /** Relative path of the ZIP archive the file was extracted from; `relativePath` is then inside it. */
+  archive?: string;
+}
+
+/** Archive entries carry no MIME type, so it is inferred from the extension. */
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  dib: 'image/bmp',
+  ico: 'image/x-icon',
+  cur: 'image/x-icon',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  psd: 'image/vnd.adobe.photoshop',
+  psb: 'image/vnd.adobe.photoshop',
+};
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+/** Browsers often leave TIFF and PSD files untyped, so known extensions count too. */
+const isImageFile = (file: File) => file.type.startsWith('image/') || !!MIME_BY_EXTENSION[extensionOf(file.name)];
+
+export const isArchiveFile = (file: File) =>
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || extensionOf(file.name) === 'zip';
+
+const isIntakeFile = (file: File) => isImageFile(file) || isArchiveFile(file);
+
+/** Dotfiles such as `.DS_Store` are never assets. */
+const isHidden = (name: string) => name.startsWith('.');
+
+const byPath = (a: IntakeFile, b: IntakeFile) =>
+  a.relativePath.localeCompare(b.relativePath, undefined, { numeric: true });
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+/** `readEntries` returns children in batches; an empty batch means done. */
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, out: IntakeFile[]): Promise<void> => {
+  if (isHidden(entry.name)) return;
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry);
+    // fullPath starts with "/" at the drop root.
+    if (isIntakeFile(file)) out.push({ file, relativePath: entry.fullPath.replace(/^\/+/, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, out);
+    }
+  }
+};
+
+/**
+ * Image and archive files from a drop, descending into dropped folders. Falls
+ * back to the flat file list where entries are unavailable.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<IntakeFile[]> => {
+  // Entries must be taken synchronously; the item list is cleared once the
+  // drop handler yields.
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return filesFromInput(dataTransfer.files);
+  }
+
+  const out: IntakeFile[] = [];
+  for (const entry of entries) await walkEntry(entry, out);
+  return out.sort(byPath);
+};
+
+/** Image and archive files from a file input; directory inputs report `webkitRelativePath`. */
+export const filesFromInput = (files: FileList): IntakeFile[] =>
+  Array.from(files)
+    .filter(file => isIntakeFile(file) && !file.webkitRelativePath.split('/').some(isHidden))
+    .map(file => ({ file, relativePath: file.webkitRelativePath || file.name }))
+    .sort(byPath);
+
+/** Folder part of a relative path, without a trailing slash; empty for loose files. */
+export const folderOf = (relativePath?: string): string => {
+  if (!relativePath) return '';
+  const slash = relativePath.lastIndexOf('/');
+  return slash === -1 ? '' : relativePath.slice(0, slash);
+};
+
+/** Archives inside an archive are opened one level deep, and only up to this size once inflated. */
+const MAX_NESTED_ARCHIVE_DEPTH = 1;
+const MAX_NESTED_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+const isArchiveName = (name: string) => extensionOf(name) === 'zip';
+
+/**
+ * Every image inside an archive, at any folder depth. macOS resource forks and
+ * dotfiles are skipped. Nested archives are expanded as if their folder sat
+ * next to them; those too deep, too large or unreadable are added to `failed`.
+ */
+const extractArchive = async (archive: IntakeFile, failed: string[], nesting = 0): Promise<IntakeFile[]> => {
+  const zip = await JSZip.loadAsync(await archive.file.arrayBuffer());
+  const entries: JSZip.JSZipObject[] = [];
+  zip.forEach((path, entry) => {
+    const segments = path.split('/');
+    if (entry.dir || segments[0] === '__MACOSX' || segments.some(isHidden)) return;
+    if (MIME_BY_EXTENSION[extensionOf(path)] || isArchiveName(path)) entries.push(entry);
+  });
+
+  const files: IntakeFile[] = [];
+  for (const entry of entries) {
+    const name = entry.name.slice(entry.name.lastIndexOf('/') + 1);
+    if (isArchiveName(name)) {
+      // Images of `photos.zip/more.zip` end up below `photos/more/`, like a mirrored folder.
+      const path = `${archive.relativePath.replace(/\.zip$/i, '')}/${entry.name}`;
+      if (nesting >= MAX_NESTED_ARCHIVE_DEPTH) {
+        failed.push(path);
+        continue;
+      }
+      try {
+        const blob = await entry.async('blob');
+        if (blob.size > MAX_NESTED_ARCHIVE_BYTES) throw new Error('Nested archive too large');
+        const nested = { file: new File([blob], name, { type: 'application/zip' }), relativePath: path };
+        files.push(...await extractArchive(nested, failed, nesting + 1));
+      } catch {
+        failed.push(path);
+      }
+      continue;
+    }
+    const blob = await entry.async('blob');
+    const file = new File([blob], name, {
+      type: MIME_BY_EXTENSION[extensionOf(name)],
+      lastModified: entry.date.getTime(),
+    });
+    files.push({ file, relativePath: entry.name, archive: archive.relativePath });
+  }
+  return files.sort(byPath);
+};
+
+/**
+ * Replaces ZIP archives in an intake list with the images they contain.
+ * Archives that cannot be read, including nested ones that are skipped, are
+ * reported by path instead of failing the whole intake.
+ */
+export const expandArchives = async (files: IntakeFile[]): Promise<{ files: IntakeFile[]; failed: string[] }> => {
+  const out: IntakeFile[] = [];
+  const failed: string[] = [];
+  for (const item of files) {
+    if (!isArchiveFile(item.file)) {
+      out.push(item);
+      continue;
+    }
+    try {
+      out.push(...await extractArchive(item, failed));
+    } catch {
+      failed.push(item.relativePath);
+    }
+  }
+  return { files: out, failed };
+};
+
+/**
+ * Types every image by its leading bytes, since names and browser-reported
+ * types are unreliable: a renamed PNG or an untyped TIFF still lands with the
+ * right decoder. Files no signature matches keep their reported or extension
+ * type, and are dropped when neither says image.
+ */
+export const identifyFiles = async (files: IntakeFile[]): Promise<IntakeFile[]> => {
+  const out: IntakeFile[] = [];
+  for (const item of files) {
+    const { file } = item;
+    const head = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+    const type = sniffImageType(head) ?? (file.type || MIME_BY_EXTENSION[extensionOf(file.name)] || '');
+    if (!type.startsWith('image/')) continue;
+    out.push(type === file.type
+      ? item
+      : { ...item, file: new File([file], file.name, { type, lastModified: file.lastModified }) });
+  }
+  return out;
+};
+
+/**
+ * Folder an image's export goes to when mirroring the input layout. Images
+ * from an archive go below a folder named after it, next to where the archive
+ * itself was.
+ */
+export const sourceFolder = (relativePath?: string, archive?: string): string => {
+  const inner = folderOf(relativePath);
+  if (!archive) return inner;
+  const archiveName = archive.slice(archive.lastIndexOf('/') + 1).replace(/\.zip$/i, '');
+  return [folderOf(archive), archiveName, inner].filter(Boolean).join('/');
+};
@@ -0,0 +1,232 @@
+import { FilterKind, FilterStep } from '../types.ts';
+import { AnyContext2D } from './canvas.ts';
+
+interface Range {
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+/** Parameter ranges per kind; a missing range means the kind ignores that parameter. */
+export const FILTER_SPECS: Record<FilterKind, { amount?: Range; radius?: Range }> = {
+  grayscale: { amount: { min: 0, max: 1, step: 0.05, default: 1 } },
+  brightness: { amount: { min: -1, max: 1, step: 0.01, default: 0.1 } },
+  contrast: { amount: { min: -1, max: 1, step: 0.01, default: 0.1 } },
+  saturation: { amount: { min: -1, max: 1, step: 0.01, default: 0.2 } },
+  sharpen: {
+    amount: { min: 0, max: 3, step: 0.05, default: 0.8 },
+    radius: { min: 0.5, max: 10, step: 0.5, default: 1.5 },
+  },
+  blur: { radius: { min: 0.5, max: 20, step: 0.5, default: 2 } },
+  /** Amount is the fraction of pixels clipped at each end of the histogram. */
+  autoLevels: { amount: { min: 0, max: 0.05, step: 0.001, default: 0.005 } },
+};
+
+export const FILTER_KINDS = Object.keys(FILTER_SPECS) as FilterKind[];
+
+/** Longest chain a preset may carry. */
+export const MAX_FILTER_STEPS = 16;
+
+export const createFilterStep = (kind: FilterKind): FilterStep => ({
+  id: Math.random().toString(36).substr(2, 9),
+  kind,
+  enabled: true,
+  amount: FILTER_SPECS[kind].amount?.default ?? 0,
+  radius: FILTER_SPECS[kind].radius?.default ?? 0,
+});
+
+/** The steps a conversion should run, or undefined when there are none. */
+export const activeFilters = (steps: FilterStep[]): FilterStep[] | undefined => {
+  const active = steps.filter(step => step.enabled);
+  return active.length > 0 ? active : undefined;
+};
+
+/** Radii are in output pixels; a downscaled preview needs them scaled along. */
+export const scaleFilters = (steps: FilterStep[], factor: number): FilterStep[] =>
+  steps.map(step => ({ ...step, radius: step.radius * factor }));
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Rec. 709 luma of 8-bit RGB. */
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const mapRgb = (data: Uint8ClampedArray, fn: (r: number, g: number, b: number, out: number[]) => void) => {
+  const out = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    fn(data[i], data[i + 1], data[i + 2], out);
+    data[i] = out[0];
+    data[i + 1] = out[1];
+    data[i + 2] = out[2];
+  }
+};
+
+/**
+ * Box widths whose three successive passes approximate a Gaussian of
+ * standard deviation `sigma` (Kovesi's method).
+ */
+const boxRadii = (sigma: number): number[] => {
+  const n = 3;
+  let lower = Math.floor(Math.sqrt((12 * sigma * sigma) / n + 1));
+  if (lower % 2 === 0) lower--;
+  const upper = lower + 2;
+  const m = Math.round((12 * sigma * sigma - n * lower * lower - 4 * n * lower - 3 * n) / (-4 * lower - 4));
+  return Array.from({ length: n }, (_, i) => ((i < m ? lower : upper) - 1) / 2);
+};
+
+/** One running-sum box pass along rows (`stride` 4) or columns (`stride` 4 × width), edges clamped. */
+const boxPass = (
+  src: Float32Array, dst: Float32Array, lines: number, length: number,
+  lineStride: number, stride: number, radius: number
+) => {
+  const size = radius * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStride;
+    for (let c = 0; c < 4; c++) {
+      const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * stride + c];
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += at(i);
+      for (let i = 0; i < length; i++) {
+        dst[start + i * stride + c] = sum / size;
+        sum += at(i + radius + 1) - at(i - radius);
+      }
+    }
+  }
+};
+
+/**
+ * Gaussian-blurred copy with premultiplied alpha, so transparent pixels do
+ * not bleed dark fringes into their neighbours.
+ */
+const blurPremultiplied = ({ data, width, height }: Pixels, sigma: number): Float32Array => {
+  const buffer = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    buffer[i] = data[i] * alpha;
+    buffer[i + 1] = data[i + 1] * alpha;
+    buffer[i + 2] = data[i + 2] * alpha;
+    buffer[i + 3] = data[i + 3];
+  }
+  const scratch = new Float32Array(data.length);
+  for (const radius of boxRadii(sigma)) {
+    if (radius < 1) continue;
+    boxPass(buffer, scratch, height, width, width * 4, 4, radius);
+    boxPass(scratch, buffer, width, height, 4, width * 4, radius);
+  }
+  return buffer;
+};
+
+const blur = (pixels: Pixels, sigma: number) => {
+  const { data } = pixels;
+  const blurred = blurPremultiplied(pixels, sigma);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = blurred[i + 3];
+    const scale = alpha > 0 ? 255 / alpha : 0;
+    data[i] = blurred[i] * scale;
+    data[i + 1] = blurred[i + 1] * scale;
+    data[i + 2] = blurred[i + 2] * scale;
+    data[i + 3] = alpha;
+  }
+};
+
+/** Unsharp mask: adds `amount` times the difference from a blurred copy; alpha is kept. */
+const sharpen = (pixels: Pixels, amount: number, sigma: number) => {
+  const { data } = pixels;
+  const blurred = blurPremultiplied(pixels, sigma);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = blurred[i + 3];
+    if (alpha === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      const soft = (blurred[i + c] * 255) / alpha;
+      data[i + c] = data[i + c] + amount * (data[i + c] - soft);
+    }
+  }
+};
+
+/**
+ * Stretches the luma range so that `clip` of the opaque pixels saturate at
+ * each end. One mapping is shared by all channels, so colours keep their cast.
+ */
+const autoLevels = ({ data }: Pixels, clip: number) => {
+  const histogram = new Uint32Array(256);
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram[Math.round(luma(data[i], data[i + 1], data[i + 2]))]++;
+    count++;
+  }
+  const limit = count * clip;
+  let low = 0;
+  let below = histogram[0];
+  while (low < 255 && below <= limit) below += histogram[++low];
+  let high = 255;
+  let above = histogram[255];
+  while (high > 0 && above <= limit) above += histogram[--high];
+  if (high - low < 1) return;
+  const scale = 255 / (high - low);
+  mapRgb(data, (r, g, b, out) => {
+    out[0] = (r - low) * scale;
+    out[1] = (g - low) * scale;
+    out[2] = (b - low) * scale;
+  });
+};
+
+const applyStep = (pixels: Pixels, { kind, amount, radius }: FilterStep) => {
+  switch (kind) {
+    case 'grayscale':
+      return mapRgb(pixels.data, (r, g, b, out) => {
+        const y = luma(r, g, b);
+        out[0] = r + (y - r) * amount;
+        out[1] = g + (y - g) * amount;
+        out[2] = b + (y - b) * amount;
+      });
+    case 'brightness': {
+      const offset = amount * 255;
+      return mapRgb(pixels.data, (r, g, b, out) => {
+        out[0] = r + offset;
+        out[1] = g + offset;
+        out[2] = b + offset;
+      });
+    }
+    case 'contrast': {
+      // Up to four times steeper at +1, flat grey at -1.
+      const factor = amount >= 0 ? 1 + amount * 3 : 1 + amount;
+      return mapRgb(pixels.data, (r, g, b, out) => {
+        out[0] = (r - 128) * factor + 128;
+        out[1] = (g - 128) * factor + 128;
+        out[2] = (b - 128) * factor + 128;
+      });
+    }
+    case 'saturation':
+      return mapRgb(pixels.data, (r, g, b, out) => {
+        const y = luma(r, g, b);
+        out[0] = y + (r - y) * (1 + amount);
+        out[1] = y + (g - y) * (1 + amount);
+        out[2] = y + (b - y) * (1 + amount);
+      });
+    case 'sharpen':
+      return amount > 0 && radius > 0 ? sharpen(pixels, amount, radius) : undefined;
+    case 'blur':
+      return radius > 0 ? blur(pixels, radius) : undefined;
+    case 'autoLevels':
+      return autoLevels(pixels, amount);
+  }
+};
+
+/** Runs `steps` in order on straight-alpha RGBA pixels, in place. */
+export const applyFilters = (pixels: Pixels, steps: FilterStep[]) => {
+  steps.forEach(step => applyStep(pixels, step));
+};
+
+/** Filters one rectangle of what is drawn on `ctx`, leaving the rest (such as padding) alone. */
+export const filterContext = (
+  ctx: AnyContext2D, x: number, y: number, width: number, height: number, steps: FilterStep[]
+) => {
+  const image = ctx.getImageData(x, y, width, height);
+  applyFilters(image, steps);
+  ctx.putImageData(image, x, y);
+};
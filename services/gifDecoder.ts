@@ -0,0 +1,241 @@
+export interface GifFrameInfo {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  palette: Uint8Array;
+  transparentIndex: number;
+  disposal: number;
+  /** Display time in milliseconds, normalized the way browsers play it. */
+  delay: number;
+  minCodeSize: number;
+  data: Uint8Array;
+}
+
+export interface ParsedGif {
+  width: number;
+  height: number;
+  frames: GifFrameInfo[];
+}
+
+/** Browsers play 0-10 ms GIF delays at 100 ms; mirror that for timings. */
+const normalizeDelay = (centiseconds: number): number =>
+  centiseconds <= 1 ? 100 : centiseconds * 10;
+
+const readSubBlocks = (bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } => {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let pos = offset;
+  while (pos < bytes.length) {
+    const size = bytes[pos++];
+    if (size === 0) break;
+    chunks.push(bytes.subarray(pos, pos + size));
+    total += size;
+    pos += size;
+  }
+  const data = new Uint8Array(total);
+  let cursor = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, cursor);
+    cursor += chunk.length;
+  }
+  return { data, end: pos };
+};
+
+export const isGif = (bytes: Uint8Array): boolean =>
+  bytes.length >= 6 && String.fromCharCode(...bytes.subarray(0, 6)).startsWith('GIF8');
+
+/**
+ * Splits a GIF into its frames without decompressing pixel data, so it is
+ * cheap enough to run when files are added to the queue.
+ */
+export const parseGif = (bytes: Uint8Array): ParsedGif => {
+  if (!isGif(bytes)) throw new Error('Not a GIF file');
+  const width = bytes[6] | (bytes[7] << 8);
+  const height = bytes[8] | (bytes[9] << 8);
+  const packed = bytes[10];
+  let pos = 13;
+  let globalPalette = new Uint8Array(0);
+  if (packed & 0x80) {
+    const size = 3 * (1 << ((packed & 0x07) + 1));
+    globalPalette = bytes.subarray(pos, pos + size);
+    pos += size;
+  }
+
+  const frames: GifFrameInfo[] = [];
+  let transparentIndex = -1;
+  let disposal = 0;
+  let delay = 0;
+
+  while (pos < bytes.length) {
+    const block = bytes[pos++];
+    if (block === 0x3b) break;
+
+    if (block === 0x21) {
+      const label = bytes[pos++];
+      if (label === 0xf9 && bytes[pos] === 4) {
+        const flags = bytes[pos + 1];
+        disposal = (flags >> 2) & 0x07;
+        delay = bytes[pos + 2] | (bytes[pos + 3] << 8);
+        transparentIndex = flags & 0x01 ? bytes[pos + 4] : -1;
+      }
+      pos = readSubBlocks(bytes, pos).end;
+      continue;
+    }
+
+    if (block === 0x2c) {
+      const left = bytes[pos] | (bytes[pos + 1] << 8);
+      const top = bytes[pos + 2] | (bytes[pos + 3] << 8);
+      const frameWidth = bytes[pos + 4] | (bytes[pos + 5] << 8);
+      const frameHeight = bytes[pos + 6] | (bytes[pos + 7] << 8);
+      const flags = bytes[pos + 8];
+      pos += 9;
+      let palette = globalPalette;
+      if (flags & 0x80) {
+        const size = 3 * (1 << ((flags & 0x07) + 1));
+        palette = bytes.subarray(pos, pos + size);
+        pos += size;
+      }
+      const minCodeSize = bytes[pos++];
+      const { data, end } = readSubBlocks(bytes, pos);
+      pos = end;
+      frames.push({
+        left, top, width: frameWidth, height: frameHeight,
+        interlaced: (flags & 0x40) !== 0,
+        palette, transparentIndex, disposal,
+        delay: normalizeDelay(delay),
+        minCodeSize, data,
+      });
+      transparentIndex = -1;
+      disposal = 0;
+      delay = 0;
+      continue;
+    }
+
+    // Unknown block: the stream is corrupt past this point.
+    break;
+  }
+
+  return { width, height, frames };
+};
+
+const lzwDecode = (minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array => {
+  const out = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let prev = -1;
+  let first = 0;
+  let op = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let ip = 0;
+
+  while (op < pixelCount) {
+    while (bitCount < codeSize && ip < data.length) {
+      bitBuffer |= data[ip++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) break;
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === endCode) break;
+
+    if (prev < 0) {
+      out[op++] = suffix[code];
+      prev = code;
+      first = suffix[code];
+      continue;
+    }
+
+    let sp = 0;
+    let current = code;
+    if (code >= nextCode) {
+      stack[sp++] = first;
+      current = prev;
+    }
+    while (current >= clearCode) {
+      stack[sp++] = suffix[current];
+      current = prefix[current];
+    }
+    stack[sp++] = current;
+    first = current;
+    while (sp > 0 && op < pixelCount) out[op++] = stack[--sp];
+
+    if (nextCode < 4096) {
+      prefix[nextCode] = prev;
+      suffix[nextCode] = first;
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    prev = code;
+  }
+  return out;
+};
+
+const interlacedRow = (row: number, height: number): number => {
+  const passes: [number, number][] = [[0, 8], [4, 8], [2, 4], [1, 2]];
+  let remaining = row;
+  for (const [start, step] of passes) {
+    const rows = Math.ceil(Math.max(0, height - start) / step);
+    if (remaining < rows) return start + remaining * step;
+    remaining -= rows;
+  }
+  return row;
+};
+
+/**
+ * Decodes and composites GIF frames one at a time, honouring disposal
+ * methods, and yields full-canvas RGBA snapshots.
+ */
+export function* decodeGifFrames(gif: ParsedGif): Generator<{ data: Uint8ClampedArray; delay: number }> {
+  const { width, height } = gif;
+  const canvas = new Uint8ClampedArray(width * height * 4);
+
+  for (const frame of gif.frames) {
+    const saved = frame.disposal === 3 ? canvas.slice() : null;
+    const indices = lzwDecode(frame.minCodeSize, frame.data, frame.width * frame.height);
+
+    for (let row = 0; row < frame.height; row++) {
+      const y = frame.top + (frame.interlaced ? interlacedRow(row, frame.height) : row);
+      if (y >= height) continue;
+      for (let col = 0; col < frame.width; col++) {
+        const x = frame.left + col;
+        if (x >= width) continue;
+        const index = indices[row * frame.width + col];
+        if (index === frame.transparentIndex || index * 3 + 2 >= frame.palette.length) continue;
+        const o = (y * width + x) * 4;
+        canvas[o] = frame.palette[index * 3];
+        canvas[o + 1] = frame.palette[index * 3 + 1];
+        canvas[o + 2] = frame.palette[index * 3 + 2];
+        canvas[o + 3] = 255;
+      }
+    }
+
+    yield { data: canvas.slice(), delay: frame.delay };
+
+    if (frame.disposal === 2) {
+      for (let y = frame.top; y < Math.min(height, frame.top + frame.height); y++) {
+        const start = (y * width + frame.left) * 4;
+        canvas.fill(0, start, start + Math.min(frame.width, width - frame.left) * 4);
+      }
+    } else if (saved) {
+      canvas.set(saved);
+    }
+  }
+}
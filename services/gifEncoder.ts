@@ -0,0 +1,186 @@
+import { GifOptions } from '../types.ts';
+import { ByteWriter, createByteWriter } from './bytes.ts';
+import { ALPHA_THRESHOLD, Color, buildPalette, ditherToPalette, mapToPalette } from './quantize.ts';
+
+export interface GifFrame {
+  /** RGBA pixels, `width * height * 4` bytes. */
+  data: Uint8ClampedArray;
+  /** Display time in milliseconds. */
+  delay: number;
+}
+
+const MAX_CODE = 4095;
+
+/**
+ * GIF-flavoured variable-length LZW. Codes are packed LSB-first and flushed as
+ * data sub-blocks of at most 255 bytes.
+ */
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Dictionary keyed by (prefix code << 8 | next index); 0 marks an empty slot
+  // since every real code is above endCode.
+  const table = new Int16Array((MAX_CODE + 1) << 8);
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const block: number[] = [];
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.byte(block.length);
+    out.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table[key];
+    if (existing) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      table[key] = nextCode;
+      // Widen codes as soon as the new code no longer fits, which is the
+      // schedule decoders expect.
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+      nextCode++;
+    } else {
+      emit(clearCode);
+      table.fill(0);
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+    if (block.length === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0);
+};
+
+const quantizeFrame = (data: Uint8ClampedArray, width: number, options: GifOptions) => {
+  let hasTransparency = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < ALPHA_THRESHOLD) {
+      hasTransparency = true;
+      break;
+    }
+  }
+  const maxColors = Math.max(2, Math.min(256, Math.round(options.colors))) - (hasTransparency ? 1 : 0);
+  const palette: Color[] = buildPalette(data, maxColors);
+  if (palette.length === 0) palette.push([0, 0, 0]);
+  const transparentIndex = hasTransparency ? palette.length : -1;
+  const indices = options.dither
+    ? ditherToPalette(data, width, palette, transparentIndex)
+    : mapToPalette(data, palette, transparentIndex);
+  if (hasTransparency) palette.push([0, 0, 0]);
+  return { palette, indices, transparentIndex };
+};
+
+export interface GifEncoder {
+  addFrame: (data: Uint8ClampedArray, delay: number) => void;
+  finish: () => Uint8Array;
+}
+
+/**
+ * Streaming GIF89a encoder: frames are quantized and compressed as they are
+ * added, so long animations never hold every RGBA frame in memory. Every frame
+ * carries its own median-cut palette; pixels below the alpha threshold map to a
+ * reserved transparent index. `animated` adds a NETSCAPE2.0 loop extension.
+ */
+export const createGifEncoder = (
+  width: number,
+  height: number,
+  options: GifOptions,
+  animated: boolean
+): GifEncoder => {
+  const out = createByteWriter(width * height + 1024);
+  out.ascii('GIF89a');
+  out.u16le(width);
+  out.u16le(height);
+  // No global color table; background index 0; square pixels.
+  out.byte(0x00);
+  out.byte(0);
+  out.byte(0);
+
+  if (animated) {
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.u16le(0); // loop forever
+    out.byte(0);
+  }
+
+  const addFrame = (data: Uint8ClampedArray, delay: number) => {
+    const { palette, indices, transparentIndex } = quantizeFrame(data, width, options);
+    const bits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+    const tableSize = 1 << bits;
+
+    // Graphic control extension: restore-to-background disposal so transparent
+    // areas of one frame do not show stale pixels from the previous one.
+    out.bytes([0x21, 0xf9, 0x04]);
+    out.byte((2 << 2) | (transparentIndex >= 0 ? 1 : 0));
+    out.u16le(Math.round(delay / 10));
+    out.byte(transparentIndex >= 0 ? transparentIndex : 0);
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.u16le(0);
+    out.u16le(0);
+    out.u16le(width);
+    out.u16le(height);
+    out.byte(0x80 | (bits - 1)); // local color table present
+
+    for (let i = 0; i < tableSize; i++) {
+      const [r, g, b] = palette[i] || [0, 0, 0];
+      out.byte(r);
+      out.byte(g);
+      out.byte(b);
+    }
+
+    writeLzw(out, indices, Math.max(2, bits));
+  };
+
+  const finish = () => {
+    out.byte(0x3b);
+    return out.toUint8Array();
+  };
+
+  return { addFrame, finish };
+};
+
+/** Encodes already decoded RGBA frames in one call. */
+export const encodeGif = (
+  frames: GifFrame[],
+  width: number,
+  height: number,
+  options: GifOptions
+): Uint8Array => {
+  const encoder = createGifEncoder(width, height, options, frames.length > 1);
+  frames.forEach(frame => encoder.addFrame(frame.data, frame.delay));
+  return encoder.finish();
+};
@@ -0,0 +1,82 @@
+import { RasterPage } from '../types.ts';
+import type { RasterImage } from './rasterDecoders.ts';
+import { decodeDib } from './bmpDecoder.ts';
+import { decodePng } from './pngCodec.ts';
+
+const HEADER_SIZE = 6;
+const DIRECTORY_ENTRY_SIZE = 16;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+
+interface IcoEntry {
+  width: number;
+  height: number;
+  /** Bits per pixel as far as the directory tells; PNG and cursor entries often leave it 0. */
+  depth: number;
+  offset: number;
+  size: number;
+}
+
+/** Type 1 is an icon, type 2 a cursor; both share the directory layout. */
+export const isIco = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_SIZE + DIRECTORY_ENTRY_SIZE && bytes[0] === 0 && bytes[1] === 0
+  && (bytes[2] === 1 || bytes[2] === 2) && bytes[3] === 0 && (bytes[4] | bytes[5]) !== 0;
+
+const isPngEntry = (bytes: Uint8Array, offset: number) => PNG_SIGNATURE.every((b, i) => bytes[offset + i] === b);
+
+const readEntries = (bytes: Uint8Array): IcoEntry[] => {
+  if (!isIco(bytes)) throw new Error('Not an ICO or CUR file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const cursor = bytes[2] === 2;
+  const count = view.getUint16(4, true);
+  const entries: IcoEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = HEADER_SIZE + i * DIRECTORY_ENTRY_SIZE;
+    if (at + DIRECTORY_ENTRY_SIZE > bytes.length) break;
+    const offset = view.getUint32(at + 12, true);
+    const size = view.getUint32(at + 8, true);
+    if (offset + Math.min(size, 16) > bytes.length) continue;
+    // Cursors store the hotspot where icons store planes and bit count.
+    let depth = cursor ? 0 : view.getUint16(at + 6, true);
+    let width = bytes[at] || 256;
+    let height = bytes[at + 1] || 256;
+    if (isPngEntry(bytes, offset) && offset + 26 <= bytes.length) {
+      const png = new DataView(bytes.buffer, bytes.byteOffset + offset, 26);
+      width = png.getUint32(16);
+      height = png.getUint32(20);
+      depth = depth || [8, 0, 24, 8, 16, 0, 32][bytes[offset + 25]] || 32;
+    } else if (offset + 16 <= bytes.length) {
+      width = view.getInt32(offset + 4, true) || width;
+      depth = depth || view.getUint16(offset + 14, true);
+    }
+    entries.push({ width, height, depth, offset, size });
+  }
+  if (entries.length === 0) throw new Error('ICO has no images');
+  return entries;
+};
+
+export const parseIcoPages = (bytes: Uint8Array): RasterPage[] =>
+  readEntries(bytes).map(({ width, height, depth }) => ({ width, height, depth }));
+
+/** The entry worth converting by default: the largest, then the deepest. */
+export const defaultIcoPage = (pages: RasterPage[]): number =>
+  pages.reduce((best, page, i) => {
+    const current = pages[best];
+    const area = page.width * page.height - current.width * current.height;
+    return area > 0 || (area === 0 && (page.depth ?? 0) > (current.depth ?? 0)) ? i : best;
+  }, 0);
+
+/** Decodes one entry; PNG entries go through the PNG codec, the rest are icon DIBs. */
+export const decodeIco = async (bytes: Uint8Array, page = 0): Promise<RasterImage> => {
+  const entries = readEntries(bytes);
+  const entry = entries[Math.min(Math.max(0, page), entries.length - 1)];
+  if (!isPngEntry(bytes, entry.offset)) return decodeDib(bytes, entry.offset, true);
+
+  const png = await decodePng(bytes.subarray(entry.offset, entry.offset + entry.size));
+  const data = new Uint8ClampedArray(png.width * png.height * 4);
+  if (png.depth === 16) {
+    for (let i = 0; i < data.length; i++) data[i] = png.pixels[i] >> 8;
+  } else {
+    data.set(png.pixels);
+  }
+  return { width: png.width, height: png.height, data };
+};
@@ -0,0 +1,95 @@
+import { createByteWriter } from './bytes.ts';
+
+/** One image of an ICO file, at most 256x256. */
+export type IcoImage =
+  | { width: number; height: number; kind: 'png'; png: Uint8Array }
+  | { width: number; height: number; kind: 'bmp'; data: Uint8ClampedArray };
+
+const HEADER_SIZE = 6;
+const DIRECTORY_ENTRY_SIZE = 16;
+const BITMAP_INFO_HEADER_SIZE = 40;
+
+/**
+ * 32-bit DIB as stored inside ICO files: a BITMAPINFOHEADER whose height
+ * counts both the color rows and the 1-bit AND mask, then bottom-up BGRA rows,
+ * then the mask (set bits are transparent, rows padded to 32 bits). The alpha
+ * channel already carries transparency; the mask is for pre-XP renderers.
+ */
+const encodeDib = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const maskStride = Math.ceil(width / 32) * 4;
+  const colorSize = width * height * 4;
+  const maskSize = maskStride * height;
+  const out = createByteWriter(BITMAP_INFO_HEADER_SIZE + colorSize + maskSize);
+
+  out.u32le(BITMAP_INFO_HEADER_SIZE);
+  out.u32le(width);
+  out.u32le(height * 2);
+  out.u16le(1); // planes
+  out.u16le(32); // bits per pixel
+  out.u32le(0); // BI_RGB
+  out.u32le(colorSize + maskSize);
+  out.u32le(0); // horizontal resolution
+  out.u32le(0); // vertical resolution
+  out.u32le(0); // palette size
+  out.u32le(0); // important colors
+
+  const row = new Uint8Array(width * 4);
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      row[x * 4] = data[p + 2];
+      row[x * 4 + 1] = data[p + 1];
+      row[x * 4 + 2] = data[p];
+      row[x * 4 + 3] = data[p + 3];
+    }
+    out.bytes(row);
+  }
+
+  const maskRow = new Uint8Array(maskStride);
+  for (let y = height - 1; y >= 0; y--) {
+    maskRow.fill(0);
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) maskRow[x >> 3] |= 0x80 >> (x & 7);
+    }
+    out.bytes(maskRow);
+  }
+  return out.toUint8Array();
+};
+
+/**
+ * Packs images into a multi-resolution `.ico`. PNG entries are embedded as-is
+ * (Vista and later); BMP entries are converted to 32-bit DIBs, which every
+ * Windows version and browser reads. Entries are written smallest first.
+ */
+export const encodeIco = (images: IcoImage[]): Uint8Array => {
+  if (images.length === 0) throw new Error('ICO needs at least one image');
+  const sorted = [...images].sort((a, b) => a.width - b.width || a.height - b.height);
+  const payloads = sorted.map(image => {
+    if (image.width < 1 || image.height < 1 || image.width > 256 || image.height > 256) {
+      throw new Error(`ICO images must be 1-256px, got ${image.width}x${image.height}`);
+    }
+    return image.kind === 'png' ? image.png : encodeDib(image.data, image.width, image.height);
+  });
+
+  const out = createByteWriter(HEADER_SIZE + DIRECTORY_ENTRY_SIZE * sorted.length
+    + payloads.reduce((sum, payload) => sum + payload.length, 0));
+  out.u16le(0); // reserved
+  out.u16le(1); // type: icon
+  out.u16le(sorted.length);
+
+  let offset = HEADER_SIZE + DIRECTORY_ENTRY_SIZE * sorted.length;
+  sorted.forEach((image, i) => {
+    // A stored 0 means 256.
+    out.byte(image.width & 0xff);
+    out.byte(image.height & 0xff);
+    out.byte(0); // palette size
+    out.byte(0); // reserved
+    out.u16le(1); // color planes
+    out.u16le(32); // bits per pixel
+    out.u32le(payloads[i].length);
+    out.u32le(offset);
+    offset += payloads[i].length;
+  });
+  payloads.forEach(payload => out.bytes(payload));
+  return out.toUint8Array();
+};
@@ -0,0 +1,221 @@
+import { IconOptions, OutputFile, RenderOutput } from '../types.ts';
+import { canvasToBlob, createCanvas, getContext2D } from './canvas.ts';
+import { IcoImage, encodeIco } from './icoEncoder.ts';
+import { DEFAULT_PNG_OPTIONS, optimizePng } from './pngOptimizer.ts';
+
+export const ICO_SIZES = [16, 24, 32, 48, 64, 128, 256];
+
+export const PWA_SIZES = [48, 72, 96, 144, 192, 256, 384, 512];
+
+/** In `auto` encoding, ICO entries up to this edge are stored as BMP. */
+const AUTO_BMP_MAX = 48;
+
+const APPLE_TOUCH_SIZE = 180;
+
+/** ICO sizes that are also written as standalone PNG favicons. */
+const PNG_FAVICON_SIZES = [16, 32];
+
+export const DEFAULT_ICON_OPTIONS: IconOptions = {
+  icoSizes: [16, 32, 48],
+  icoEncoding: 'auto',
+  appleTouch: true,
+  pwaSizes: [192, 512],
+  maskable: true,
+  maskablePadding: 0.1,
+  background: '#FFFFFF',
+  themeColor: '#0F172A',
+  appName: 'My App',
+  shortName: 'App',
+  basePath: '/',
+};
+
+/** One PNG of the icon set. */
+export interface IconSpec {
+  path: string;
+  size: number;
+  /** Per-side inset of the artwork, as a fraction of the edge. */
+  padding: number;
+  /** Opaque fill behind the artwork, or null to keep transparency. */
+  background: string | null;
+  role: 'favicon' | 'apple' | 'pwa' | 'maskable';
+}
+
+const ascending = (sizes: number[]) => [...new Set(sizes)].sort((a, b) => a - b);
+
+/**
+ * The PNG files an icon set consists of. Apple icons are flattened because
+ * iOS fills transparency with black; maskable icons are flattened and inset
+ * so launchers can crop them to any shape without cutting into the artwork.
+ */
+export const planIconSet = (options: IconOptions): IconSpec[] => {
+  const specs: IconSpec[] = [];
+  for (const size of PNG_FAVICON_SIZES) {
+    if (options.icoSizes.includes(size)) {
+      specs.push({ path: `favicon-${size}x${size}.png`, size, padding: 0, background: null, role: 'favicon' });
+    }
+  }
+  if (options.appleTouch) {
+    specs.push({ path: 'apple-touch-icon.png', size: APPLE_TOUCH_SIZE, padding: 0, background: options.background, role: 'apple' });
+  }
+  const pwaSizes = ascending(options.pwaSizes);
+  for (const size of pwaSizes) {
+    specs.push({ path: `android-chrome-${size}x${size}.png`, size, padding: 0, background: null, role: 'pwa' });
+  }
+  if (options.maskable) {
+    for (const size of pwaSizes) {
+      specs.push({
+        path: `maskable-icon-${size}x${size}.png`,
+        size,
+        padding: options.maskablePadding,
+        background: options.background,
+        role: 'maskable',
+      });
+    }
+  }
+  return specs;
+};
+
+/** An empty base path keeps hrefs relative; anything else gets exactly one trailing slash. */
+const hrefBase = (basePath: string) => {
+  const trimmed = basePath.trim();
+  return trimmed ? trimmed.replace(/\/*$/, '/') : '';
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+export const buildWebManifest = (specs: IconSpec[], options: IconOptions): string => {
+  const base = hrefBase(options.basePath);
+  const icons = specs
+    .filter(spec => spec.role === 'pwa' || spec.role === 'maskable')
+    .map(spec => ({
+      src: base + spec.path,
+      sizes: `${spec.size}x${spec.size}`,
+      type: 'image/png',
+      purpose: spec.role === 'maskable' ? 'maskable' : 'any',
+    }));
+  return JSON.stringify({
+    name: options.appName,
+    short_name: options.shortName,
+    icons,
+    theme_color: options.themeColor,
+    background_color: options.background,
+    display: 'standalone',
+  }, null, 2);
+};
+
+/** `<link>` tags for the document head; the manifest is only linked when it is generated. */
+export const buildIconLinks = (specs: IconSpec[], options: IconOptions, hasManifest: boolean): string => {
+  const base = escapeAttribute(hrefBase(options.basePath));
+  const lines: string[] = [];
+  const icoSizes = ascending(options.icoSizes);
+  if (icoSizes.length > 0) {
+    lines.push(`<link rel="icon" href="${base}favicon.ico" sizes="${icoSizes.map(s => `${s}x${s}`).join(' ')}">`);
+  }
+  for (const spec of specs) {
+    if (spec.role === 'favicon') {
+      lines.push(`<link rel="icon" type="image/png" sizes="${spec.size}x${spec.size}" href="${base}${spec.path}">`);
+    } else if (spec.role === 'apple') {
+      lines.push(`<link rel="apple-touch-icon" sizes="${spec.size}x${spec.size}" href="${base}${spec.path}">`);
+    }
+  }
+  if (hasManifest) lines.push(`<link rel="manifest" href="${base}site.webmanifest">`);
+  lines.push(`<meta name="theme-color" content="${escapeAttribute(options.themeColor)}">`);
+  return lines.join('\n');
+};
+
+interface Level {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lazily built chain of half-size copies. Drawing from the level at most twice
+ * the target keeps tiny icons from aliasing when the source is large.
+ */
+const createPyramid = (source: CanvasImageSource, width: number, height: number) => {
+  const levels: Level[] = [{ source, width, height }];
+  return (target: number): Level => {
+    let last = levels[levels.length - 1];
+    while (Math.max(last.width, last.height) > target * 2) {
+      const w = Math.max(1, Math.round(last.width / 2));
+      const h = Math.max(1, Math.round(last.height / 2));
+      const canvas = createCanvas(w, h);
+      const ctx = getContext2D(canvas);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(last.source, 0, 0, w, h);
+      last = { source: canvas, width: w, height: h };
+      levels.push(last);
+    }
+    return levels.find(level => Math.max(level.width, level.height) <= target * 2) ?? last;
+  };
+};
+
+/**
+ * Renders an icon set from an upright source: `favicon.ico`, the PNG sizes,
+ * `site.webmanifest` and an `icons.html` link snippet. The largest PNG is the
+ * main blob so the result can be previewed and compared like any other.
+ */
+export const renderIconSet = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  options: IconOptions
+): Promise<RenderOutput> => {
+  const icoSizes = ascending(options.icoSizes).filter(size => size >= 1 && size <= 256);
+  const specs = planIconSet({ ...options, icoSizes });
+  if (icoSizes.length === 0 && specs.length === 0) throw new Error('No icon sizes selected');
+
+  const level = createPyramid(source, sourceWidth, sourceHeight);
+  const draw = (size: number, padding: number, background: string | null) => {
+    const canvas = createCanvas(size, size);
+    const ctx = getContext2D(canvas);
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, size, size);
+    }
+    const box = size * (1 - 2 * padding);
+    const scale = box / Math.max(sourceWidth, sourceHeight);
+    const width = sourceWidth * scale;
+    const height = sourceHeight * scale;
+    const { source: from } = level(Math.max(width, height));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(from, (size - width) / 2, (size - height) / 2, width, height);
+    return { canvas, ctx };
+  };
+  const encodePng = async (size: number, padding: number, background: string | null) => {
+    const blob = await canvasToBlob(draw(size, padding, background).canvas, 'image/png', 1);
+    return optimizePng(new Uint8Array(await blob.arrayBuffer()), DEFAULT_PNG_OPTIONS);
+  };
+
+  const files: OutputFile[] = [];
+  if (icoSizes.length > 0) {
+    const entries: IcoImage[] = [];
+    for (const size of icoSizes) {
+      const bmp = options.icoEncoding === 'bmp' || (options.icoEncoding === 'auto' && size <= AUTO_BMP_MAX);
+      entries.push(bmp
+        ? { width: size, height: size, kind: 'bmp', data: draw(size, 0, null).ctx.getImageData(0, 0, size, size).data }
+        : { width: size, height: size, kind: 'png', png: await encodePng(size, 0, null) });
+    }
+    files.push({ path: 'favicon.ico', blob: new Blob([encodeIco(entries)], { type: 'image/x-icon' }) });
+  }
+
+  let main: { blob: Blob; size: number } | null = null;
+  for (const spec of specs) {
+    const blob = new Blob([await encodePng(spec.size, spec.padding, spec.background)], { type: 'image/png' });
+    files.push({ path: spec.path, blob });
+    if (!main || spec.size > main.size) main = { blob, size: spec.size };
+  }
+
+  const hasManifest = specs.some(spec => spec.role === 'pwa' || spec.role === 'maskable');
+  if (hasManifest) {
+    const manifest = buildWebManifest(specs, options);
+    files.push({ path: 'site.webmanifest', blob: new Blob([manifest], { type: 'application/manifest+json' }) });
+  }
+  const html = buildIconLinks(specs, { ...options, icoSizes }, hasManifest);
+  files.push({ path: 'icons.html', blob: new Blob([html + '\n'], { type: 'text/html' }) });
+
+  const size = main?.size ?? icoSizes[icoSizes.length - 1];
+  return { blob: main?.blob ?? files[0].blob, width: size, height: size, files, html };
+};
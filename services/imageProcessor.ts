@@ -1,28 +1,41 @@
-import { ImageFormat } from '../types.ts';
+import { ImageFormat, ConversionOptions, ConversionResult, GifOptions, RenderOutput, TargetSizeReport, TraceOptions } from '../types.ts';
+import { AnyCanvas, AnyContext2D, canvasToBlob, createCanvas, getContext2D } from './canvas.ts';
+import { fitToTargetSize } from './targetSize.ts';
+import { ResizeGeometry, computeResizeGeometry, resolveResize } from './resize.ts';
+import { traceToSvg } from './vectorTracer.ts';
+import { GifEncoder, createGifEncoder, encodeGif } from './gifEncoder.ts';
+import { DecodedAnimation, openAnimation } from './animation.ts';
+import { muxAnimatedWebp } from './webpContainer.ts';
+import { ImageMetadata, embedMetadata, readFileMetadata, selectMetadata } from './metadata.ts';
+import { DecodeImage, orientImage } from './orientation.ts';
+import { decodeInput } from './rasterDecoders.ts';
+import { optimizePng, probeStillPng } from './pngOptimizer.ts';
+import { PreparedWatermark, drawWatermark, prepareWatermark } from './watermark.ts';
+import { renderIconSet } from './iconSet.ts';
+import { applyTransform } from './transform.ts';
+import { filterContext } from './filters.ts';
+import { CanvasLayout, flattenColor, flattensAlpha, layoutCanvas, reshapesOutput, scaleLayout, trimSource } from './background.ts';
 
-/**
- * Basic image tracing: converts non-transparent pixels to small SVG rectangles.
- * Good for icons and simple graphics.
- */
-const traceToSvgPath = (ctx: CanvasRenderingContext2D, width: number, height: number): string => {
-  const imgData = ctx.getImageData(0, 0, width, height);
-  const data = imgData.data;
-  let paths = "";
-  const step = 2; // Pixel stepping for performance balance
-  for (let y = 0; y < height; y += step) {
-    for (let x = 0; x < width; x += step) {
-      const i = (y * width + x) * 4;
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const a = data[i + 3];
-      if (a > 128) {
-        const color = `rgb(${r},${g},${b})`;
-        paths += `<rect x="${x}" y="${y}" width="${step}" height="${step}" fill="${color}" />`;
-      }
-    }
+/** Larger sources are traced on a downscaled copy and scaled back via coordinates. */
+const MAX_TRACE_PIXELS = 1_000_000;
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = { colors: 16, detail: 0.6, smoothing: 0.5 };
+
+export const DEFAULT_GIF_OPTIONS: GifOptions = { colors: 256, dither: true };
+
+const traceCanvas = (canvas: AnyCanvas, width: number, height: number, trace: TraceOptions): string => {
+  const ratio = Math.min(1, Math.sqrt(MAX_TRACE_PIXELS / (width * height)));
+  let source = canvas;
+  let traceWidth = width;
+  let traceHeight = height;
+  if (ratio < 1) {
+    traceWidth = Math.max(1, Math.round(width * ratio));
+    traceHeight = Math.max(1, Math.round(height * ratio));
+    source = createCanvas(traceWidth, traceHeight);
+    getContext2D(source).drawImage(canvas, 0, 0, traceWidth, traceHeight);
   }
-  return paths;
+  const { data } = getContext2D(source).getImageData(0, 0, traceWidth, traceHeight);
+  return traceToSvg(data, traceWidth, traceHeight, width, height, trace);
 };
 
 /**
@@ -35,85 +48,342 @@ const minifySvg = (svgString: string): string => {
     .trim();
 };
 
-export const convertImage = (
+/**
+ * Draws the resized source into its place on the (possibly padded) output
+ * canvas: background fill, image, filters on the image only, then the
+ * watermark over the whole canvas.
+ */
+const drawOutput = (
+  ctx: AnyContext2D,
+  source: CanvasImageSource,
+  geometry: ResizeGeometry,
+  layout: CanvasLayout,
+  options: ConversionOptions,
+  watermark: PreparedWatermark | null
+) => {
+  const { width, height, x, y, drawWidth, drawHeight } = layout;
+  ctx.clearRect(0, 0, width, height);
+  if (flattensAlpha(options.targetFormat, options.background)) {
+    ctx.fillStyle = flattenColor(options.background);
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(source, geometry.sx, geometry.sy, geometry.sw, geometry.sh, x, y, drawWidth, drawHeight);
+  if (options.filters) filterContext(ctx, x, y, drawWidth, drawHeight, options.filters);
+  if (watermark) drawWatermark(ctx, width, height, watermark);
+};
+
+/**
+ * Single draw-and-encode pass with fixed settings. `downscale` shrinks the
+ * resized output further and is only used by the target-size search.
+ */
+const renderPass = async (
+  source: CanvasImageSource,
+  geometry: ResizeGeometry,
+  options: ConversionOptions,
+  watermark: PreparedWatermark | null,
+  downscale = 1
+): Promise<RenderOutput> => {
+  const { targetFormat, quality, trace, gif } = options;
+  const layout = scaleLayout(layoutCanvas(geometry.width, geometry.height, options.background), downscale);
+  const { width, height } = layout;
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  drawOutput(ctx, source, geometry, layout, options, watermark);
+
+  // Vector tracing for SVG output
+  if (targetFormat === ImageFormat.SVG) {
+    const svgContent = traceCanvas(canvas, width, height, trace || DEFAULT_TRACE_OPTIONS);
+    const blob = new Blob([minifySvg(svgContent)], { type: ImageFormat.SVG });
+    return { blob, width, height };
+  }
+
+  // Browsers cannot encode GIF natively (toBlob silently returns PNG)
+  if (targetFormat === ImageFormat.GIF) {
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const bytes = encodeGif([{ data, delay: 0 }], width, height, gif || DEFAULT_GIF_OPTIONS);
+    return { blob: new Blob([bytes], { type: ImageFormat.GIF }), width, height };
+  }
+
+  const blob = await canvasToBlob(canvas, targetFormat, quality);
+  return { blob, width, height };
+};
+
+/**
+ * Environment-agnostic conversion core shared by the main thread and the
+ * conversion workers. Draws an already decoded source and encodes it.
+ * `finalize` post-processes every encoded blob, so container additions such as
+ * metadata count towards a target size. The watermark is stamped after
+ * resizing, so it keeps its relative size whatever the output dimensions.
+ */
+export const renderImage = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  options: ConversionOptions,
+  finalize: (blob: Blob) => Promise<Blob> = async blob => blob,
+  watermark: PreparedWatermark | null = null
+): Promise<RenderOutput> => {
+  const { targetFormat, quality, targetSize } = options;
+  const geometry = resolveResize(source, sourceWidth, sourceHeight, options.resize);
+  const layout = layoutCanvas(geometry.width, geometry.height, options.background);
+
+  if (targetSize && targetFormat !== ImageFormat.SVG) {
+    const { blob, report } = await fitToTargetSize(
+      async (q, s) => finalize((await renderPass(source, geometry, { ...options, quality: q }, watermark, s)).blob),
+      targetFormat,
+      quality,
+      Math.min(layout.width, layout.height),
+      targetSize
+    );
+    const scaled = scaleLayout(layout, report.scale);
+    return {
+      blob,
+      width: scaled.width,
+      height: scaled.height,
+      targetSizeReport: report,
+    };
+  }
+
+  const output = await renderPass(source, geometry, options, watermark);
+  return { ...output, blob: await finalize(output.blob) };
+};
+
+/**
+ * The size search only covers stills, so an animation with a target size gets
+ * a report that says so, and whether its single encode fits anyway.
+ */
+const animationBudget = (blob: Blob, options: ConversionOptions): TargetSizeReport | undefined => {
+  const { targetSize, targetFormat, quality } = options;
+  if (!targetSize || targetFormat === ImageFormat.SVG) return undefined;
+  return { budget: targetSize.bytes, met: blob.size <= targetSize.bytes, quality, scale: 1, unsupported: true };
+};
+
+/**
+ * Converts every frame of an animation. GIF targets are re-encoded as animated
+ * GIF and WebP targets are muxed into an animated WebP; other formats yield one
+ * still per frame in `frames`, with the first frame as the main blob. The
+ * image's own transform is applied to each frame before resizing.
+ */
+export const renderAnimation = async (
+  animation: DecodedAnimation,
+  options: ConversionOptions,
+  watermark: PreparedWatermark | null = null,
+  signal?: AbortSignal
+): Promise<RenderOutput> => {
+  const { targetFormat, quality, trace, gif } = options;
+  const frameCanvas = createCanvas(animation.width, animation.height);
+  const frameCtx = getContext2D(frameCanvas);
+  // Output geometry (and any smart-crop focus) is fixed by the first frame so
+  // the crop does not jump around during playback.
+  let geometry: ResizeGeometry | null = null;
+  let layout: CanvasLayout | null = null;
+  let canvas: AnyCanvas | null = null;
+  let ctx: AnyContext2D | null = null;
+  let gifEncoder: GifEncoder | null = null;
+  const stills: Blob[] = [];
+  const delays: number[] = [];
+
+  for await (const frame of animation.frames) {
+    signal?.throwIfAborted();
+    frameCtx.putImageData(new ImageData(frame.data, animation.width, animation.height), 0, 0);
+    const source = options.transform
+      ? applyTransform(frameCanvas, animation.width, animation.height, options.transform)
+      : frameCanvas;
+    if (!geometry || !layout || !canvas || !ctx) {
+      geometry = resolveResize(source, source.width, source.height, options.resize);
+      layout = layoutCanvas(geometry.width, geometry.height, options.background);
+      canvas = createCanvas(layout.width, layout.height);
+      ctx = getContext2D(canvas);
+      if (targetFormat === ImageFormat.GIF) {
+        gifEncoder = createGifEncoder(layout.width, layout.height, gif || DEFAULT_GIF_OPTIONS, true);
+      }
+    }
+    const { width, height } = layout;
+    drawOutput(ctx, source, geometry, layout, options, watermark);
+
+    if (gifEncoder) {
+      gifEncoder.addFrame(ctx.getImageData(0, 0, width, height).data, frame.delay);
+    } else if (targetFormat === ImageFormat.SVG) {
+      const svgContent = traceCanvas(canvas, width, height, trace || DEFAULT_TRACE_OPTIONS);
+      stills.push(new Blob([minifySvg(svgContent)], { type: ImageFormat.SVG }));
+    } else {
+      stills.push(await canvasToBlob(canvas, targetFormat, quality));
+    }
+    delays.push(frame.delay);
+  }
+
+  if (!layout) throw new Error('Animation has no frames');
+  const { width, height } = layout;
+  const info = { frameCount: delays.length, duration: delays.reduce((a, b) => a + b, 0) };
+
+  if (gifEncoder) {
+    const blob = new Blob([gifEncoder.finish()], { type: ImageFormat.GIF });
+    return { blob, width, height, animation: info };
+  }
+
+  // Encoders without WebP support hand back PNG; keep those as a sequence.
+  if (targetFormat === ImageFormat.WEBP && stills.every(still => still.type === ImageFormat.WEBP)) {
+    const frames = await Promise.all(stills.map(async (still, i) => ({
+      bytes: new Uint8Array(await still.arrayBuffer()),
+      delay: delays[i],
+    })));
+    const blob = new Blob([muxAnimatedWebp(frames, width, height)], { type: ImageFormat.WEBP });
+    return { blob, width, height, animation: info };
+  }
+
+  return { blob: stills[0], width, height, animation: info, frames: stills };
+};
+
+/**
+ * Decodes a still upright and hands it to `render` with the image's own
+ * transform applied and, when enabled, its uniform borders trimmed. TIFF,
+ * BMP, ICO and PSD inputs are decoded in TypeScript, at `options.page`.
+ */
+const decodeUpright = async <T>(
   file: File,
-  targetFormat: ImageFormat,
-  quality: number,
-  scale: number
-): Promise<{ blob: Blob; url: string }> => {
-  return new Promise((resolve, reject) => {
-    // Optimization: SVG to SVG pass-through with minification
-    if (file.type === ImageFormat.SVG && targetFormat === ImageFormat.SVG) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const rawSvg = e.target?.result as string;
-        const minified = minifySvg(rawSvg);
-        const blob = new Blob([minified], { type: ImageFormat.SVG });
-        resolve({ blob, url: URL.createObjectURL(blob) });
-      };
-      reader.readAsText(file);
-      return;
+  orientation: number,
+  decode: DecodeImage,
+  options: ConversionOptions,
+  render: (source: CanvasImageSource, width: number, height: number) => Promise<T>
+): Promise<T> => {
+  const decoded = await decodeInput(file, decode, options.page);
+  try {
+    const upright = await orientImage(decoded, orientation, decode);
+    let source: CanvasImageSource = upright.source;
+    let { width, height } = upright;
+    if (options.transform) {
+      const edited = applyTransform(source, width, height, options.transform);
+      ({ width, height } = edited);
+      source = edited;
+    }
+    const trimmed = options.background?.trim
+      ? trimSource(source, width, height, options.background.trimTolerance)
+      : null;
+    if (trimmed) {
+      ({ width, height } = trimmed);
+      source = trimmed;
+    }
+    return await render(source, width, height);
+  } finally {
+    decoded.close?.();
+  }
+};
+
+/**
+ * File-level entry point for both the main thread and workers, which differ
+ * only in how still images are decoded. Animations take the frame pipeline;
+ * stills are turned upright first. Crop, rotation, flips and border trimming
+ * come before any resizing. PNG output goes through the optimizer when
+ * `options.png` is set, and metadata kept by the policy is written back into
+ * every output blob. A watermark, filter chain or background change always
+ * forces the canvas path. Icon sets are drawn from the first frame and carry
+ * no metadata. `signal` is checked between stages, animation frames and
+ * target-size passes; workers are cancelled by terminating them instead.
+ */
+export const renderFile = async (
+  file: File,
+  options: ConversionOptions,
+  decode: DecodeImage,
+  signal?: AbortSignal
+): Promise<RenderOutput> => {
+  const source = await readFileMetadata(file);
+  signal?.throwIfAborted();
+  if (options.icons) {
+    const icons = options.icons;
+    return decodeUpright(file, source.orientation, decode, options, (upright, width, height) =>
+      renderIconSet(upright, width, height, icons));
+  }
+
+  const policy = options.metadata || 'strip';
+  const kept = selectMetadata(source, policy);
+  const png = options.targetFormat === ImageFormat.PNG ? options.png : undefined;
+  const finalizeWith = (metadata: ImageMetadata) => async (blob: Blob) => {
+    signal?.throwIfAborted();
+    if (png && blob.type === ImageFormat.PNG) {
+      const optimized = await optimizePng(new Uint8Array(await blob.arrayBuffer()), png);
+      blob = new Blob([optimized], { type: ImageFormat.PNG });
+    }
+    return embedMetadata(blob, metadata);
+  };
+  const finalize = finalizeWith(kept);
+  const watermark = await prepareWatermark(options.watermark);
+
+  // PNGs that need no geometry change skip the canvas entirely: its
+  // premultiplied 8-bit round trip is lossy, the optimizer's is not.
+  if (png && !watermark && !options.transform && !options.filters && !reshapesOutput(options.background) && file.type === ImageFormat.PNG && source.orientation === 1 && !options.targetSize) {
+    const still = probeStillPng(new Uint8Array(await file.arrayBuffer()));
+    const geometry = still && computeResizeGeometry(still.width, still.height, options.resize);
+    if (still && geometry && geometry.width === still.width && geometry.height === still.height
+      && geometry.sw === still.width && geometry.sh === still.height) {
+      // The pixels never leave the source's color space, so its profile still applies.
+      const passthrough = finalizeWith(policy === 'all' ? { ...kept, icc: source.icc } : kept);
+      return { blob: await passthrough(file), width: still.width, height: still.height };
+    }
+  }
+
+  const animation = await openAnimation(file);
+  if (animation) {
+    const output = await renderAnimation(animation, options, watermark, signal);
+    if (!output.frames) {
+      const blob = await finalize(output.blob);
+      return { ...output, blob, targetSizeReport: animationBudget(blob, options) };
     }
+    const frames = await Promise.all(output.frames.map(finalize));
+    return { ...output, blob: frames[0], frames, targetSizeReport: animationBudget(frames[0], options) };
+  }
 
+  signal?.throwIfAborted();
+  return decodeUpright(file, source.orientation, decode, options, (upright, width, height) =>
+    renderImage(upright, width, height, options, finalize, watermark));
+};
+
+const loadImageElement = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        if (!ctx) {
-          reject(new Error('Canvas context failure'));
-          return;
-        }
-
-        const width = img.width * scale;
-        const height = img.height * scale;
-        canvas.width = width;
-        canvas.height = height;
-
-        // Fill background for non-alpha formats like JPEG
-        if (targetFormat === ImageFormat.JPEG) {
-          ctx.fillStyle = '#FFFFFF';
-          ctx.fillRect(0, 0, width, height);
-        }
-
-        ctx.drawImage(img, 0, 0, width, height);
-
-        // Advanced SVG conversion
-        if (targetFormat === ImageFormat.SVG) {
-          const useTracing = width * height < 150000; // Only trace relatively small images
-          let svgContent = "";
-          if (useTracing) {
-            const paths = traceToSvgPath(ctx, width, height);
-            svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><g shape-rendering="crispEdges">${paths}</g></svg>`;
-          } else {
-            // High-quality embedding using WebP base64
-            const dataUrl = canvas.toDataURL('image/webp', quality);
-            svgContent = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}"><image width="100%" height="100%" xlink:href="${dataUrl}" /></svg>`;
-          }
-          const blob = new Blob([minifySvg(svgContent)], { type: ImageFormat.SVG });
-          resolve({ blob, url: URL.createObjectURL(blob) });
-        } else {
-          canvas.toBlob(
-            (blob) => {
-              if (blob) resolve({ blob, url: URL.createObjectURL(blob) });
-              else reject(new Error('Blob generation failed'));
-            },
-            targetFormat,
-            quality
-          );
-        }
-      };
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Image decoding failed'));
       img.src = e.target?.result as string;
     };
+    reader.onerror = () => reject(reader.error);
     reader.readAsDataURL(file);
   });
 };
 
+const decodeImageElement: DecodeImage = async (blob) => {
+  const img = await loadImageElement(blob);
+  return { source: img, width: img.width, height: img.height };
+};
+
+/**
+ * Main-thread conversion path. Used directly when OffscreenCanvas is not
+ * available, and for inputs workers cannot decode (SVG).
+ */
+export const convertImage = async (
+  file: File,
+  options: ConversionOptions,
+  signal?: AbortSignal
+): Promise<ConversionResult> => {
+  signal?.throwIfAborted();
+  // Optimization: SVG to SVG pass-through with minification
+  if (file.type === ImageFormat.SVG && options.targetFormat === ImageFormat.SVG
+    && !options.watermark?.enabled && !options.icons && !options.transform && !options.filters
+    && !reshapesOutput(options.background)) {
+    const rawSvg = await file.text();
+    const blob = new Blob([minifySvg(rawSvg)], { type: ImageFormat.SVG });
+    const img = await loadImageElement(file);
+    return { blob, width: img.width, height: img.height, url: URL.createObjectURL(blob) };
+  }
+
+  const output = await renderFile(file, options, decodeImageElement, signal);
+  return { ...output, url: URL.createObjectURL(output.blob) };
+};
+
 export const formatSize = (bytes: number): string => {
   if (bytes === 0) return '0 B';
   const k = 1024;
   const sizes = ['B', 'KB', 'MB', 'GB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
\ No newline at end of file
+};
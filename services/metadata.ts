@@ -0,0 +1,304 @@
+import { ImageFormat, MetadataPolicy } from '../types.ts';
+import { createByteWriter } from './bytes.ts';
+import {
+  EXIF_HEADER,
+  buildCreditsExif,
+  hasExifHeader,
+  readExifCredits,
+  readExifOrientation,
+  resetExifOrientation,
+} from './exif.ts';
+import { PngChunk, isPng, readPngChunks, writePngChunks } from './pngChunks.ts';
+import { isWebp, readWebpChunks, setWebpMetadata } from './webpContainer.ts';
+import { zlibCompress, zlibDecompress } from './zlib.ts';
+
+export interface ImageMetadata {
+  /** EXIF orientation of the source (1-8); 1 means upright. */
+  orientation: number;
+  /** TIFF block, without the `Exif\0\0` prefix JPEG uses. */
+  exif?: Uint8Array;
+  xmp?: string;
+  /** Uncompressed ICC color profile. */
+  icc?: Uint8Array;
+}
+
+const EMPTY_METADATA: ImageMetadata = { orientation: 1 };
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const ICC_SIGNATURE = 'ICC_PROFILE\0';
+/** Largest JPEG segment payload (the 16-bit length includes its own two bytes). */
+const MAX_SEGMENT_PAYLOAD = 65533;
+/** ICC chunks also carry the signature plus sequence and count bytes. */
+const MAX_ICC_CHUNK = MAX_SEGMENT_PAYLOAD - ICC_SIGNATURE.length - 2;
+
+const startsWithAscii = (bytes: Uint8Array, text: string, offset = 0) => {
+  if (bytes.length < offset + text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]) => {
+  const out = createByteWriter(parts.reduce((sum, p) => sum + p.length, 0) || 1);
+  parts.forEach(p => out.bytes(p));
+  return out.toUint8Array();
+};
+
+const stripExifHeader = (bytes: Uint8Array) => (hasExifHeader(bytes) ? bytes.subarray(EXIF_HEADER.length) : bytes);
+
+// --- JPEG -------------------------------------------------------------------
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+  data: Uint8Array;
+}
+
+const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+/** Marker segments up to and including start-of-scan. */
+const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  let pos = 2;
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const end = pos + 2 + length;
+    segments.push({ marker, start: pos, end, data: bytes.subarray(pos + 4, end) });
+    if (marker === 0xda) break;
+    pos = end;
+  }
+  return segments;
+};
+
+const isXmpSegment = (s: JpegSegment) => s.marker === 0xe1 && startsWithAscii(s.data, XMP_NAMESPACE);
+const isExifSegment = (s: JpegSegment) => s.marker === 0xe1 && hasExifHeader(s.data);
+const isIccSegment = (s: JpegSegment) => s.marker === 0xe2 && startsWithAscii(s.data, ICC_SIGNATURE);
+
+const readJpegMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const metadata: ImageMetadata = { orientation: 1 };
+  const iccChunks: { index: number; data: Uint8Array }[] = [];
+  for (const segment of readJpegSegments(bytes)) {
+    if (isExifSegment(segment) && !metadata.exif) {
+      metadata.exif = segment.data.subarray(EXIF_HEADER.length);
+    } else if (isXmpSegment(segment) && metadata.xmp === undefined) {
+      metadata.xmp = new TextDecoder().decode(segment.data.subarray(XMP_NAMESPACE.length));
+    } else if (isIccSegment(segment)) {
+      const header = ICC_SIGNATURE.length;
+      iccChunks.push({ index: segment.data[header], data: segment.data.subarray(header + 2) });
+    }
+  }
+  if (iccChunks.length > 0) {
+    metadata.icc = concat(iccChunks.sort((a, b) => a.index - b.index).map(c => c.data));
+  }
+  return metadata;
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const out = createByteWriter(payload.length + 4);
+  out.byte(0xff);
+  out.byte(marker);
+  out.u16be(payload.length + 2);
+  out.bytes(payload);
+  return out.toUint8Array();
+};
+
+/**
+ * Replaces the EXIF, XMP and ICC segments of a JPEG. New segments go right
+ * after SOI and any JFIF APP0, which must stay first. Payloads too large for a
+ * single segment (EXIF, or XMP needing the extended form) are dropped.
+ */
+const writeJpegMetadata = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  const inserted: Uint8Array[] = [];
+  if (metadata.exif && metadata.exif.length + EXIF_HEADER.length <= MAX_SEGMENT_PAYLOAD) {
+    inserted.push(jpegSegment(0xe1, concat([new Uint8Array(EXIF_HEADER), metadata.exif])));
+  }
+  if (metadata.xmp) {
+    const payload = concat([ascii(XMP_NAMESPACE), new TextEncoder().encode(metadata.xmp)]);
+    if (payload.length <= MAX_SEGMENT_PAYLOAD) inserted.push(jpegSegment(0xe1, payload));
+  }
+  if (metadata.icc) {
+    const count = Math.ceil(metadata.icc.length / MAX_ICC_CHUNK);
+    for (let i = 0; i < count; i++) {
+      const chunk = metadata.icc.subarray(i * MAX_ICC_CHUNK, (i + 1) * MAX_ICC_CHUNK);
+      inserted.push(jpegSegment(0xe2, concat([ascii(ICC_SIGNATURE), new Uint8Array([i + 1, count]), chunk])));
+    }
+  }
+
+  const out = createByteWriter(bytes.length + inserted.reduce((sum, s) => sum + s.length, 0));
+  out.bytes(bytes.subarray(0, 2));
+  let pos = 2;
+  let pending = true;
+  for (const segment of readJpegSegments(bytes)) {
+    if (pending && segment.marker !== 0xe0) {
+      out.bytes(bytes.subarray(pos, segment.start));
+      pos = segment.start;
+      inserted.forEach(s => out.bytes(s));
+      pending = false;
+    }
+    out.bytes(bytes.subarray(pos, segment.start));
+    if (!isExifSegment(segment) && !isXmpSegment(segment) && !isIccSegment(segment)) {
+      out.bytes(bytes.subarray(segment.start, segment.end));
+    }
+    pos = segment.end;
+  }
+  out.bytes(bytes.subarray(pos));
+  return out.toUint8Array();
+};
+
+// --- PNG --------------------------------------------------------------------
+
+const readNulTerminated = (data: Uint8Array, offset: number) => {
+  const end = data.indexOf(0, offset);
+  const stop = end < 0 ? data.length : end;
+  return { text: String.fromCharCode(...data.subarray(offset, stop)), next: stop + 1 };
+};
+
+const isXmpChunk = (chunk: PngChunk) => chunk.type === 'iTXt' && startsWithAscii(chunk.data, XMP_KEYWORD + '\0');
+
+const readPngMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  const metadata: ImageMetadata = { orientation: 1 };
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type === 'eXIf') {
+      metadata.exif = stripExifHeader(chunk.data);
+    } else if (chunk.type === 'iCCP') {
+      const { next } = readNulTerminated(chunk.data, 0);
+      // `next` is the compression method byte; only zlib (0) is defined.
+      metadata.icc = await zlibDecompress(chunk.data.subarray(next + 1));
+    } else if (isXmpChunk(chunk)) {
+      const compressed = chunk.data[XMP_KEYWORD.length + 1] === 1;
+      const language = readNulTerminated(chunk.data, XMP_KEYWORD.length + 3);
+      const translated = readNulTerminated(chunk.data, language.next);
+      const text = chunk.data.subarray(translated.next);
+      metadata.xmp = new TextDecoder().decode(compressed ? await zlibDecompress(text) : text);
+    }
+  }
+  return metadata;
+};
+
+/** Replaces the iCCP, eXIf and XMP iTXt chunks, placing new ones right after IHDR. */
+const writePngMetadata = async (bytes: Uint8Array, metadata: ImageMetadata): Promise<Uint8Array> => {
+  const chunks = readPngChunks(bytes).filter(c =>
+    c.type !== 'eXIf' && c.type !== 'iCCP' && !isXmpChunk(c) && !(metadata.icc && c.type === 'sRGB')
+  );
+  const inserted: PngChunk[] = [];
+  if (metadata.icc) {
+    inserted.push({ type: 'iCCP', data: concat([ascii('ICC Profile\0\0'), await zlibCompress(metadata.icc)]) });
+  }
+  if (metadata.exif) inserted.push({ type: 'eXIf', data: metadata.exif });
+  if (metadata.xmp) {
+    // Keyword, uncompressed flag and method, then empty language and translated keyword.
+    const header = ascii(XMP_KEYWORD + '\0\0\0\0\0');
+    inserted.push({ type: 'iTXt', data: concat([header, new TextEncoder().encode(metadata.xmp)]) });
+  }
+  return writePngChunks([chunks[0], ...inserted, ...chunks.slice(1)]);
+};
+
+// --- WebP -------------------------------------------------------------------
+
+const readWebpMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const metadata: ImageMetadata = { orientation: 1 };
+  for (const chunk of readWebpChunks(bytes)) {
+    if (chunk.fourcc === 'EXIF') metadata.exif = stripExifHeader(chunk.data);
+    else if (chunk.fourcc === 'XMP ') metadata.xmp = new TextDecoder().decode(chunk.data);
+    else if (chunk.fourcc === 'ICCP') metadata.icc = chunk.data;
+  }
+  return metadata;
+};
+
+// --- Policy -----------------------------------------------------------------
+
+/**
+ * Parses EXIF, XMP and ICC data from JPEG, PNG or WebP bytes. Anything else,
+ * and containers too damaged to walk, yield empty metadata.
+ */
+export const readMetadata = async (bytes: Uint8Array): Promise<ImageMetadata> => {
+  try {
+    let metadata: ImageMetadata = { orientation: 1 };
+    if (isJpeg(bytes)) metadata = readJpegMetadata(bytes);
+    else if (isPng(bytes)) metadata = await readPngMetadata(bytes);
+    else if (isWebp(bytes)) metadata = readWebpMetadata(bytes);
+    if (metadata.exif) metadata.orientation = readExifOrientation(metadata.exif);
+    return metadata;
+  } catch {
+    return EMPTY_METADATA;
+  }
+};
+
+export const readFileMetadata = async (file: File): Promise<ImageMetadata> => {
+  if (file.type !== ImageFormat.JPEG && file.type !== ImageFormat.PNG && file.type !== ImageFormat.WEBP) {
+    return EMPTY_METADATA;
+  }
+  return readMetadata(new Uint8Array(await file.arrayBuffer()));
+};
+
+const XMP_CREDIT_ELEMENTS = /<dc:(creator|rights)\b[\s\S]*?<\/dc:\1>/g;
+
+/** Minimal XMP packet carrying only the source's dc:creator and dc:rights. */
+const buildCreditsXmp = (xmp: string): string | undefined => {
+  const elements = xmp.match(XMP_CREDIT_ELEMENTS);
+  if (!elements) return undefined;
+  return '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>'
+    + '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">'
+    + '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">'
+    + elements.join('')
+    + '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>';
+};
+
+/**
+ * The subset of the source metadata a policy keeps. Output pixels are always
+ * upright, so kept orientation fields are reset to 1. The ICC profile is never
+ * kept: rendered pixels come out of the canvas in sRGB, and a wide-gamut
+ * source profile would make viewers oversaturate them.
+ */
+export const selectMetadata = (metadata: ImageMetadata, policy: MetadataPolicy): ImageMetadata => {
+  if (policy === 'strip') return EMPTY_METADATA;
+  if (policy === 'copyright') {
+    return {
+      orientation: 1,
+      exif: (metadata.exif && buildCreditsExif(readExifCredits(metadata.exif))) || undefined,
+      xmp: metadata.xmp && buildCreditsXmp(metadata.xmp),
+    };
+  }
+  return {
+    orientation: 1,
+    exif: metadata.exif && resetExifOrientation(metadata.exif),
+    xmp: metadata.xmp
+      ?.replace(/tiff:Orientation="\d"/g, 'tiff:Orientation="1"')
+      .replace(/<tiff:Orientation>\d<\/tiff:Orientation>/g, '<tiff:Orientation>1</tiff:Orientation>'),
+  };
+};
+
+/**
+ * Writes metadata into an encoded JPEG, PNG or WebP blob. Other formats, and
+ * empty metadata, pass through untouched.
+ */
+export const embedMetadata = async (blob: Blob, metadata: ImageMetadata): Promise<Blob> => {
+  if (!metadata.exif && !metadata.xmp && !metadata.icc) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  switch (blob.type) {
+    case ImageFormat.JPEG:
+      return new Blob([writeJpegMetadata(bytes, metadata)], { type: blob.type });
+    case ImageFormat.PNG:
+      return new Blob([await writePngMetadata(bytes, metadata)], { type: blob.type });
+    case ImageFormat.WEBP: {
+      const xmp = metadata.xmp ? new TextEncoder().encode(metadata.xmp) : undefined;
+      return new Blob([setWebpMetadata(bytes, { icc: metadata.icc, exif: metadata.exif, xmp })], { type: blob.type });
+    }
+    default:
+      return blob;
+  }
+};
+
+/** Writes an EXIF block into JPEG bytes; used by the orientation probe. */
+export const embedJpegExif = (bytes: Uint8Array, exif: Uint8Array): Uint8Array =>
+  writeJpegMetadata(bytes, { orientation: 1, exif });
@@ -0,0 +1,96 @@
+import { NamingOptions } from '../types.ts';
+import { crc32 } from './pngChunks.ts';
+
+export const NAME_TOKENS = ['name', 'index', 'width', 'height', 'format', 'quality', 'date', 'hash'] as const;
+
+export type NameToken = typeof NAME_TOKENS[number];
+
+export const DEFAULT_NAMING: NamingOptions = { template: '{name}', conflict: 'rename', layout: 'mirror' };
+
+/** Values the template tokens expand to for one output file. */
+export interface NameValues {
+  /** Input file name without its extension. */
+  name: string;
+  /** 1-based position in the queue. */
+  index: number;
+  /** Queue length, used to zero-pad `{index}`. */
+  total: number;
+  width?: number;
+  height?: number;
+  /** Output extension, e.g. `jpg`. */
+  format: string;
+  /** 0-1 encoder quality. */
+  quality?: number;
+  date: Date;
+  /** Short content hash; only computed when the template asks for it. */
+  hash?: string;
+}
+
+/** Characters that are not allowed in file names on common file systems. */
+const UNSAFE_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+const pad = (value: number, digits: number) => String(value).padStart(digits, '0');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1, 2)}${pad(date.getDate(), 2)}`;
+
+export const templateUses = (template: string, token: NameToken) => template.includes(`{${token}}`);
+
+/**
+ * Expands a template into a base name (no extension). Unknown tokens are kept
+ * literally; if nothing usable is left the input name is used.
+ */
+export const renderNameTemplate = (template: string, values: NameValues): string => {
+  const expansions: Record<NameToken, string> = {
+    name: values.name,
+    index: pad(values.index, String(values.total).length),
+    width: values.width !== undefined ? String(values.width) : '',
+    height: values.height !== undefined ? String(values.height) : '',
+    format: values.format,
+    quality: values.quality !== undefined ? String(Math.round(values.quality * 100)) : '',
+    date: formatDate(values.date),
+    hash: values.hash ?? '',
+  };
+  const rendered = template
+    .replace(/\{(\w+)\}/g, (match, token: string) =>
+      (NAME_TOKENS as readonly string[]).includes(token) ? expansions[token as NameToken] : match)
+    .replace(UNSAFE_CHARS, '_')
+    .trim()
+    .replace(/^\.+/, '');
+  return rendered || values.name || 'image';
+};
+
+/** First 8 hex digits of the SHA-256 of the content, or its CRC-32 outside secure contexts. */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+    return Array.from(digest.slice(0, 4), b => b.toString(16).padStart(2, '0')).join('');
+  }
+  return crc32(bytes).toString(16).padStart(8, '0');
+};
+
+/** Inserts a counter before the extension: `a.jpg` → `a-2.jpg`. */
+export const withCounter = (path: string, counter: number): string => {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  return dot > slash + 1
+    ? `${path.slice(0, dot)}-${counter}${path.slice(dot)}`
+    : `${path}-${counter}`;
+};
+
+/**
+ * Hands out unique paths for one export. Comparison ignores case, since the
+ * target may be a case-insensitive file system.
+ */
+export const createPathAllocator = () => {
+  const used = new Set<string>();
+  return (path: string): string => {
+    let candidate = path;
+    for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+      candidate = withCounter(path, counter);
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+};
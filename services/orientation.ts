@@ -0,0 +1,83 @@
+import { AnyCanvas, canvasToBlob, createCanvas, getContext2D } from './canvas.ts';
+import { buildOrientationExif } from './exif.ts';
+import { embedJpegExif } from './metadata.ts';
+
+export interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  /** Releases decoder resources such as ImageBitmaps. */
+  close?: () => void;
+}
+
+export type DecodeImage = (blob: Blob) => Promise<DecodedImage>;
+
+/** Orientations 5-8 rotate by a quarter turn and swap the edges. */
+const swapsEdges = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+/**
+ * Redraws stored pixels upright. Transforms follow the EXIF definitions: 2-4
+ * are mirrors and the half turn, 5-8 transpose the image.
+ */
+export const applyOrientation = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  orientation: number
+): AnyCanvas => {
+  const swap = swapsEdges(orientation);
+  const canvas = createCanvas(swap ? height : width, swap ? width : height);
+  const ctx = getContext2D(canvas);
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+const autoOrientProbes = new WeakMap<DecodeImage, Promise<boolean>>();
+
+/**
+ * Whether a decoder already honours EXIF orientation. Newer engines rotate
+ * during decoding and older ones do not, so we decode a 2x1 JPEG tagged as
+ * rotated a quarter turn and check which way round it comes back. The answer
+ * for JPEG is assumed to hold for the other containers as well.
+ */
+const decoderAppliesOrientation = (decode: DecodeImage): Promise<boolean> => {
+  let probe = autoOrientProbes.get(decode);
+  if (!probe) {
+    probe = (async () => {
+      try {
+        const canvas = createCanvas(2, 1);
+        getContext2D(canvas).fillRect(0, 0, 2, 1);
+        const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.5)).arrayBuffer());
+        const tagged = embedJpegExif(jpeg, buildOrientationExif(6));
+        const image = await decode(new Blob([tagged], { type: 'image/jpeg' }));
+        const upright = image.width === 1 && image.height === 2;
+        image.close?.();
+        return upright;
+      } catch {
+        return true;
+      }
+    })();
+    autoOrientProbes.set(decode, probe);
+  }
+  return probe;
+};
+
+/** Returns the image upright, rotating it ourselves only when the decoder did not. */
+export const orientImage = async (
+  image: DecodedImage,
+  orientation: number,
+  decode: DecodeImage
+): Promise<DecodedImage> => {
+  if (orientation <= 1 || orientation > 8 || await decoderAppliesOrientation(decode)) return image;
+  const canvas = applyOrientation(image.source, image.width, image.height, orientation);
+  return { source: canvas, width: canvas.width, height: canvas.height };
+};
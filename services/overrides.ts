@@ -0,0 +1,53 @@
+import { FormatRule, GlobalSettings, ImageFile, ImageFormat, ResizeOptions, SettingOverrides } from '../types.ts';
+
+export type OverrideField = keyof SettingOverrides;
+
+export const OVERRIDE_FIELDS: OverrideField[] = ['targetFormat', 'quality', 'resize'];
+
+export interface ResolvedSettings {
+  targetFormat: ImageFormat;
+  quality: number;
+  resize: ResizeOptions;
+}
+
+/** Fields that are actually set, in display order. */
+export const overriddenFields = (overrides?: SettingOverrides): OverrideField[] =>
+  overrides ? OVERRIDE_FIELDS.filter(field => overrides[field] !== undefined) : [];
+
+/** Drops unset fields; returns undefined when nothing is left. */
+export const compactOverrides = (overrides: SettingOverrides): SettingOverrides | undefined => {
+  const fields = overriddenFields(overrides);
+  if (fields.length === 0) return undefined;
+  return Object.fromEntries(fields.map(field => [field, overrides[field]])) as SettingOverrides;
+};
+
+const WRITABLE_FORMATS: string[] = Object.values(ImageFormat);
+
+export const createFormatRule = (source: ImageFormat): FormatRule => ({
+  id: Math.random().toString(36).substr(2, 9),
+  source,
+  overrides: {},
+});
+
+/**
+ * Settings one image is converted with: the batch settings, then the first
+ * rule matching its input type, then its own overrides. `'original'` is
+ * resolved to the input format last, so a rule or override can restore it;
+ * inputs the app cannot write, such as TIFF or PSD, keep their pixels as PNG.
+ */
+export const resolveImageSettings = (image: ImageFile, settings: GlobalSettings): ResolvedSettings => {
+  const rule = settings.rules.find(r => r.source === image.format);
+  const merged = {
+    targetFormat: settings.targetFormat,
+    quality: settings.quality,
+    resize: settings.resize,
+    ...compactOverrides(rule?.overrides ?? {}),
+    ...compactOverrides(image.overrides ?? {}),
+  };
+  return {
+    ...merged,
+    targetFormat: merged.targetFormat !== 'original'
+      ? merged.targetFormat
+      : WRITABLE_FORMATS.includes(image.format) ? image.format : ImageFormat.PNG,
+  };
+};
@@ -0,0 +1,57 @@
+import { createByteWriter } from './bytes.ts';
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, seed = 0): number => {
+  let crc = ~seed >>> 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return ~crc >>> 0;
+};
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length >= 8 && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+/** Lists the chunks of a PNG file in order. CRCs are not verified. */
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+    pos += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+/** Serializes chunks into a PNG file, computing each chunk CRC. */
+export const writePngChunks = (chunks: PngChunk[]): Uint8Array => {
+  const out = createByteWriter(chunks.reduce((sum, c) => sum + c.data.length + 12, 8));
+  out.bytes(PNG_SIGNATURE);
+  for (const chunk of chunks) {
+    const typeBytes = new Uint8Array([...chunk.type].map(ch => ch.charCodeAt(0)));
+    out.u32be(chunk.data.length);
+    out.bytes(typeBytes);
+    out.bytes(chunk.data);
+    out.u32be(crc32(chunk.data, crc32(typeBytes)));
+  }
+  return out.toUint8Array();
+};
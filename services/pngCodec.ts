@@ -0,0 +1,273 @@
+import { PngChunk, readPngChunks, writePngChunks } from './pngChunks.ts';
+import { zlibDecompress } from './zlib.ts';
+
+/**
+ * Decoded PNG as straight (non-premultiplied) RGBA. Sources of 8 bits or
+ * less are widened to 8-bit samples; 16-bit sources keep their precision.
+ */
+export interface PngImage {
+  width: number;
+  height: number;
+  depth: 8 | 16;
+  pixels: Uint8Array | Uint16Array;
+}
+
+export type PngColorType = 0 | 2 | 3 | 4 | 6;
+
+/** Channels per pixel for each color type. */
+export const PNG_CHANNELS: Record<PngColorType, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: PngColorType;
+  interlaced: boolean;
+}
+
+/** Adam7 passes as [x0, y0, dx, dy]. */
+const ADAM7 = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]];
+
+export const readPngHeader = (chunks: PngChunk[]): PngHeader => {
+  const ihdr = chunks[0];
+  if (!ihdr || ihdr.type !== 'IHDR') throw new Error('PNG header missing');
+  const view = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.byteLength);
+  const colorType = ihdr.data[9] as PngColorType;
+  if (!(colorType in PNG_CHANNELS)) throw new Error('Unsupported PNG color type');
+  return {
+    width: view.getUint32(0),
+    height: view.getUint32(4),
+    bitDepth: ihdr.data[8],
+    colorType,
+    interlaced: ihdr.data[12] === 1,
+  };
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/** Reverses the row filters of one pass; each row in `data` starts with its filter byte. */
+const unfilter = (data: Uint8Array, offset: number, rows: number, rowBytes: number, bpp: number): Uint8Array => {
+  const out = new Uint8Array(rows * rowBytes);
+  for (let y = 0; y < rows; y++) {
+    const type = data[offset + y * (rowBytes + 1)];
+    const src = offset + y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const up = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[up + x] : 0;
+      const c = x >= bpp && y > 0 ? out[up + x - bpp] : 0;
+      const raw = data[src + x];
+      switch (type) {
+        case 0: out[row + x] = raw; break;
+        case 1: out[row + x] = raw + a; break;
+        case 2: out[row + x] = raw + b; break;
+        case 3: out[row + x] = raw + ((a + b) >> 1); break;
+        case 4: out[row + x] = raw + paeth(a, b, c); break;
+        default: throw new Error('Invalid PNG filter');
+      }
+    }
+  }
+  return out;
+};
+
+/** Decodes any standard PNG (all color types, bit depths and interlacing). */
+export const decodePng = async (bytes: Uint8Array): Promise<PngImage> => {
+  const chunks = readPngChunks(bytes);
+  const { width, height, bitDepth, colorType, interlaced } = readPngHeader(chunks);
+  const plte = chunks.find(c => c.type === 'PLTE')?.data;
+  const trns = chunks.find(c => c.type === 'tRNS')?.data;
+  const idat = chunks.filter(c => c.type === 'IDAT');
+  const compressed = new Uint8Array(idat.reduce((sum, c) => sum + c.data.length, 0));
+  idat.reduce((offset, c) => (compressed.set(c.data, offset), offset + c.data.length), 0);
+  const data = await zlibDecompress(compressed);
+
+  const channels = PNG_CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const depth: 8 | 16 = bitDepth === 16 ? 16 : 8;
+  const max = depth === 16 ? 65535 : 255;
+  const pixels = depth === 16 ? new Uint16Array(width * height * 4) : new Uint8Array(width * height * 4);
+  // Low bit depth grayscale is stretched to the full 8-bit range.
+  const grayScale = colorType === 0 || colorType === 4 ? 255 / ((1 << Math.min(bitDepth, 8)) - 1) : 1;
+  const trnsKey = trns && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: trns.length >> 1 }, (_, i) => (trns[i * 2] << 8) | trns[i * 2 + 1])
+    : null;
+
+  const sample = (row: Uint8Array, rowStart: number, index: number): number => {
+    if (bitDepth === 8) return row[rowStart + index];
+    if (bitDepth === 16) return (row[rowStart + index * 2] << 8) | row[rowStart + index * 2 + 1];
+    const bit = index * bitDepth;
+    return (row[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+
+  const passes = interlaced ? ADAM7 : [[0, 0, 1, 1]];
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const pw = Math.ceil((width - x0) / dx);
+    const ph = Math.ceil((height - y0) / dy);
+    if (pw <= 0 || ph <= 0) continue;
+    const rowBytes = Math.ceil((pw * bitsPerPixel) / 8);
+    const rows = unfilter(data, offset, ph, rowBytes, bpp);
+    offset += ph * (rowBytes + 1);
+
+    for (let y = 0; y < ph; y++) {
+      const rowStart = y * rowBytes;
+      for (let x = 0; x < pw; x++) {
+        const p = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+        const s = x * channels;
+        let r: number, g: number, b: number, a = max;
+        if (colorType === 3) {
+          const index = sample(rows, rowStart, s);
+          r = plte ? plte[index * 3] : 0;
+          g = plte ? plte[index * 3 + 1] : 0;
+          b = plte ? plte[index * 3 + 2] : 0;
+          if (trns && index < trns.length) a = trns[index];
+        } else if (colorType === 0 || colorType === 4) {
+          const v = sample(rows, rowStart, s);
+          if (trnsKey && v === trnsKey[0]) a = 0;
+          r = g = b = Math.round(v * grayScale);
+          if (colorType === 4) a = sample(rows, rowStart, s + 1);
+        } else {
+          r = sample(rows, rowStart, s);
+          g = sample(rows, rowStart, s + 1);
+          b = sample(rows, rowStart, s + 2);
+          if (colorType === 6) a = sample(rows, rowStart, s + 3);
+          else if (trnsKey && r === trnsKey[0] && g === trnsKey[1] && b === trnsKey[2]) a = 0;
+        }
+        pixels[p] = r;
+        pixels[p + 1] = g;
+        pixels[p + 2] = b;
+        pixels[p + 3] = a;
+      }
+    }
+  }
+  return { width, height, depth, pixels };
+};
+
+/** Output layout chosen by the optimizer. */
+export interface PngLayout {
+  colorType: PngColorType;
+  bitDepth: 1 | 2 | 4 | 8 | 16;
+  /** RGB triplets, for color type 3. */
+  palette?: Uint8Array;
+  /** Palette alpha, or the transparent color key for types 0 and 2. */
+  trns?: Uint8Array;
+}
+
+/**
+ * Packs per-pixel samples (already in the layout's channel order and value
+ * range) into unfiltered scanlines.
+ */
+export const packScanlines = (
+  samples: ArrayLike<number>,
+  width: number,
+  height: number,
+  layout: PngLayout
+): { rows: Uint8Array; rowBytes: number; bpp: number } => {
+  const channels = PNG_CHANNELS[layout.colorType];
+  const { bitDepth } = layout;
+  const perRow = width * channels;
+  const rowBytes = Math.ceil((perRow * bitDepth) / 8);
+  const rows = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    const src = y * perRow;
+    const dst = y * rowBytes;
+    if (bitDepth === 8) {
+      for (let i = 0; i < perRow; i++) rows[dst + i] = samples[src + i];
+    } else if (bitDepth === 16) {
+      for (let i = 0; i < perRow; i++) {
+        rows[dst + i * 2] = samples[src + i] >> 8;
+        rows[dst + i * 2 + 1] = samples[src + i] & 0xff;
+      }
+    } else {
+      for (let i = 0; i < perRow; i++) {
+        const bit = i * bitDepth;
+        rows[dst + (bit >> 3)] |= samples[src + i] << (8 - bitDepth - (bit & 7));
+      }
+    }
+  }
+  return { rows, rowBytes, bpp: Math.max(1, (channels * bitDepth) >> 3) };
+};
+
+/** Fixed filter type for every row, or per-row minimum sum of absolute differences. */
+export type FilterStrategy = 0 | 1 | 2 | 3 | 4 | 'adaptive';
+
+export const FILTER_STRATEGIES: FilterStrategy[] = [0, 1, 2, 3, 4, 'adaptive'];
+
+export const filterScanlines = (
+  rows: Uint8Array,
+  height: number,
+  rowBytes: number,
+  bpp: number,
+  strategy: FilterStrategy
+): Uint8Array => {
+  const out = new Uint8Array(height * (rowBytes + 1));
+  const candidate = new Uint8Array(rowBytes);
+
+  const apply = (type: number, y: number, target: Uint8Array, at: number) => {
+    const row = y * rowBytes;
+    const up = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const a = x >= bpp ? rows[row + x - bpp] : 0;
+      const b = y > 0 ? rows[up + x] : 0;
+      const c = x >= bpp && y > 0 ? rows[up + x - bpp] : 0;
+      const raw = rows[row + x];
+      target[at + x] = type === 0 ? raw
+        : type === 1 ? raw - a
+        : type === 2 ? raw - b
+        : type === 3 ? raw - ((a + b) >> 1)
+        : raw - paeth(a, b, c);
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    const at = y * (rowBytes + 1);
+    let type: number = strategy === 'adaptive' ? 0 : strategy;
+    if (strategy === 'adaptive') {
+      let best = Infinity;
+      for (let t = 0; t < 5; t++) {
+        apply(t, y, candidate, 0);
+        let sum = 0;
+        for (let x = 0; x < rowBytes; x++) sum += candidate[x] < 128 ? candidate[x] : 256 - candidate[x];
+        if (sum < best) {
+          best = sum;
+          type = t;
+        }
+      }
+    }
+    out[at] = type;
+    apply(type, y, out, at + 1);
+  }
+  return out;
+};
+
+/** Assembles a PNG from a layout, a zlib stream and extra ancillary chunks. */
+export const assemblePng = (
+  width: number,
+  height: number,
+  layout: PngLayout,
+  idat: Uint8Array,
+  ancillary: PngChunk[] = []
+): Uint8Array => {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr[8] = layout.bitDepth;
+  ihdr[9] = layout.colorType;
+  return writePngChunks([
+    { type: 'IHDR', data: ihdr },
+    ...ancillary,
+    ...(layout.palette ? [{ type: 'PLTE', data: layout.palette }] : []),
+    ...(layout.trns ? [{ type: 'tRNS', data: layout.trns }] : []),
+    { type: 'IDAT', data: idat },
+    { type: 'IEND', data: new Uint8Array(0) },
+  ]);
+};
@@ -0,0 +1,263 @@
+import { PngOptions } from '../types.ts';
+import { deflateZlib } from './deflate.ts';
+import { PngChunk, readPngChunks, writePngChunks } from './pngChunks.ts';
+import {
+  FILTER_STRATEGIES,
+  PngImage,
+  PngLayout,
+  assemblePng,
+  decodePng,
+  filterScanlines,
+  packScanlines,
+  readPngHeader,
+} from './pngCodec.ts';
+import { buildPalette, ditherToPalette } from './quantize.ts';
+import { zlibCompress } from './zlib.ts';
+
+export const DEFAULT_PNG_OPTIONS: PngOptions = { lossy: false, colors: 256 };
+
+/** Ancillary chunks that affect how pixels render, kept on every candidate. */
+const RENDERING_CHUNKS = ['gAMA', 'cHRM', 'sRGB'];
+const CRITICAL_CHUNKS = ['IHDR', 'PLTE', 'tRNS', 'IDAT', 'IEND'];
+
+/** Filtered data above this size keeps the platform deflate result; the custom pass gets too slow. */
+const MAX_CUSTOM_DEFLATE = 16 * 1024 * 1024;
+
+interface Candidate {
+  layout: PngLayout;
+  samples: ArrayLike<number>;
+}
+
+/** Size of a still PNG, or null for animated PNGs and unparsable data. */
+export const probeStillPng = (bytes: Uint8Array): { width: number; height: number } | null => {
+  try {
+    const chunks = readPngChunks(bytes);
+    if (chunks.some(c => c.type === 'acTL')) return null;
+    const { width, height } = readPngHeader(chunks);
+    return { width, height };
+  } catch {
+    return null;
+  }
+};
+
+/** 16-bit images whose samples all repeat the same byte twice lose nothing at 8 bits. */
+const reduceTo8Bit = (pixels: Uint16Array): Uint8Array | null => {
+  const out = new Uint8Array(pixels.length);
+  for (let i = 0; i < pixels.length; i++) {
+    const v = pixels[i];
+    if (v >> 8 !== (v & 0xff)) return null;
+    out[i] = v & 0xff;
+  }
+  return out;
+};
+
+/**
+ * Zeroes the color of fully transparent pixels. Invisible either way, but it
+ * merges palette entries and gives deflate longer runs.
+ */
+const clearTransparentColor = (pixels: Uint8Array | Uint16Array) => {
+  for (let p = 0; p < pixels.length; p += 4) {
+    if (pixels[p + 3] === 0) pixels[p] = pixels[p + 1] = pixels[p + 2] = 0;
+  }
+};
+
+const analyse = (pixels: Uint8Array | Uint16Array, max: number) => {
+  let opaque = true;
+  let binaryAlpha = true;
+  let gray = true;
+  for (let p = 0; p < pixels.length; p += 4) {
+    const a = pixels[p + 3];
+    if (a !== max) {
+      opaque = false;
+      if (a !== 0) binaryAlpha = false;
+    }
+    if (pixels[p] !== pixels[p + 1] || pixels[p] !== pixels[p + 2]) gray = false;
+  }
+  return { opaque, binaryAlpha, gray };
+};
+
+/** Exact RGBA palette with usage counts, or null beyond 256 colors. */
+const collectColors = (pixels: Uint8Array): Map<number, number> | null => {
+  const colors = new Map<number, number>();
+  const view = new Uint32Array(pixels.buffer, pixels.byteOffset, pixels.length >> 2);
+  for (let i = 0; i < view.length; i++) {
+    const key = view[i];
+    const count = colors.get(key);
+    if (count === undefined) {
+      if (colors.size === 256) return null;
+      colors.set(key, 1);
+    } else {
+      colors.set(key, count + 1);
+    }
+  }
+  return colors;
+};
+
+const paletteBitDepth = (size: number): PngLayout['bitDepth'] =>
+  size <= 2 ? 1 : size <= 4 ? 2 : size <= 16 ? 4 : 8;
+
+/**
+ * Lossless palette candidate. Translucent entries come first so tRNS stays
+ * short; within each group the most used colors get the lowest indices.
+ */
+const paletteCandidate = (pixels: Uint8Array, colors: Map<number, number>): Candidate => {
+  const bytes = new Uint8Array(4);
+  const view = new Uint32Array(bytes.buffer);
+  const entries = [...colors.entries()].map(([key, count]) => {
+    view[0] = key;
+    return { key, count, rgba: Array.from(bytes) };
+  });
+  entries.sort((a, b) => (a.rgba[3] === 255 ? 1 : 0) - (b.rgba[3] === 255 ? 1 : 0) || b.count - a.count);
+
+  const indexOf = new Map(entries.map((e, i) => [e.key, i]));
+  const palette = new Uint8Array(entries.length * 3);
+  entries.forEach((e, i) => palette.set(e.rgba.slice(0, 3), i * 3));
+  const translucent = entries.filter(e => e.rgba[3] !== 255).length;
+  const trns = translucent > 0 ? Uint8Array.from(entries.slice(0, translucent), e => e.rgba[3]) : undefined;
+
+  const pixelView = new Uint32Array(pixels.buffer, pixels.byteOffset, pixels.length >> 2);
+  const samples = new Uint8Array(pixelView.length);
+  for (let i = 0; i < pixelView.length; i++) samples[i] = indexOf.get(pixelView[i])!;
+  return { layout: { colorType: 3, bitDepth: paletteBitDepth(entries.length), palette, trns }, samples };
+};
+
+/**
+ * Lossy palette candidate via median cut and dithering. Only used for binary
+ * alpha, since the quantizer maps partial transparency to fully opaque.
+ */
+const quantizedCandidate = (pixels: Uint8Array, width: number, colors: number, opaque: boolean): Candidate => {
+  const rgba = new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.length);
+  const maxColors = Math.max(2, Math.min(256, colors)) - (opaque ? 0 : 1);
+  const palette = buildPalette(rgba, maxColors);
+  if (palette.length === 0) palette.push([0, 0, 0]);
+  // The transparent slot goes first so tRNS is a single byte.
+  const transparentIndex = opaque ? -1 : palette.length;
+  const indices = ditherToPalette(rgba, width, palette, transparentIndex);
+  const shift = opaque ? 0 : 1;
+  const samples = indices.map(i => (i === transparentIndex ? 0 : i + shift));
+  const entries = opaque ? palette : [[0, 0, 0], ...palette];
+  return {
+    layout: {
+      colorType: 3,
+      bitDepth: paletteBitDepth(entries.length),
+      palette: Uint8Array.from(entries.flat()),
+      trns: opaque ? undefined : new Uint8Array([0]),
+    },
+    samples,
+  };
+};
+
+/** Smallest grayscale bit depth that represents every (8-bit) gray level exactly. */
+const grayBitDepth = (pixels: Uint8Array): PngLayout['bitDepth'] => {
+  for (const depth of [1, 2, 4] as const) {
+    const step = 255 / ((1 << depth) - 1);
+    let fits = true;
+    for (let p = 0; p < pixels.length && fits; p += 4) fits = pixels[p] % step === 0;
+    if (fits) return depth;
+  }
+  return 8;
+};
+
+/** Truecolor or grayscale candidate, dropping channels the image does not use. */
+const directCandidate = (image: PngImage, pixels: Uint8Array | Uint16Array, opaque: boolean, gray: boolean): Candidate => {
+  const count = image.width * image.height;
+  const channels = gray ? (opaque ? 1 : 2) : opaque ? 3 : 4;
+  const colorType = gray ? (opaque ? 0 : 4) : opaque ? 2 : 6;
+  let bitDepth: PngLayout['bitDepth'] = image.depth;
+  let scale = 1;
+  if (colorType === 0 && pixels instanceof Uint8Array) {
+    bitDepth = grayBitDepth(pixels);
+    scale = 255 / ((1 << bitDepth) - 1);
+  }
+  const samples = pixels instanceof Uint16Array ? new Uint16Array(count * channels) : new Uint8Array(count * channels);
+  for (let i = 0; i < count; i++) {
+    const p = i * 4;
+    const s = i * channels;
+    if (gray) {
+      samples[s] = pixels[p] / scale;
+      if (!opaque) samples[s + 1] = pixels[p + 3];
+    } else {
+      samples[s] = pixels[p];
+      samples[s + 1] = pixels[p + 1];
+      samples[s + 2] = pixels[p + 2];
+      if (!opaque) samples[s + 3] = pixels[p + 3];
+    }
+  }
+  return { layout: { colorType, bitDepth }, samples };
+};
+
+/**
+ * Filters the candidate with every strategy, ranks them with the fast
+ * platform deflate, then recompresses the winner with the exhaustive encoder.
+ */
+const encodeCandidate = async (
+  image: PngImage,
+  candidate: Candidate,
+  ancillary: PngChunk[]
+): Promise<Uint8Array> => {
+  const { rows, rowBytes, bpp } = packScanlines(candidate.samples, image.width, image.height, candidate.layout);
+  let best: { filtered: Uint8Array; idat: Uint8Array } | null = null;
+  for (const strategy of FILTER_STRATEGIES) {
+    const filtered = filterScanlines(rows, image.height, rowBytes, bpp, strategy);
+    const idat = await zlibCompress(filtered);
+    if (!best || idat.length < best.idat.length) best = { filtered, idat };
+  }
+  let { idat } = best!;
+  if (best!.filtered.length <= MAX_CUSTOM_DEFLATE) {
+    const chain = best!.filtered.length <= 4 * 1024 * 1024 ? 256 : 64;
+    const custom = deflateZlib(best!.filtered, chain);
+    if (custom.length < idat.length) idat = custom;
+  }
+  return assemblePng(image.width, image.height, candidate.layout, idat, ancillary);
+};
+
+/**
+ * Re-encodes a PNG as small as possible: fewer channels when alpha or color
+ * is unused, palettes and lower bit depths where they are exact, the best row
+ * filters and an exhaustive deflate. With `options.lossy`, images with more
+ * colors than `options.colors` are also tried as a dithered palette.
+ *
+ * Text and other metadata chunks are dropped (the metadata policy re-adds what
+ * it keeps). The input, minus those chunks, is always a candidate, so the
+ * result is never larger.
+ */
+export const optimizePng = async (bytes: Uint8Array, options: PngOptions): Promise<Uint8Array> => {
+  let chunks: PngChunk[];
+  let image: PngImage;
+  try {
+    chunks = readPngChunks(bytes);
+    if (chunks.some(c => c.type === 'acTL')) return bytes;
+    image = await decodePng(bytes);
+  } catch {
+    return bytes;
+  }
+
+  const ancillary = chunks.filter(c => RENDERING_CHUNKS.includes(c.type));
+  let best = writePngChunks(chunks.filter(c => CRITICAL_CHUNKS.includes(c.type) || RENDERING_CHUNKS.includes(c.type)));
+
+  clearTransparentColor(image.pixels);
+  let pixels: Uint8Array | Uint16Array = image.pixels;
+  if (pixels instanceof Uint16Array) {
+    const reduced = reduceTo8Bit(pixels);
+    if (reduced) {
+      pixels = reduced;
+      image = { ...image, depth: 8, pixels };
+    }
+  }
+
+  const { opaque, binaryAlpha, gray } = analyse(pixels, image.depth === 16 ? 65535 : 255);
+  const candidates: Candidate[] = [directCandidate(image, pixels, opaque, gray)];
+  if (pixels instanceof Uint8Array) {
+    const colors = collectColors(pixels);
+    if (colors) candidates.push(paletteCandidate(pixels, colors));
+    if (options.lossy && binaryAlpha && (!colors || colors.size > options.colors)) {
+      candidates.push(quantizedCandidate(pixels, image.width, options.colors, opaque));
+    }
+  }
+
+  for (const candidate of candidates) {
+    const encoded = await encodeCandidate(image, candidate, ancillary);
+    if (encoded.length < best.length) best = encoded;
+  }
+  return best;
+};
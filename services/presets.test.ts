@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PRESET_SCHEMA_VERSION, PresetMigration, migratePresets, parsePresetFile, serializePresets } from './presets.ts';
+import { createDefaultSettings } from './settings.ts';
+import { Preset } from '../types.ts';
+
+const document = (version: unknown, presets: unknown) =>
+  JSON.stringify({ kind: 'pixelflex-presets', version, presets });
+
+// Default settings size the worker pool from the device; Node 20 has no navigator.
+vi.stubGlobal('navigator', { hardwareConcurrency: 4 });
+
+const { concurrency: _concurrency, ...settings } = createDefaultSettings();
+const preset: Preset = { id: 'p1', name: 'Web', settings: { ...settings, quality: 0.7 } };
+
+describe('parsePresetFile', () => {
+  it('reads back what serializePresets writes', () => {
+    expect(parsePresetFile(serializePresets([preset]))).toEqual([preset]);
+  });
+
+  it('rejects an unversioned preset array', () => {
+    expect(() => parsePresetFile(JSON.stringify([preset]))).toThrow('Not a PixelFlex preset file');
+  });
+
+  it('rejects versions before the first shipped format', () => {
+    expect(() => parsePresetFile(document(0, [preset]))).toThrow('Not a PixelFlex preset file');
+  });
+
+  it('rejects a file from a newer version', () => {
+    expect(() => parsePresetFile(document(PRESET_SCHEMA_VERSION + 1, [preset])))
+      .toThrow(`Preset file version ${PRESET_SCHEMA_VERSION + 1} is newer than this app supports`);
+  });
+
+  it('clamps out-of-range values and drops unnamed presets', () => {
+    const imported = parsePresetFile(document(PRESET_SCHEMA_VERSION, [
+      { name: '  Tiny  ', settings: { quality: 7, resize: { mode: 'width', width: -5 } } },
+      { name: '   ', settings: {} },
+    ]));
+    expect(imported).toHaveLength(1);
+    expect(imported[0].name).toBe('Tiny');
+    expect(imported[0].settings.quality).toBe(1);
+    expect(imported[0].settings.resize).toMatchObject({ mode: 'width', width: 1 });
+  });
+});
+
+describe('migratePresets', () => {
+  const rename = (from: string, to: string): PresetMigration => presets =>
+    presets.map(p => {
+      const { [from]: value, ...rest } = p as Record<string, unknown>;
+      return { ...rest, [to]: value };
+    });
+  const migrations = [rename('title', 'label'), rename('label', 'name')];
+
+  it('applies every migration from an older version in order', () => {
+    expect(migratePresets([{ title: 'Old' }], 1, migrations)).toEqual([{ name: 'Old' }]);
+  });
+
+  it('skips migrations the version already includes', () => {
+    expect(migratePresets([{ label: 'Newer' }], 2, migrations)).toEqual([{ name: 'Newer' }]);
+    expect(migratePresets([{ name: 'Current' }], 3, migrations)).toEqual([{ name: 'Current' }]);
+  });
+
+  it('leaves current-version presets untouched', () => {
+    const list = [{ name: 'Same' }];
+    expect(migratePresets(list, PRESET_SCHEMA_VERSION)).toBe(list);
+  });
+});
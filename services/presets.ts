@@ -0,0 +1,342 @@
+import {
+  AppMode,
+  BackgroundOptions,
+  FilterStep,
+  FormatRule,
+  GlobalSettings,
+  IconOptions,
+  ImageFormat,
+  MetadataPolicy,
+  NameConflictPolicy,
+  Preset,
+  PresetSettings,
+  ResponsiveOptions,
+  ResizeMode,
+  ResizeOptions,
+  SettingOverrides,
+  WatermarkOptions,
+} from '../types.ts';
+import { MAX_PAD_MARGIN } from './background.ts';
+import { FILTER_KINDS, FILTER_SPECS, MAX_FILTER_STEPS, createFilterStep } from './filters.ts';
+import { ICO_SIZES, PWA_SIZES } from './iconSet.ts';
+import { compactOverrides } from './overrides.ts';
+import { RESPONSIVE_FORMATS } from './responsive.ts';
+import { createDefaultSettings, modeDefaults } from './settings.ts';
+import { WATERMARK_ANCHORS } from './watermark.ts';
+
+const STORAGE_KEY = 'pixelflex_presets';
+const FILE_KIND = 'pixelflex-presets';
+
+
+const MAX_NAME_LENGTH = 60;
+
+const RESIZE_MODES: ResizeMode[] = ['scale', 'width', 'height', 'longEdge', 'fit', 'cover'];
+const METADATA_POLICIES: MetadataPolicy[] = ['strip', 'copyright', 'all'];
+const CONFLICT_POLICIES: NameConflictPolicy[] = ['overwrite', 'skip', 'rename'];
+const FORMATS = Object.values(ImageFormat);
+const TARGET_FORMATS: (ImageFormat | 'original')[] = ['original', ...FORMATS];
+
+export type PresetMigration = (presets: unknown[]) => unknown[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const record = (value: unknown): Record<string, unknown> => (isRecord(value) ? value : {});
+
+/**
+ * MIGRATIONS[v - 1] upgrades a preset list from version v to v + 1. Version 1
+ * is the first shipped format; a shape change appends a migration, which also
+ * bumps the schema version.
+ */
+const MIGRATIONS: PresetMigration[] = [];
+
+export const PRESET_SCHEMA_VERSION = MIGRATIONS.length + 1;
+
+/** Runs every migration from `version` on, bringing a preset list to the newest shape. */
+export const migratePresets = (
+  presets: unknown[],
+  version: number,
+  migrations: PresetMigration[] = MIGRATIONS
+): unknown[] => migrations.slice(version - 1).reduce((list, migrate) => migrate(list), presets);
+
+const oneOf = <T>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const numberIn = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const integerIn = (value: unknown, min: number, max: number, fallback: number): number =>
+  Math.round(numberIn(value, min, max, fallback));
+
+const bool = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const readResize = (value: unknown, fallback: ResizeOptions): ResizeOptions => {
+  const r = record(value);
+  return {
+    mode: oneOf(r.mode, RESIZE_MODES, fallback.mode),
+    scale: numberIn(r.scale, 0.01, 16, fallback.scale),
+    width: integerIn(r.width, 1, 65535, fallback.width),
+    height: integerIn(r.height, 1, 65535, fallback.height),
+    longEdge: integerIn(r.longEdge, 1, 65535, fallback.longEdge),
+    crop: oneOf(r.crop, ['center', 'smart'] as const, fallback.crop),
+    noUpscale: bool(r.noUpscale, fallback.noUpscale),
+  };
+};
+
+const readOverrides = (value: unknown, base: PresetSettings): SettingOverrides => {
+  const o = record(value);
+  return compactOverrides({
+    targetFormat: oneOf(o.targetFormat, TARGET_FORMATS, undefined),
+    quality: o.quality === undefined ? undefined : numberIn(o.quality, 0.01, 1, base.quality),
+    resize: o.resize === undefined ? undefined : readResize(o.resize, base.resize),
+  }) ?? {};
+};
+
+/** Rules with an unknown source are dropped; the first rule per source wins. */
+const readRules = (value: unknown, base: PresetSettings): FormatRule[] => {
+  if (!Array.isArray(value)) return base.rules;
+  const seen = new Set<ImageFormat>();
+  return value.flatMap(item => {
+    const rule = record(item);
+    const source = oneOf(rule.source, FORMATS, undefined);
+    if (!source || seen.has(source)) return [];
+    seen.add(source);
+    return [{
+      id: typeof rule.id === 'string' ? rule.id : newId(),
+      source,
+      overrides: readOverrides(rule.overrides, base),
+    }];
+  });
+};
+
+const text = (value: unknown, maxLength: number, fallback: string): string =>
+  typeof value === 'string' ? value.slice(0, maxLength) : fallback;
+
+const hexColor = (value: unknown, fallback: string): string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+
+/** Keeps the known sizes of a list, deduplicated; a non-list takes the fallback. */
+const sizeList = (value: unknown, allowed: number[], fallback: number[]): number[] =>
+  Array.isArray(value) ? allowed.filter(size => value.includes(size)) : fallback;
+
+const readIcons = (value: unknown, fallback: IconOptions): IconOptions => {
+  const i = record(value);
+  return {
+    icoSizes: sizeList(i.icoSizes, ICO_SIZES, fallback.icoSizes),
+    icoEncoding: oneOf(i.icoEncoding, ['png', 'bmp', 'auto'] as const, fallback.icoEncoding),
+    appleTouch: bool(i.appleTouch, fallback.appleTouch),
+    pwaSizes: sizeList(i.pwaSizes, PWA_SIZES, fallback.pwaSizes),
+    maskable: bool(i.maskable, fallback.maskable),
+    maskablePadding: numberIn(i.maskablePadding, 0, 0.3, fallback.maskablePadding),
+    background: hexColor(i.background, fallback.background),
+    themeColor: hexColor(i.themeColor, fallback.themeColor),
+    appName: text(i.appName, 100, fallback.appName),
+    shortName: text(i.shortName, 40, fallback.shortName),
+    basePath: text(i.basePath, 200, fallback.basePath),
+  };
+};
+
+/** Widths are deduplicated and sorted; unsupported formats are dropped. */
+const readResponsive = (value: unknown, fallback: ResponsiveOptions): ResponsiveOptions => {
+  const r = record(value);
+  const widths = Array.isArray(r.widths)
+    ? [...new Set(r.widths.filter((w): w is number => typeof w === 'number' && isFinite(w)).map(w => integerIn(w, 1, 16384, w)))]
+      .sort((a, b) => a - b)
+      .slice(0, 16)
+    : fallback.widths;
+  const formats = Array.isArray(r.formats)
+    ? [...new Set(r.formats.filter((f): f is ImageFormat => RESPONSIVE_FORMATS.includes(f as ImageFormat)))]
+    : fallback.formats;
+  return {
+    enabled: bool(r.enabled, fallback.enabled),
+    widths: widths.length > 0 ? widths : fallback.widths,
+    formats: formats.length > 0 ? formats : fallback.formats,
+    sizes: text(r.sizes, 200, fallback.sizes),
+  };
+};
+
+const readBackground = (value: unknown, fallback: BackgroundOptions): BackgroundOptions => {
+  const b = record(value);
+  return {
+    color: hexColor(b.color, fallback.color),
+    flatten: bool(b.flatten, fallback.flatten),
+    trim: bool(b.trim, fallback.trim),
+    trimTolerance: numberIn(b.trimTolerance, 0, 1, fallback.trimTolerance),
+    pad: oneOf(b.pad, ['none', 'canvas', 'aspect'] as const, fallback.pad),
+    padWidth: integerIn(b.padWidth, 1, 16384, fallback.padWidth),
+    padHeight: integerIn(b.padHeight, 1, 16384, fallback.padHeight),
+    padRatio: numberIn(b.padRatio, 0.1, 10, fallback.padRatio),
+    padMargin: numberIn(b.padMargin, 0, MAX_PAD_MARGIN, fallback.padMargin),
+  };
+};
+
+/** Unknown kinds are dropped; parameters are clamped to their kind's range. */
+const readFilters = (value: unknown): FilterStep[] => {
+  if (!Array.isArray(value)) return [];
+  return value.slice(0, MAX_FILTER_STEPS).flatMap(item => {
+    if (!isRecord(item) || !FILTER_KINDS.includes(item.kind as FilterStep['kind'])) return [];
+    const step = createFilterStep(item.kind as FilterStep['kind']);
+    const { amount, radius } = FILTER_SPECS[step.kind];
+    return [{
+      ...step,
+      enabled: bool(item.enabled, true),
+      amount: amount ? numberIn(item.amount, amount.min, amount.max, step.amount) : step.amount,
+      radius: radius ? numberIn(item.radius, radius.min, radius.max, step.radius) : step.radius,
+    }];
+  });
+};
+
+const readWatermark = (value: unknown, fallback: WatermarkOptions): WatermarkOptions => {
+  const w = record(value);
+  return {
+    enabled: bool(w.enabled, fallback.enabled),
+    kind: oneOf(w.kind, ['text', 'image'] as const, fallback.kind),
+    text: text(w.text, 200, fallback.text),
+    font: typeof w.font === 'string' && /^[\w\s,'"-]{1,64}$/.test(w.font) ? w.font : fallback.font,
+    bold: bool(w.bold, fallback.bold),
+    color: hexColor(w.color, fallback.color),
+    image: typeof w.image === 'string' && w.image.startsWith('data:image/') ? w.image : null,
+    size: numberIn(w.size, 0.01, 1, fallback.size),
+    opacity: numberIn(w.opacity, 0, 1, fallback.opacity),
+    rotation: numberIn(w.rotation, -180, 180, fallback.rotation),
+    placement: oneOf(w.placement, [...WATERMARK_ANCHORS, 'tile' as const], fallback.placement),
+    margin: numberIn(w.margin, 0, 0.5, fallback.margin),
+  };
+};
+
+/**
+ * Coerces untrusted settings into a valid `PresetSettings`. Out-of-range
+ * numbers are clamped; missing or malformed fields take the default.
+ */
+const readSettings = (value: unknown): PresetSettings => {
+  const s = record(value);
+  const mode = oneOf(s.mode, Object.values(AppMode), AppMode.CONVERT);
+  const { concurrency: _concurrency, ...base } = { ...createDefaultSettings(), ...modeDefaults(mode) };
+  const targetSize = isRecord(s.targetSize)
+    ? {
+        bytes: integerIn(s.targetSize.bytes, 1024, 1024 ** 3, 200 * 1024),
+        allowDownscale: bool(s.targetSize.allowDownscale, true),
+      }
+    : null;
+  const trace = record(s.trace);
+  const gif = record(s.gif);
+  const png = record(s.png);
+  const naming = record(s.naming);
+  return {
+    mode,
+    targetFormat: oneOf(s.targetFormat, TARGET_FORMATS, base.targetFormat),
+    quality: numberIn(s.quality, 0.01, 1, base.quality),
+    resize: readResize(s.resize, base.resize),
+    targetSize,
+    trace: {
+      colors: integerIn(trace.colors, 2, 64, base.trace.colors),
+      detail: numberIn(trace.detail, 0, 1, base.trace.detail),
+      smoothing: numberIn(trace.smoothing, 0, 1, base.trace.smoothing),
+    },
+    gif: {
+      colors: integerIn(gif.colors, 2, 256, base.gif.colors),
+      dither: bool(gif.dither, base.gif.dither),
+    },
+    metadata: oneOf(s.metadata, METADATA_POLICIES, base.metadata),
+    png: {
+      lossy: bool(png.lossy, base.png.lossy),
+      colors: integerIn(png.colors, 2, 256, base.png.colors),
+    },
+    rules: readRules(s.rules, base),
+    naming: {
+      template: typeof naming.template === 'string' && naming.template.trim()
+        ? naming.template.slice(0, 200)
+        : base.naming.template,
+      conflict: oneOf(naming.conflict, CONFLICT_POLICIES, base.naming.conflict),
+      layout: oneOf(naming.layout, ['mirror', 'flat'] as const, base.naming.layout),
+    },
+    watermark: readWatermark(s.watermark, base.watermark),
+    icons: readIcons(s.icons, base.icons),
+    responsive: readResponsive(s.responsive, base.responsive),
+    filters: readFilters(s.filters),
+    background: readBackground(s.background, base.background),
+  };
+};
+
+/** Settings saved with a cached session; the thread count stays the current device's. */
+export const restoreSettings = (value: unknown, concurrency: number): GlobalSettings =>
+  ({ ...readSettings(value), concurrency });
+
+/** A preset without a usable name is dropped rather than failing the whole file. */
+const readPreset = (value: unknown): Preset | null => {
+  if (!isRecord(value) || typeof value.name !== 'string') return null;
+  const name = value.name.trim().slice(0, MAX_NAME_LENGTH);
+  if (!name) return null;
+  return {
+    id: typeof value.id === 'string' ? value.id : newId(),
+    name,
+    settings: readSettings(value.settings),
+  };
+};
+
+/** Upgrades and validates a preset document. Throws when it is not one. */
+const readPresetDocument = (data: unknown): Preset[] => {
+  if (!isRecord(data) || data.kind !== FILE_KIND || typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('Not a PixelFlex preset file');
+  }
+  const { version, presets } = data;
+  if (version > PRESET_SCHEMA_VERSION) {
+    throw new Error(`Preset file version ${version} is newer than this app supports (${PRESET_SCHEMA_VERSION})`);
+  }
+  if (!Array.isArray(presets)) throw new Error('Preset list missing');
+
+  return migratePresets(presets, version).map(readPreset).filter((preset): preset is Preset => preset !== null);
+};
+
+export const serializePresets = (presets: Preset[]): string =>
+  JSON.stringify({ kind: FILE_KIND, version: PRESET_SCHEMA_VERSION, presets }, null, 2);
+
+export const parsePresetFile = (text: string): Preset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON');
+  }
+  return readPresetDocument(data);
+};
+
+/** Stored presets go through the same migration as imported files. */
+export const loadPresets = (): Preset[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return parsePresetFile(saved);
+  } catch {
+    return [];
+  }
+};
+
+/** Returns false when the browser refuses the write, usually because storage is full. */
+export const savePresets = (presets: Preset[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const createPreset = (name: string, settings: GlobalSettings): Preset => {
+  const { concurrency: _concurrency, ...rest } = settings;
+  return { id: newId(), name: name.trim().slice(0, MAX_NAME_LENGTH), settings: rest };
+};
+
+/** Incoming presets replace existing ones of the same name and keep their order otherwise. */
+export const mergePresets = (existing: Preset[], incoming: Preset[]): Preset[] => {
+  const byName = new Map(incoming.map(preset => [preset.name, preset]));
+  const merged = existing.map(preset => {
+    const replacement = byName.get(preset.name);
+    if (!replacement) return preset;
+    byName.delete(preset.name);
+    return { ...replacement, id: preset.id };
+  });
+  return [...merged, ...[...byName.values()].map(preset => ({ ...preset, id: newId() }))];
+};
@@ -0,0 +1,152 @@
+import type { RasterImage } from './rasterDecoders.ts';
+import { unpackBits } from './tiffDecoder.ts';
+import { zlibDecompress } from './zlib.ts';
+
+const HEADER_SIZE = 26;
+
+const MODE = { bitmap: 0, grayscale: 1, indexed: 2, rgb: 3, cmyk: 4, duotone: 8 };
+
+/** Channels that make up the colour of each supported mode; any next one may be transparency. */
+const COLOR_CHANNELS: Record<number, number> = { 0: 1, 1: 1, 2: 1, 3: 3, 4: 4, 8: 1 };
+
+const COMPRESSION = { raw: 0, rle: 1, zip: 2, zipPredicted: 3 };
+
+/** Covers both PSD (version 1) and the large-document PSB (version 2). */
+export const isPsd = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_SIZE && bytes[0] === 0x38 && bytes[1] === 0x42 && bytes[2] === 0x50 && bytes[3] === 0x53
+  && bytes[4] === 0 && (bytes[5] === 1 || bytes[5] === 2);
+
+/** Undoes ZIP-with-prediction row deltas, in place. 16-bit samples are big-endian. */
+const undoDelta = (data: Uint8Array, rows: number, width: number, depth: number) => {
+  const rowBytes = (width * depth) / 8;
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes;
+    if (depth === 16) {
+      for (let x = 1; x < width; x++) {
+        const at = row + x * 2;
+        const value = ((data[at] << 8) | data[at + 1]) + ((data[at - 2] << 8) | data[at - 1]);
+        data[at] = (value >> 8) & 0xff;
+        data[at + 1] = value & 0xff;
+      }
+    } else {
+      for (let x = 1; x < rowBytes; x++) data[row + x] = (data[row + x] + data[row + x - 1]) & 0xff;
+    }
+  }
+};
+
+/**
+ * Decodes the flattened composite Photoshop stores after the layers (saved
+ * with "Maximize compatibility"). Bitmap, grayscale, duotone (as grayscale),
+ * indexed, RGB and CMYK at 1, 8 or 16 bits are supported. When the document
+ * has transparency the composite was matted against white, which is undone.
+ */
+export const decodePsd = async (bytes: Uint8Array): Promise<RasterImage> => {
+  if (!isPsd(bytes)) throw new Error('Not a PSD file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const large = bytes[5] === 2;
+  const channels = view.getUint16(12);
+  const height = view.getUint32(14);
+  const width = view.getUint32(18);
+  const depth = view.getUint16(22);
+  const mode = view.getUint16(24);
+  const colorChannels = COLOR_CHANNELS[mode];
+  if (colorChannels === undefined || channels < colorChannels) throw new Error(`Unsupported PSD color mode ${mode}`);
+  if (depth !== 1 && depth !== 8 && depth !== 16) throw new Error(`Unsupported PSD bit depth ${depth}`);
+  if (width < 1 || height < 1) throw new Error('Invalid PSD dimensions');
+
+  const u64 = (at: number) => view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+  let pos = HEADER_SIZE;
+  const colorData = bytes.subarray(pos + 4, pos + 4 + view.getUint32(pos));
+  pos += 4 + colorData.length;
+  pos += 4 + view.getUint32(pos);
+
+  // A negative layer count means the first extra channel is the composite's transparency.
+  const layersLength = large ? u64(pos) : view.getUint32(pos);
+  const layersStart = pos + (large ? 8 : 4);
+  let transparent = false;
+  if (layersLength >= (large ? 10 : 6)) {
+    const infoLength = large ? u64(layersStart) : view.getUint32(layersStart);
+    if (infoLength >= 2) transparent = view.getInt16(layersStart + (large ? 8 : 4)) < 0;
+  }
+  pos = layersStart + layersLength;
+  if (pos + 2 > bytes.length) throw new Error('PSD has no composite image');
+
+  const compression = view.getUint16(pos);
+  pos += 2;
+  const rowBytes = Math.ceil((width * depth) / 8);
+  const planeSize = rowBytes * height;
+  // Only the channels the composite needs are read.
+  const used = Math.min(channels, colorChannels + (transparent ? 1 : 0));
+  let planes: Uint8Array[];
+  if (compression === COMPRESSION.raw) {
+    planes = Array.from({ length: used }, (_, c) => bytes.subarray(pos + c * planeSize, pos + (c + 1) * planeSize));
+  } else if (compression === COMPRESSION.rle) {
+    const countSize = large ? 4 : 2;
+    const rows = channels * height;
+    let data = pos + rows * countSize;
+    planes = [];
+    for (let c = 0; c < used; c++) {
+      const plane = new Uint8Array(planeSize);
+      for (let y = 0; y < height; y++) {
+        const index = pos + (c * height + y) * countSize;
+        const length = large ? view.getUint32(index) : view.getUint16(index);
+        plane.set(unpackBits(bytes.subarray(data, data + length), rowBytes), y * rowBytes);
+        data += length;
+      }
+      planes.push(plane);
+    }
+  } else if (compression === COMPRESSION.zip || compression === COMPRESSION.zipPredicted) {
+    const all = await zlibDecompress(bytes.subarray(pos));
+    planes = Array.from({ length: used }, (_, c) => all.subarray(c * planeSize, (c + 1) * planeSize));
+    if (compression === COMPRESSION.zipPredicted) planes.forEach(plane => undoDelta(plane, height, width, depth));
+  } else {
+    throw new Error(`Unsupported PSD compression ${compression}`);
+  }
+
+  const sample = (plane: Uint8Array, x: number, y: number): number => {
+    if (depth === 8) return plane[y * rowBytes + x];
+    if (depth === 16) return plane[y * rowBytes + x * 2];
+    // Bitmap mode: set bits are black.
+    return (plane[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1 ? 0 : 255;
+  };
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p += 4) {
+      let r: number;
+      let g: number;
+      let b: number;
+      if (mode === MODE.rgb) {
+        r = sample(planes[0], x, y);
+        g = sample(planes[1], x, y);
+        b = sample(planes[2], x, y);
+      } else if (mode === MODE.cmyk) {
+        // Stored inverted: 255 is no ink.
+        const k = sample(planes[3], x, y);
+        r = (sample(planes[0], x, y) * k) / 255;
+        g = (sample(planes[1], x, y) * k) / 255;
+        b = (sample(planes[2], x, y) * k) / 255;
+      } else if (mode === MODE.indexed) {
+        const i = sample(planes[0], x, y);
+        r = colorData[i];
+        g = colorData[256 + i];
+        b = colorData[512 + i];
+      } else {
+        r = g = b = sample(planes[0], x, y);
+      }
+      const a = used > colorChannels ? sample(planes[colorChannels], x, y) : 255;
+      if (a < 255) {
+        const matte = 255 - a;
+        const scale = a > 0 ? 255 / a : 0;
+        r = (r - matte) * scale;
+        g = (g - matte) * scale;
+        b = (b - matte) * scale;
+      }
+      data[p] = r;
+      data[p + 1] = g;
+      data[p + 2] = b;
+      data[p + 3] = a;
+    }
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,122 @@
+import { QualityMetrics } from '../types.ts';
+import { createCanvas, getContext2D } from './canvas.ts';
+
+/** Long edge both images are compared at; keeps the SSIM pass fast on large photos. */
+const ANALYSIS_EDGE = 1024;
+/** SSIM window size and stride, in analysis pixels. */
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/** Below either threshold a result is flagged as visibly degraded. */
+export const POOR_PSNR = 30;
+export const POOR_SSIM = 0.9;
+
+export const isPoorQuality = (metrics: QualityMetrics) =>
+  metrics.psnr < POOR_PSNR || metrics.ssim < POOR_SSIM;
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image decoding failed'));
+    img.src = url;
+  });
+
+/** Blobs are loaded through a temporary object URL; the decoded image outlives it. */
+const loadSource = async (source: string | Blob): Promise<HTMLImageElement> => {
+  if (typeof source === 'string') return loadImage(source);
+  const url = URL.createObjectURL(source);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Pixels flattened onto `background`, as JPEG output is, at the given size. */
+const rasterize = (img: HTMLImageElement, width: number, height: number, background: string) => {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const toLuma = (data: Uint8ClampedArray) => {
+  const luma = new Float32Array(data.length >> 2);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+};
+
+/** Mean SSIM over sliding windows of the luma channel. */
+const ssim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  const n = SSIM_WINDOW * SSIM_WINDOW;
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_STRIDE) {
+    for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_STRIDE) {
+      let sa = 0, sb = 0, saa = 0, sbb = 0, sab = 0;
+      for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+        const row = (y + wy) * width + x;
+        for (let wx = 0; wx < SSIM_WINDOW; wx++) {
+          const va = a[row + wx];
+          const vb = b[row + wx];
+          sa += va;
+          sb += vb;
+          saa += va * va;
+          sbb += vb * vb;
+          sab += va * vb;
+        }
+      }
+      const ma = sa / n;
+      const mb = sb / n;
+      const va = saa / n - ma * ma;
+      const vb = sbb / n - mb * mb;
+      const cov = sab / n - ma * mb;
+      total += ((2 * ma * mb + C1) * (2 * cov + C2)) / ((ma * ma + mb * mb + C1) * (va + vb + C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+};
+
+/**
+ * PSNR (over RGB) and SSIM (over luma) between the original and the result,
+ * both scaled to the result's aspect at most ANALYSIS_EDGE pixels long.
+ * Returns null when the result was cropped to a different aspect ratio, since
+ * the two images no longer line up.
+ */
+export const measureQuality = async (
+  original: string | Blob,
+  resultUrl: string,
+  background = '#FFFFFF'
+): Promise<QualityMetrics | null> => {
+  const [source, result] = await Promise.all([loadSource(original), loadImage(resultUrl)]);
+  const aspectA = source.naturalWidth / source.naturalHeight;
+  const aspectB = result.naturalWidth / result.naturalHeight;
+  if (!isFinite(aspectA) || !isFinite(aspectB) || Math.abs(aspectA / aspectB - 1) > 0.01) return null;
+
+  const ratio = Math.min(1, ANALYSIS_EDGE / Math.max(result.naturalWidth, result.naturalHeight));
+  const width = Math.max(1, Math.round(result.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(result.naturalHeight * ratio));
+  const a = rasterize(source, width, height, background);
+  const b = rasterize(result, width, height, background);
+
+  let squared = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = a[i + c] - b[i + c];
+      squared += d * d;
+    }
+  }
+  const mse = squared / (width * height * 3);
+  const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+  return { psnr, ssim: ssim(toLuma(a), toLuma(b), width, height) };
+};
+
+export const formatPsnr = (psnr: number) => (isFinite(psnr) ? `${psnr.toFixed(1)} dB` : '∞');
@@ -0,0 +1,207 @@
+export type Color = [number, number, number];
+
+/** Pixels with alpha below this are treated as fully transparent. */
+export const ALPHA_THRESHOLD = 128;
+
+const BITS = 5;
+const SHIFT = 8 - BITS;
+const SIDE = 1 << BITS;
+
+const binIndex = (r: number, g: number, b: number): number =>
+  ((r >> SHIFT) << (BITS * 2)) | ((g >> SHIFT) << BITS) | (b >> SHIFT);
+
+interface Box {
+  bins: number[];
+  count: number;
+}
+
+/**
+ * Deterministic median-cut palette builder. Colors are bucketed into a 15-bit
+ * histogram first, so the result depends only on pixel content.
+ */
+export const buildPalette = (data: Uint8ClampedArray, maxColors: number): Color[] => {
+  const counts = new Uint32Array(SIDE * SIDE * SIDE);
+  const sums = new Float64Array(counts.length * 3);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < ALPHA_THRESHOLD) continue;
+    const bin = binIndex(data[i], data[i + 1], data[i + 2]);
+    counts[bin]++;
+    sums[bin * 3] += data[i];
+    sums[bin * 3 + 1] += data[i + 1];
+    sums[bin * 3 + 2] += data[i + 2];
+  }
+
+  const used: number[] = [];
+  let total = 0;
+  for (let bin = 0; bin < counts.length; bin++) {
+    if (counts[bin] > 0) {
+      used.push(bin);
+      total += counts[bin];
+    }
+  }
+  if (used.length === 0) return [];
+
+  const channel = (bin: number, c: number) => (bin >> (BITS * (2 - c))) & (SIDE - 1);
+  const boxes: Box[] = [{ bins: used, count: total }];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest weighted channel range.
+    let target = -1;
+    let targetChannel = 0;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      if (box.bins.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = SIDE;
+        let max = -1;
+        for (const bin of box.bins) {
+          const v = channel(bin, c);
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        const score = (max - min) * Math.sqrt(box.count);
+        if (score > bestScore) {
+          bestScore = score;
+          target = index;
+          targetChannel = c;
+        }
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const sorted = [...box.bins].sort((a, b) =>
+      channel(a, targetChannel) - channel(b, targetChannel) || a - b
+    );
+    let acc = 0;
+    let cut = sorted.length - 1;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      acc += counts[sorted[i]];
+      if (acc >= box.count / 2) {
+        cut = i + 1;
+        break;
+      }
+    }
+    const left = sorted.slice(0, cut);
+    const right = sorted.slice(cut);
+    const leftCount = left.reduce((sum, bin) => sum + counts[bin], 0);
+    boxes.splice(target, 1,
+      { bins: left, count: leftCount },
+      { bins: right, count: box.count - leftCount }
+    );
+  }
+
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0;
+    for (const bin of box.bins) {
+      r += sums[bin * 3];
+      g += sums[bin * 3 + 1];
+      b += sums[bin * 3 + 2];
+    }
+    return [
+      Math.round(r / box.count),
+      Math.round(g / box.count),
+      Math.round(b / box.count),
+    ] as Color;
+  });
+};
+
+export const nearestColor = (palette: Color[], r: number, g: number, b: number): number => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const [pr, pg, pb] = palette[i];
+    const dist = (pr - r) * (pr - r) + (pg - g) * (pg - g) + (pb - b) * (pb - b);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+};
+
+/**
+ * Nearest-color lookup memoized per 15-bit histogram bin.
+ */
+const createNearestLookup = (palette: Color[]) => {
+  const cache = new Int16Array(SIDE * SIDE * SIDE).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const bin = binIndex(r, g, b);
+    if (cache[bin] < 0) cache[bin] = nearestColor(palette, r, g, b);
+    return cache[bin];
+  };
+};
+
+/**
+ * Maps every pixel to its nearest palette entry. Transparent pixels receive
+ * `transparentIndex`, which defaults to `palette.length`.
+ */
+export const mapToPalette = (
+  data: Uint8ClampedArray,
+  palette: Color[],
+  transparentIndex: number = palette.length
+): Uint8Array => {
+  const indices = new Uint8Array(data.length / 4);
+  const lookup = createNearestLookup(palette);
+  for (let p = 0, i = 0; i < data.length; p++, i += 4) {
+    indices[p] = data[i + 3] < ALPHA_THRESHOLD
+      ? transparentIndex
+      : lookup(data[i], data[i + 1], data[i + 2]);
+  }
+  return indices;
+};
+
+/**
+ * Floyd-Steinberg variant of `mapToPalette`. Error is only diffused between
+ * opaque pixels so transparent areas do not bleed into edges.
+ */
+export const ditherToPalette = (
+  data: Uint8ClampedArray,
+  width: number,
+  palette: Color[],
+  transparentIndex: number = palette.length
+): Uint8Array => {
+  const pixelCount = data.length / 4;
+  const height = pixelCount / width;
+  const indices = new Uint8Array(pixelCount);
+  const lookup = createNearestLookup(palette);
+  const work = new Float32Array(pixelCount * 3);
+  for (let p = 0; p < pixelCount; p++) {
+    work[p * 3] = data[p * 4];
+    work[p * 3 + 1] = data[p * 4 + 1];
+    work[p * 3 + 2] = data[p * 4 + 2];
+  }
+  const opaque = (p: number) => data[p * 4 + 3] >= ALPHA_THRESHOLD;
+  const spread = (p: number, er: number, eg: number, eb: number, weight: number) => {
+    if (!opaque(p)) return;
+    work[p * 3] += er * weight;
+    work[p * 3 + 1] += eg * weight;
+    work[p * 3 + 2] += eb * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (!opaque(p)) {
+        indices[p] = transparentIndex;
+        continue;
+      }
+      const r = Math.max(0, Math.min(255, Math.round(work[p * 3])));
+      const g = Math.max(0, Math.min(255, Math.round(work[p * 3 + 1])));
+      const b = Math.max(0, Math.min(255, Math.round(work[p * 3 + 2])));
+      const index = lookup(r, g, b);
+      indices[p] = index;
+      const [pr, pg, pb] = palette[index];
+      const er = r - pr;
+      const eg = g - pg;
+      const eb = b - pb;
+      if (x + 1 < width) spread(p + 1, er, eg, eb, 7 / 16);
+      if (y + 1 < height) {
+        if (x > 0) spread(p + width - 1, er, eg, eb, 3 / 16);
+        spread(p + width, er, eg, eb, 5 / 16);
+        if (x + 1 < width) spread(p + width + 1, er, eg, eb, 1 / 16);
+      }
+    }
+  }
+  return indices;
+};
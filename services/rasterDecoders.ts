@@ -0,0 +1,121 @@
+import { ImageFormat, RasterPage } from '../types.ts';
+import { AnyCanvas, canvasToBlob, createCanvas, getContext2D } from './canvas.ts';
+import { DecodeImage, DecodedImage, applyOrientation } from './orientation.ts';
+import { isGif } from './gifDecoder.ts';
+import { isWebp } from './webpContainer.ts';
+import { decodeTiff, isTiff, parseTiffPages } from './tiffDecoder.ts';
+import { decodeBmp, isBmp } from './bmpDecoder.ts';
+import { decodeIco, defaultIcoPage, isIco, parseIcoPages } from './icoDecoder.ts';
+import { decodePsd, isPsd } from './psdDecoder.ts';
+
+/** Straight-alpha RGBA pixels produced by one of the TypeScript decoders. */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  /** EXIF-style orientation the pixels are stored in; 1 when upright. */
+  orientation?: number;
+}
+
+interface RasterDecoder {
+  /** MIME type sniffed inputs are tagged with. */
+  type: string;
+  extensions: string[];
+  sniff: (bytes: Uint8Array) => boolean;
+  /** Pages or entries to pick from; formats without one hold a single image. */
+  pages?: (bytes: Uint8Array) => RasterPage[];
+  defaultPage?: (pages: RasterPage[]) => number;
+  decode: (bytes: Uint8Array, page: number) => Promise<RasterImage>;
+}
+
+/**
+ * Formats decoded in TypeScript instead of by the browser, which either
+ * cannot read them at all or picks the icon entry and ignores the rest.
+ */
+const RASTER_DECODERS: RasterDecoder[] = [
+  { type: 'image/tiff', extensions: ['tif', 'tiff'], sniff: isTiff, pages: parseTiffPages, decode: decodeTiff },
+  { type: 'image/bmp', extensions: ['bmp', 'dib'], sniff: isBmp, decode: decodeBmp },
+  {
+    type: 'image/x-icon',
+    extensions: ['ico', 'cur'],
+    sniff: isIco,
+    pages: parseIcoPages,
+    defaultPage: defaultIcoPage,
+    decode: decodeIco,
+  },
+  { type: 'image/vnd.adobe.photoshop', extensions: ['psd', 'psb'], sniff: isPsd, decode: decodePsd },
+];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+/** Signatures of the formats the browser decodes itself. SVG is text and is left to its MIME type. */
+const NATIVE_SIGNATURES: [string, (bytes: Uint8Array) => boolean][] = [
+  [ImageFormat.PNG, bytes => bytes[0] === 0x89 && ascii(bytes, 1, 4) === 'PNG'],
+  [ImageFormat.JPEG, bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff],
+  [ImageFormat.GIF, isGif],
+  [ImageFormat.WEBP, isWebp],
+  ['image/avif', bytes => ascii(bytes, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(bytes, 8, 12))],
+];
+
+/** Enough leading bytes for every signature check. */
+export const SNIFF_LENGTH = 32;
+
+export const RASTER_EXTENSIONS = RASTER_DECODERS.flatMap(decoder => decoder.extensions);
+
+/** MIME type from the leading bytes of a file, or null when no known signature matches. */
+export const sniffImageType = (bytes: Uint8Array): string | null =>
+  NATIVE_SIGNATURES.find(([, sniff]) => sniff(bytes))?.[0]
+  ?? RASTER_DECODERS.find(decoder => decoder.sniff(bytes))?.type
+  ?? null;
+
+const decoderFor = (type: string) => RASTER_DECODERS.find(decoder => decoder.type === type);
+
+/** Whether inputs of this MIME type are decoded in TypeScript. */
+export const isRasterType = (type: string): boolean => !!decoderFor(type);
+
+const readPages = (decoder: RasterDecoder, bytes: Uint8Array) => {
+  const pages = decoder.pages?.(bytes);
+  return { pages, page: pages && decoder.defaultPage ? decoder.defaultPage(pages) : 0 };
+};
+
+/** Pixels on a canvas, turned upright when the format stores an orientation. */
+const rasterCanvas = ({ width, height, data, orientation = 1 }: RasterImage): AnyCanvas => {
+  const canvas = createCanvas(width, height);
+  getContext2D(canvas).putImageData(new ImageData(data, width, height), 0, 0);
+  return orientation > 1 && orientation <= 8 ? applyOrientation(canvas, width, height, orientation) : canvas;
+};
+
+const decodeRasterCanvas = async (file: Blob, decoder: RasterDecoder, page?: number) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const probed = readPages(decoder, bytes);
+  const chosen = page ?? probed.page;
+  const canvas = rasterCanvas(await decoder.decode(bytes, chosen));
+  return { canvas, pages: probed.pages, page: chosen };
+};
+
+/**
+ * Decodes registry formats in TypeScript and everything else with `decode`.
+ * `page` picks a TIFF page or icon entry; the default is the first page or
+ * the largest entry.
+ */
+export const decodeInput = async (file: File, decode: DecodeImage, page?: number): Promise<DecodedImage> => {
+  const decoder = decoderFor(file.type);
+  if (!decoder) return decode(file);
+  const { canvas } = await decodeRasterCanvas(file, decoder, page);
+  return { source: canvas, width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Full-size PNG stand-in for an input the browser cannot display, plus its
+ * pages. Single-image formats list their one image.
+ */
+export const createRasterPreview = async (file: File, page?: number) => {
+  const decoder = decoderFor(file.type);
+  if (!decoder) throw new Error(`No decoder for ${file.type}`);
+  const { canvas, pages, page: chosen } = await decodeRasterCanvas(file, decoder, page);
+  return {
+    blob: await canvasToBlob(canvas, ImageFormat.PNG, 1),
+    pages: pages ?? [{ width: canvas.width, height: canvas.height }],
+    page: chosen,
+  };
+};
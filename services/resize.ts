@@ -0,0 +1,163 @@
+import { ResizeOptions } from '../types.ts';
+import { createCanvas, getContext2D } from './canvas.ts';
+
+/**
+ * Output size plus the source rectangle to draw into it. The source rectangle
+ * only differs from the full image for cover crops.
+ */
+export interface ResizeGeometry {
+  width: number;
+  height: number;
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+export const DEFAULT_RESIZE_OPTIONS: ResizeOptions = {
+  mode: 'scale',
+  scale: 1,
+  width: 1200,
+  height: 1200,
+  longEdge: 2048,
+  crop: 'center',
+  noUpscale: false,
+};
+
+/** Long edge of the thumbnail analysed for smart crops. */
+const SMART_CROP_SAMPLE = 96;
+
+const clampFactor = (factor: number, resize: ResizeOptions) =>
+  resize.noUpscale ? Math.min(1, factor) : factor;
+
+/**
+ * Resolves the resize settings against a source size. `focus` supplies the
+ * crop origin for cover mode as fractions of the free travel along each axis;
+ * it defaults to the center.
+ */
+export const computeResizeGeometry = (
+  sourceWidth: number,
+  sourceHeight: number,
+  resize: ResizeOptions,
+  focus: { x: number; y: number } = { x: 0.5, y: 0.5 }
+): ResizeGeometry => {
+  const full = { sx: 0, sy: 0, sw: sourceWidth, sh: sourceHeight };
+  const scaled = (factor: number): ResizeGeometry => {
+    const k = clampFactor(factor, resize);
+    return {
+      ...full,
+      width: Math.max(1, Math.round(sourceWidth * k)),
+      height: Math.max(1, Math.round(sourceHeight * k)),
+    };
+  };
+
+  switch (resize.mode) {
+    case 'width':
+      return scaled(resize.width / sourceWidth);
+    case 'height':
+      return scaled(resize.height / sourceHeight);
+    case 'longEdge':
+      return scaled(resize.longEdge / Math.max(sourceWidth, sourceHeight));
+    case 'fit':
+      return scaled(Math.min(resize.width / sourceWidth, resize.height / sourceHeight));
+    case 'cover': {
+      const desired = Math.max(resize.width / sourceWidth, resize.height / sourceHeight);
+      const k = clampFactor(desired, resize);
+      // When upscaling is blocked, shrink the box but keep its aspect ratio.
+      const width = Math.max(1, Math.round(resize.width * k / desired));
+      const height = Math.max(1, Math.round(resize.height * k / desired));
+      const sw = Math.min(sourceWidth, width / k);
+      const sh = Math.min(sourceHeight, height / k);
+      return {
+        width,
+        height,
+        sx: (sourceWidth - sw) * focus.x,
+        sy: (sourceHeight - sh) * focus.y,
+        sw,
+        sh,
+      };
+    }
+    case 'scale':
+    default:
+      return scaled(resize.scale);
+  }
+};
+
+/**
+ * Picks a cover-crop focus by sliding the crop window over a gradient-energy
+ * map of a small thumbnail and keeping the busiest position, with a mild bias
+ * towards the center to break ties on flat images.
+ */
+export const findSmartCropFocus = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  resize: ResizeOptions
+): { x: number; y: number } => {
+  const centered = computeResizeGeometry(sourceWidth, sourceHeight, resize);
+  const freeX = sourceWidth - centered.sw;
+  const freeY = sourceHeight - centered.sh;
+  if (freeX < 1 && freeY < 1) return { x: 0.5, y: 0.5 };
+
+  const ratio = SMART_CROP_SAMPLE / Math.max(sourceWidth, sourceHeight);
+  const w = Math.max(1, Math.round(sourceWidth * ratio));
+  const h = Math.max(1, Math.round(sourceHeight * ratio));
+  const canvas = createCanvas(w, h);
+  const ctx = getContext2D(canvas);
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const luma = new Float32Array(w * h);
+  for (let p = 0; p < w * h; p++) {
+    luma[p] = (0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2]) * (data[p * 4 + 3] / 255);
+  }
+  const energy = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const p = y * w + x;
+      energy[p] = Math.abs(luma[p + 1] - luma[p - 1]) + Math.abs(luma[p + w] - luma[p - w]);
+    }
+  }
+
+  // Slide along the single free axis (cover crops only trim one dimension).
+  const horizontal = freeX >= freeY;
+  const span = horizontal ? w : h;
+  const windowSize = Math.max(1, Math.round((horizontal ? centered.sw / sourceWidth : centered.sh / sourceHeight) * span));
+  const lineEnergy = new Float32Array(span);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      lineEnergy[horizontal ? x : y] += energy[y * w + x];
+    }
+  }
+
+  let windowSum = 0;
+  for (let i = 0; i < windowSize; i++) windowSum += lineEnergy[i];
+  const travel = span - windowSize;
+  let best = travel / 2;
+  let bestScore = -Infinity;
+  for (let start = 0; start <= travel; start++) {
+    if (start > 0) windowSum += lineEnergy[start + windowSize - 1] - lineEnergy[start - 1];
+    const offCenter = travel > 0 ? Math.abs(start / travel - 0.5) : 0;
+    const score = windowSum * (1 - 0.2 * offCenter);
+    if (score > bestScore) {
+      bestScore = score;
+      best = start;
+    }
+  }
+
+  const position = travel > 0 ? best / travel : 0.5;
+  return horizontal ? { x: position, y: 0.5 } : { x: 0.5, y: position };
+};
+
+/** Geometry for a concrete source, running smart-crop analysis when requested. */
+export const resolveResize = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  resize: ResizeOptions
+): ResizeGeometry => {
+  const focus = resize.mode === 'cover' && resize.crop === 'smart'
+    ? findSmartCropFocus(source, sourceWidth, sourceHeight, resize)
+    : undefined;
+  return computeResizeGeometry(sourceWidth, sourceHeight, resize, focus);
+};
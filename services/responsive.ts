@@ -0,0 +1,111 @@
+import { ConversionOptions, ConversionResult, ImageFormat, ResponsiveOptions, ResponsiveVariant } from '../types.ts';
+import { Converter } from './workerPool.ts';
+
+export const RESPONSIVE_FORMATS = [ImageFormat.WEBP, ImageFormat.JPEG, ImageFormat.PNG];
+
+export const DEFAULT_RESPONSIVE: ResponsiveOptions = {
+  enabled: false,
+  widths: [320, 640, 1024, 1920],
+  formats: [ImageFormat.WEBP, ImageFormat.JPEG],
+  sizes: '100vw',
+};
+
+const FALLBACK_FORMATS = [ImageFormat.JPEG, ImageFormat.PNG];
+
+/**
+ * Converts one file at every breakpoint and format. Breakpoints wider than
+ * the source all come out at the source width, so those duplicates are
+ * dropped. The main result is the widest variant of the first format; the
+ * object URLs of all other variants are released right away.
+ */
+export const convertResponsive = async (
+  convert: Converter['convert'],
+  file: File,
+  base: ConversionOptions,
+  options: ResponsiveOptions,
+  signal?: AbortSignal
+): Promise<{ main: ConversionResult; variants: ResponsiveVariant[] }> => {
+  const widths = [...new Set(options.widths.filter(width => width > 0))].sort((a, b) => a - b);
+  if (widths.length === 0 || options.formats.length === 0) throw new Error('No responsive widths or formats selected');
+
+  const variants: ResponsiveVariant[] = [];
+  let main: ConversionResult | null = null;
+  for (const format of options.formats) {
+    const seen = new Set<number>();
+    for (const width of widths) {
+      const result = await convert(file, {
+        ...base,
+        targetFormat: format,
+        resize: { ...base.resize, mode: 'width', width, noUpscale: true },
+      }, signal).catch(err => {
+        if (main) URL.revokeObjectURL(main.url);
+        throw err;
+      });
+      const isMain = format === options.formats[0] && !seen.has(result.width);
+      if (isMain) {
+        if (main) URL.revokeObjectURL(main.url);
+        main = result;
+      } else {
+        URL.revokeObjectURL(result.url);
+      }
+      if (seen.has(result.width)) continue;
+      seen.add(result.width);
+      // Encoders without WebP support hand back PNG; label the variant by what it is.
+      variants.push({ width: result.width, height: result.height, format: result.blob.type as ImageFormat, blob: result.blob });
+    }
+  }
+  return { main: main!, variants };
+};
+
+/** A responsive set as exported: each variant with the path it was written to. */
+export interface ResponsiveSet {
+  /** Input base name, used as placeholder alt text. */
+  name: string;
+  variants: { path: string; width: number; height: number; format: ImageFormat; bytes: number }[];
+}
+
+/** Paths may contain spaces and commas, which would split a srcset candidate. */
+const toUrl = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * `<picture>` markup with one `<source>` per modern format and an `<img>` in
+ * the first JPEG/PNG format (or the last format when neither was rendered).
+ * `width`/`height` come from the widest fallback so the browser can reserve
+ * the layout box before loading.
+ */
+export const buildPictureHtml = (set: ResponsiveSet, sizes: string): string => {
+  const formats = [...new Set(set.variants.map(variant => variant.format))];
+  const fallback = formats.find(format => FALLBACK_FORMATS.includes(format)) ?? formats[formats.length - 1];
+  const byFormat = (format: ImageFormat) =>
+    set.variants.filter(variant => variant.format === format).sort((a, b) => a.width - b.width);
+  const srcset = (format: ImageFormat) =>
+    byFormat(format).map(variant => `${toUrl(variant.path)} ${variant.width}w`).join(', ');
+  const sizesAttribute = escapeAttribute(sizes);
+
+  const lines = ['<picture>'];
+  for (const format of formats) {
+    if (format === fallback) continue;
+    lines.push(`  <source type="${format}" srcset="${escapeAttribute(srcset(format))}" sizes="${sizesAttribute}">`);
+  }
+  const fallbacks = byFormat(fallback);
+  const widest = fallbacks[fallbacks.length - 1];
+  lines.push(
+    `  <img src="${escapeAttribute(toUrl(widest.path))}" srcset="${escapeAttribute(srcset(fallback))}" sizes="${sizesAttribute}"`
+    + ` width="${widest.width}" height="${widest.height}" alt="${escapeAttribute(set.name)}" loading="lazy" decoding="async">`
+  );
+  lines.push('</picture>');
+  return lines.join('\n');
+};
+
+/** Machine-readable index of every set, for build tools and CMS imports. */
+export const buildResponsiveManifest = (sets: ResponsiveSet[], sizes: string): string =>
+  JSON.stringify({
+    sizes,
+    images: sets.map(set => ({
+      name: set.name,
+      variants: set.variants.map(({ path, width, height, format, bytes }) => ({ path, width, height, format, bytes })),
+    })),
+  }, null, 2);
@@ -0,0 +1,287 @@
+import {
+  AnimationInfo,
+  ConversionStatus,
+  ImageFile,
+  ImageFingerprint,
+  ImageFormat,
+  ImageTransform,
+  OutputFile,
+  QualityMetrics,
+  ResponsiveVariant,
+  SettingOverrides,
+  TargetSizeReport,
+} from '../types.ts';
+
+const DB_NAME = 'pixelflex_session';
+const DB_VERSION = 1;
+const IMAGES = 'images';
+/** Source files and result blobs, kept apart so status updates never copy them again. */
+const BLOBS = 'blobs';
+const META = 'meta';
+
+/** Details of a completed result; its blobs are in the matching `StoredBlobs`. */
+interface StoredResult {
+  size?: number;
+  width?: number;
+  height?: number;
+  quality?: number;
+  targetSizeReport?: TargetSizeReport;
+  html?: string;
+  metrics?: QualityMetrics;
+  metricsFailed?: boolean;
+  elapsed?: number;
+}
+
+interface StoredImage {
+  id: string;
+  relativePath?: string;
+  archive?: string;
+  format: ImageFormat;
+  status: ConversionStatus;
+  animation?: AnimationInfo;
+  overrides?: SettingOverrides;
+  transform?: ImageTransform;
+  fingerprint?: ImageFingerprint;
+  /** The page list is not stored; the preview is rebuilt from the file on restore. */
+  page?: number;
+  error?: string;
+  result?: StoredResult;
+}
+
+/** Written only when the source file or the result changes. The main result blob replaces the object URL. */
+interface StoredBlobs {
+  id: string;
+  file: File;
+  result?: {
+    blob: Blob;
+    frames?: Blob[];
+    files?: OutputFile[];
+    variants?: ResponsiveVariant[];
+  };
+}
+
+export interface RestoredSession {
+  images: ImageFile[];
+  /** Raw stored settings; validate before use, they may predate the current schema. */
+  settings: unknown;
+  /** A batch was still running when the page went away. */
+  interrupted: boolean;
+}
+
+export const supportsSessionStore = (): boolean => typeof indexedDB !== 'undefined';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    };
+    database = promisify(request);
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const toStored = (img: ImageFile): StoredImage => {
+  const stored: StoredImage = {
+    id: img.id,
+    relativePath: img.relativePath,
+    archive: img.archive,
+    format: img.format,
+    status: img.status,
+    animation: img.animation,
+    overrides: img.overrides,
+    transform: img.transform,
+    fingerprint: img.fingerprint,
+    page: img.page,
+    error: img.error,
+  };
+  if (img.status === 'completed' && img.resultUrl) {
+    stored.result = {
+      size: img.resultSize,
+      width: img.resultWidth,
+      height: img.resultHeight,
+      quality: img.resultQuality,
+      targetSizeReport: img.targetSizeReport,
+      html: img.resultHtml,
+      metrics: img.metrics,
+      metricsFailed: img.metricsFailed,
+      elapsed: img.elapsed,
+    };
+  }
+  return stored;
+};
+
+const toStoredBlobs = async (img: ImageFile): Promise<StoredBlobs> => {
+  const blobs: StoredBlobs = { id: img.id, file: img.file };
+  if (img.status === 'completed' && img.resultUrl) {
+    blobs.result = {
+      blob: await (await fetch(img.resultUrl)).blob(),
+      frames: img.resultFrames,
+      files: img.resultFiles,
+      variants: img.resultVariants,
+    };
+  }
+  return blobs;
+};
+
+/** Images that were mid-conversion come back idle so the next run picks them up. */
+const fromStored = (stored: StoredImage, blobs: StoredBlobs): ImageFile => {
+  const { result } = stored;
+  const output = blobs.result;
+  const completed = stored.status === 'completed' && !!result && !!output;
+  return {
+    id: stored.id,
+    file: blobs.file,
+    relativePath: stored.relativePath,
+    archive: stored.archive,
+    previewUrl: URL.createObjectURL(blobs.file),
+    originalSize: blobs.file.size,
+    format: stored.format,
+    status: completed ? 'completed' : stored.status === 'error' ? 'error' : 'idle',
+    animation: stored.animation,
+    overrides: stored.overrides,
+    transform: stored.transform,
+    fingerprint: stored.fingerprint,
+    page: stored.page,
+    error: stored.error,
+    ...(completed && {
+      resultUrl: URL.createObjectURL(output.blob),
+      resultFormat: output.blob.type,
+      resultSize: result.size,
+      resultWidth: result.width,
+      resultHeight: result.height,
+      resultQuality: result.quality,
+      targetSizeReport: result.targetSizeReport,
+      resultFrames: output.frames,
+      resultFiles: output.files,
+      resultHtml: result.html,
+      resultVariants: output.variants,
+      metrics: result.metrics,
+      metricsFailed: result.metricsFailed,
+      elapsed: result.elapsed,
+    }),
+  };
+};
+
+/** Reads the stored queue in its saved order, or null when nothing was stored. */
+export const loadSession = async (): Promise<RestoredSession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([IMAGES, BLOBS, META], 'readonly');
+  const [records, blobRecords, order, settings, interrupted] = await Promise.all([
+    promisify(tx.objectStore(IMAGES).getAll() as IDBRequest<StoredImage[]>),
+    promisify(tx.objectStore(BLOBS).getAll() as IDBRequest<StoredBlobs[]>),
+    promisify(tx.objectStore(META).get('order') as IDBRequest<string[] | undefined>),
+    promisify(tx.objectStore(META).get('settings')),
+    promisify(tx.objectStore(META).get('running') as IDBRequest<boolean | undefined>),
+  ]);
+  if (records.length === 0 && settings === undefined) return null;
+
+  // The order is written with every membership change, so records missing from it are leftovers,
+  // as are records whose file never made it into the blob store.
+  const position = new Map((order ?? []).map((id, i) => [id, i]));
+  const blobs = new Map(blobRecords.map(record => [record.id, record]));
+  const queued = records.filter(record => (!order || position.has(record.id)) && blobs.has(record.id));
+  queued.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+  return { images: queued.map(record => fromStored(record, blobs.get(record.id)!)), settings, interrupted: !!interrupted };
+};
+
+const putMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put(value, key);
+  await completion(tx);
+};
+
+export const saveSettings = (settings: unknown): Promise<void> => putMeta('settings', settings);
+
+export const setBatchRunning = (running: boolean): Promise<void> => putMeta('running', running);
+
+/**
+ * Mirrors queue state into the store. Only images whose object changed since
+ * the previous call are rewritten (state updates replace the objects they
+ * touch), and of those only the small status record unless the source file
+ * or result URL changed too, so a batch copies each blob once. Writes are
+ * chained so they land in call order. After a failed write the affected
+ * images are rewritten in full on the next call.
+ */
+export const createSessionWriter = () => {
+  let previous = new Map<string, ImageFile>();
+  // Null until the first write, so that one always records the order, even an empty one.
+  let previousOrder: string | null = null;
+  let chain: Promise<void> = Promise.resolve();
+
+  return (images: ImageFile[]): Promise<void> => {
+    const next = new Map(images.map(img => [img.id, img]));
+    const changed = images.filter(img => previous.get(img.id) !== img);
+    const blobsChanged = changed.filter(img => {
+      const before = previous.get(img.id);
+      return !before || before.file !== img.file || before.resultUrl !== img.resultUrl;
+    });
+    const removed = [...previous.keys()].filter(id => !next.has(id));
+    const order = images.map(img => img.id);
+    const orderChanged = order.join('\n') !== previousOrder;
+    previous = next;
+    previousOrder = order.join('\n');
+    if (changed.length === 0 && removed.length === 0 && !orderChanged) return chain;
+
+    const write = async () => {
+      // Blobs are read before the transaction opens; it would auto-commit while awaiting them.
+      const blobRecords = await Promise.all(blobsChanged.map(toStoredBlobs));
+      const db = await openDatabase();
+      const tx = db.transaction([IMAGES, BLOBS, META], 'readwrite');
+      const store = tx.objectStore(IMAGES);
+      const blobStore = tx.objectStore(BLOBS);
+      changed.forEach(img => store.put(toStored(img)));
+      blobRecords.forEach(record => blobStore.put(record));
+      removed.forEach(id => {
+        store.delete(id);
+        blobStore.delete(id);
+      });
+      if (orderChanged) tx.objectStore(META).put(order, 'order');
+      await completion(tx);
+    };
+    const attempt = () => write().catch(err => {
+      changed.forEach(img => previous.get(img.id) === img && previous.delete(img.id));
+      previousOrder = null;
+      throw err;
+    });
+    chain = chain.then(attempt, attempt);
+    return chain;
+  };
+};
+
+/** Drops every stored image together with the saved settings and queue order. */
+export const clearSession = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([IMAGES, BLOBS, META], 'readwrite');
+  tx.objectStore(IMAGES).clear();
+  tx.objectStore(BLOBS).clear();
+  tx.objectStore(META).clear();
+  await completion(tx);
+};
+
+/** Origin-wide usage and quota in bytes, where the browser reports them. */
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+};
@@ -0,0 +1,39 @@
+import { AppMode, GlobalSettings, ImageFormat } from '../types.ts';
+import { DEFAULT_BACKGROUND } from './background.ts';
+import { DEFAULT_ICON_OPTIONS } from './iconSet.ts';
+import { DEFAULT_GIF_OPTIONS, DEFAULT_TRACE_OPTIONS } from './imageProcessor.ts';
+import { DEFAULT_NAMING } from './naming.ts';
+import { DEFAULT_PNG_OPTIONS } from './pngOptimizer.ts';
+import { DEFAULT_RESIZE_OPTIONS } from './resize.ts';
+import { DEFAULT_RESPONSIVE } from './responsive.ts';
+import { DEFAULT_WATERMARK } from './watermark.ts';
+import { defaultConcurrency } from './workerPool.ts';
+
+/** Format and quality each mode starts from when the user switches to it. */
+export const modeDefaults = (mode: AppMode): Pick<GlobalSettings, 'mode' | 'targetFormat' | 'quality' | 'targetSize'> => {
+  switch (mode) {
+    case AppMode.COMPRESS:
+      return { mode, targetFormat: 'original', quality: 0.6, targetSize: null };
+    case AppMode.ICONS:
+      return { mode, targetFormat: ImageFormat.PNG, quality: 1, targetSize: null };
+    default:
+      return { mode, targetFormat: ImageFormat.WEBP, quality: 0.8, targetSize: null };
+  }
+};
+
+export const createDefaultSettings = (): GlobalSettings => ({
+  ...modeDefaults(AppMode.CONVERT),
+  resize: DEFAULT_RESIZE_OPTIONS,
+  concurrency: defaultConcurrency(),
+  trace: DEFAULT_TRACE_OPTIONS,
+  gif: DEFAULT_GIF_OPTIONS,
+  metadata: 'strip',
+  png: DEFAULT_PNG_OPTIONS,
+  rules: [],
+  naming: DEFAULT_NAMING,
+  watermark: DEFAULT_WATERMARK,
+  icons: DEFAULT_ICON_OPTIONS,
+  responsive: DEFAULT_RESPONSIVE,
+  filters: [],
+  background: DEFAULT_BACKGROUND,
+});
@@ -0,0 +1,92 @@
+import { ImageFormat, TargetSizeOptions, TargetSizeReport } from '../types.ts';
+
+const MIN_QUALITY = 0.05;
+const QUALITY_STEPS = 7;
+const MAX_SCALE_STEPS = 6;
+const MIN_EDGE = 16;
+
+/** Formats whose encoders react to the quality parameter. */
+const LOSSY_FORMATS: ImageFormat[] = [ImageFormat.JPEG, ImageFormat.WEBP];
+
+interface Candidate {
+  blob: Blob;
+  quality: number;
+  scale: number;
+}
+
+/**
+ * Finds the highest quality (and, when allowed, the largest extra downscale
+ * factor) whose encoded output fits within `target.bytes`.
+ *
+ * `encode` is called repeatedly with candidate settings. When the budget cannot
+ * be met the smallest output seen is returned with `met: false`.
+ */
+export const fitToTargetSize = async (
+  encode: (quality: number, scale: number) => Promise<Blob>,
+  format: ImageFormat,
+  maxQuality: number,
+  sourceEdge: number,
+  target: TargetSizeOptions
+): Promise<{ blob: Blob; report: TargetSizeReport }> => {
+  const lossy = LOSSY_FORMATS.includes(format);
+  let smallest: Candidate | null = null;
+
+  const attempt = async (quality: number, scale: number): Promise<Candidate> => {
+    const candidate = { blob: await encode(quality, scale), quality, scale };
+    if (!smallest || candidate.blob.size < smallest.blob.size) smallest = candidate;
+    return candidate;
+  };
+
+  // Binary search on quality at a fixed scale. Returns the best fitting
+  // candidate, or null when even the lowest quality is over budget.
+  const searchQuality = async (scale: number): Promise<Candidate | null> => {
+    const top = await attempt(maxQuality, scale);
+    if (top.blob.size <= target.bytes) return top;
+    if (!lossy) return null;
+
+    let lo = MIN_QUALITY;
+    let hi = maxQuality;
+    let best: Candidate | null = null;
+    const floor = await attempt(lo, scale);
+    if (floor.blob.size > target.bytes) return null;
+    best = floor;
+
+    for (let i = 0; i < QUALITY_STEPS; i++) {
+      const mid = (lo + hi) / 2;
+      const candidate = await attempt(mid, scale);
+      if (candidate.blob.size <= target.bytes) {
+        best = candidate;
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    return best;
+  };
+
+  let scale = 1;
+  for (let step = 0; step < MAX_SCALE_STEPS; step++) {
+    const fit = await searchQuality(scale);
+    if (fit) {
+      return {
+        blob: fit.blob,
+        report: { budget: target.bytes, met: true, quality: fit.quality, scale: fit.scale },
+      };
+    }
+    if (!target.allowDownscale) break;
+
+    // Pixel count scales with the square of the edge, so shrink by the root
+    // of the overshoot, with a little headroom.
+    const overshoot = target.bytes / smallest!.blob.size;
+    const factor = Math.min(0.95, Math.max(0.5, Math.sqrt(overshoot) * 0.95));
+    const nextScale = scale * factor;
+    if (sourceEdge * nextScale < MIN_EDGE) break;
+    scale = nextScale;
+  }
+
+  const closest = smallest!;
+  return {
+    blob: closest.blob,
+    report: { budget: target.bytes, met: false, quality: closest.quality, scale: closest.scale },
+  };
+};
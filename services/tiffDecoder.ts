@@ -0,0 +1,359 @@
+import { RasterPage } from '../types.ts';
+import type { RasterImage } from './rasterDecoders.ts';
+import { zlibDecompress } from './zlib.ts';
+
+const TAG = {
+  subfileType: 254,
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  orientation: 274,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339,
+};
+
+const KNOWN_TAGS = new Set(Object.values(TAG));
+
+const COMPRESSION = { none: 1, lzw: 5, deflate: 8, packBits: 32773, adobeDeflate: 32946 };
+
+/** Byte size of each IFD field type; types without an entry are skipped. */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type Ifd = Map<number, number[]>;
+
+interface ParsedTiff {
+  little: boolean;
+  /** Full-resolution images in file order; reduced-resolution previews are left out. */
+  ifds: Ifd[];
+}
+
+export const isTiff = (bytes: Uint8Array): boolean =>
+  bytes.length >= 8 && (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0)
+    || (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42));
+
+const readValue = (view: DataView, at: number, type: number, little: boolean): number => {
+  switch (type) {
+    case 3: return view.getUint16(at, little);
+    case 4: return view.getUint32(at, little);
+    case 5: return view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1);
+    case 6: return view.getInt8(at);
+    case 8: return view.getInt16(at, little);
+    case 9: return view.getInt32(at, little);
+    case 10: return view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1);
+    case 11: return view.getFloat32(at, little);
+    case 12: return view.getFloat64(at, little);
+    default: return view.getUint8(at);
+  }
+};
+
+const first = (ifd: Ifd, tag: number, fallback: number) => ifd.get(tag)?.[0] ?? fallback;
+
+/** Walks the IFD chain, reading only the tags the decoder uses. Loops and truncation end the walk. */
+const parseTiff = (bytes: Uint8Array): ParsedTiff => {
+  if (!isTiff(bytes)) throw new Error('Not a TIFF file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const all: Ifd[] = [];
+  const seen = new Set<number>();
+  let offset = view.getUint32(4, little);
+  while (offset > 0 && offset + 2 <= bytes.length && !seen.has(offset)) {
+    seen.add(offset);
+    const count = view.getUint16(offset, little);
+    const ifd: Ifd = new Map();
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const n = view.getUint32(entry + 4, little);
+      const size = TYPE_SIZES[type];
+      if (!KNOWN_TAGS.has(tag) || !size) continue;
+      let at = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+      if (at + size * n > bytes.length) continue;
+      const values: number[] = [];
+      for (let k = 0; k < n; k++, at += size) values.push(readValue(view, at, type, little));
+      ifd.set(tag, values);
+    }
+    if (ifd.has(TAG.width) && ifd.has(TAG.height)) all.push(ifd);
+    const next = offset + 2 + count * 12;
+    offset = next + 4 <= bytes.length ? view.getUint32(next, little) : 0;
+  }
+  const full = all.filter(ifd => (first(ifd, TAG.subfileType, 0) & 1) === 0);
+  const ifds = full.length > 0 ? full : all;
+  if (ifds.length === 0) throw new Error('TIFF has no images');
+  return { little, ifds };
+};
+
+export const parseTiffPages = (bytes: Uint8Array): RasterPage[] =>
+  parseTiff(bytes).ifds.map(ifd => ({
+    width: first(ifd, TAG.width, 0),
+    height: first(ifd, TAG.height, 0),
+    depth: first(ifd, TAG.bitsPerSample, 1) * first(ifd, TAG.samplesPerPixel, 1),
+  }));
+
+/** TIFF LZW: MSB-first codes of 9-12 bits that widen one code early. */
+const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  const CLEAR = 256;
+  const EOI = 257;
+  const out = new Uint8Array(expected);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const head = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    head[i] = i;
+    lengths[i] = 1;
+  }
+  const totalBits = input.length * 8;
+  let bitPos = 0;
+  const read = (width: number) => {
+    if (bitPos + width > totalBits) return EOI;
+    const byte = bitPos >> 3;
+    const chunk = (input[byte] << 16) | (input[byte + 1] << 8) | input[byte + 2];
+    const code = (chunk >> (24 - (bitPos & 7) - width)) & ((1 << width) - 1);
+    bitPos += width;
+    return code;
+  };
+  let pos = 0;
+  const emit = (code: number) => {
+    const end = pos + lengths[code];
+    for (let i = end - 1, c = code; i >= pos; i--, c = prefix[c]) {
+      if (i < expected) out[i] = suffix[c];
+    }
+    pos = end;
+  };
+
+  let next = 258;
+  let width = 9;
+  let previous = -1;
+  while (pos < expected) {
+    const code = read(width);
+    if (code === EOI) break;
+    if (code === CLEAR) {
+      next = 258;
+      width = 9;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      if (code > 255) throw new Error('Corrupt LZW data');
+      emit(code);
+      previous = code;
+      continue;
+    }
+    if (code > next) throw new Error('Corrupt LZW data');
+    const known = code < next;
+    if (next < 4096) {
+      prefix[next] = previous;
+      suffix[next] = known ? head[code] : head[previous];
+      head[next] = head[previous];
+      lengths[next] = lengths[previous] + 1;
+      next++;
+    }
+    emit(code);
+    previous = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out;
+};
+
+/** PackBits run-length decoding, shared with PSD image data. */
+export const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let pos = 0;
+  for (let i = 0; i < input.length && pos < expected;) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      const count = Math.min(n + 1, expected - pos, input.length - i);
+      out.set(input.subarray(i, i + count), pos);
+      i += n + 1;
+      pos += count;
+    } else if (n !== -128) {
+      out.fill(input[i++], pos, Math.min(expected, pos + 1 - n));
+      pos += 1 - n;
+    }
+  }
+  return out;
+};
+
+const decompress = async (chunk: Uint8Array, compression: number, expected: number): Promise<Uint8Array> => {
+  switch (compression) {
+    // Copied, since the predictor is undone in place.
+    case COMPRESSION.none: return chunk.slice();
+    case COMPRESSION.lzw: return decodeLzw(chunk, expected);
+    case COMPRESSION.packBits: return unpackBits(chunk, expected);
+    case COMPRESSION.deflate:
+    case COMPRESSION.adobeDeflate: return zlibDecompress(chunk);
+    default: throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+};
+
+/** Undoes horizontal differencing (predictor 2) on 8- and 16-bit samples, in place. */
+const undoPredictor = (data: Uint8Array, rows: number, rowSamples: number, samples: number, bits: number, little: boolean) => {
+  if (bits === 8) {
+    for (let y = 0; y < rows; y++) {
+      const row = y * rowSamples;
+      for (let i = samples; i < rowSamples; i++) data[row + i] = (data[row + i] + data[row + i - samples]) & 0xff;
+    }
+  } else if (bits === 16) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (let y = 0; y < rows; y++) {
+      const row = y * rowSamples * 2;
+      for (let i = samples; i < rowSamples && row + i * 2 + 1 < data.length; i++) {
+        const value = view.getUint16(row + i * 2, little) + view.getUint16(row + (i - samples) * 2, little);
+        view.setUint16(row + i * 2, value & 0xffff, little);
+      }
+    }
+  }
+};
+
+/** Color samples per pixel for each supported photometric interpretation. */
+const COLOR_SAMPLES: Record<number, number> = { 0: 1, 1: 1, 2: 3, 3: 1, 5: 4 };
+
+/**
+ * Decodes one page of a baseline TIFF to RGBA: bilevel, grayscale, palette,
+ * RGB and CMYK at 1-16 bits per sample, in strips or tiles, chunky or
+ * planar, uncompressed or with LZW, PackBits or Deflate. Associated alpha is
+ * un-premultiplied. The Orientation tag is returned, not applied.
+ */
+export const decodeTiff = async (bytes: Uint8Array, page = 0): Promise<RasterImage> => {
+  const { little, ifds } = parseTiff(bytes);
+  const ifd = ifds[Math.min(Math.max(0, page), ifds.length - 1)];
+  const width = first(ifd, TAG.width, 0);
+  const height = first(ifd, TAG.height, 0);
+  const samples = first(ifd, TAG.samplesPerPixel, 1);
+  const bits = first(ifd, TAG.bitsPerSample, 1);
+  const compression = first(ifd, TAG.compression, COMPRESSION.none);
+  const photometric = first(ifd, TAG.photometric, samples >= 3 ? 2 : 1);
+  const planar = first(ifd, TAG.planarConfig, 1) === 2;
+  if (width < 1 || height < 1) throw new Error('Invalid TIFF dimensions');
+  if (![1, 2, 4, 8, 16].includes(bits) || first(ifd, TAG.sampleFormat, 1) === 3) {
+    throw new Error(`Unsupported TIFF sample depth ${bits}`);
+  }
+  const colorSamples = COLOR_SAMPLES[photometric];
+  if (colorSamples === undefined || samples < colorSamples) {
+    throw new Error(`Unsupported TIFF color space ${photometric}`);
+  }
+
+  const tiled = ifd.has(TAG.tileWidth) && ifd.has(TAG.tileOffsets);
+  const chunkWidth = tiled ? first(ifd, TAG.tileWidth, width) : width;
+  const chunkHeight = tiled ? first(ifd, TAG.tileLength, height) : Math.min(height, first(ifd, TAG.rowsPerStrip, height));
+  const offsets = ifd.get(tiled ? TAG.tileOffsets : TAG.stripOffsets) ?? [];
+  const counts = ifd.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts) ?? [];
+  const planes = planar ? samples : 1;
+  const chunkSamples = planar ? 1 : samples;
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const rowBytes = Math.ceil((width * chunkSamples * bits) / 8);
+  const chunkRowBytes = Math.ceil((chunkWidth * chunkSamples * bits) / 8);
+  const predictor = first(ifd, TAG.predictor, 1);
+
+  // Chunks are stored plane by plane, then row by row.
+  const rasters = Array.from({ length: planes }, () => new Uint8Array(rowBytes * height));
+  for (let plane = 0; plane < planes; plane++) {
+    for (let cy = 0; cy < down; cy++) {
+      for (let cx = 0; cx < across; cx++) {
+        const index = (plane * down + cy) * across + cx;
+        const offset = offsets[index];
+        if (offset === undefined) continue;
+        const count = counts[index] ?? bytes.length - offset;
+        const expected = chunkRowBytes * chunkHeight;
+        const data = await decompress(bytes.subarray(offset, offset + count), compression, expected);
+        if (predictor === 2) undoPredictor(data, chunkHeight, chunkWidth * chunkSamples, chunkSamples, bits, little);
+        const x = (cx * chunkWidth * chunkSamples * bits) / 8;
+        const length = Math.min(chunkRowBytes, rowBytes - x);
+        const rows = Math.min(chunkHeight, height - cy * chunkHeight);
+        for (let r = 0; r < rows; r++) {
+          const start = r * chunkRowBytes;
+          if (start >= data.length) break;
+          rasters[plane].set(data.subarray(start, Math.min(data.length, start + length)), (cy * chunkHeight + r) * rowBytes + x);
+        }
+      }
+    }
+  }
+
+  const max = 2 ** bits - 1;
+  const sample = (x: number, y: number, s: number): number => {
+    const raster = rasters[planar ? s : 0];
+    const index = planar ? x : x * samples + s;
+    const row = y * rowBytes;
+    if (bits === 8) return raster[row + index];
+    if (bits === 16) {
+      const at = row + index * 2;
+      return little ? raster[at] | (raster[at + 1] << 8) : (raster[at] << 8) | raster[at + 1];
+    }
+    const bit = index * bits;
+    return (raster[row + (bit >> 3)] >> (8 - bits - (bit & 7))) & max;
+  };
+  const to8 = (value: number) => (bits === 8 ? value : Math.round((value * 255) / max));
+
+  const colorMap = ifd.get(TAG.colorMap);
+  const mapSize = 2 ** bits;
+  if (photometric === 3 && (!colorMap || colorMap.length < mapSize * 3)) throw new Error('TIFF palette missing');
+  const extra = ifd.get(TAG.extraSamples)?.[0];
+  const alphaSample = samples > colorSamples && (extra === 1 || extra === 2) ? colorSamples : -1;
+  const premultiplied = extra === 1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p += 4) {
+      let r: number;
+      let g: number;
+      let b: number;
+      switch (photometric) {
+        case 0:
+          r = g = b = 255 - to8(sample(x, y, 0));
+          break;
+        case 1:
+          r = g = b = to8(sample(x, y, 0));
+          break;
+        case 3: {
+          const i = sample(x, y, 0);
+          r = colorMap![i] >> 8;
+          g = colorMap![mapSize + i] >> 8;
+          b = colorMap![2 * mapSize + i] >> 8;
+          break;
+        }
+        case 5: {
+          const k = 255 - to8(sample(x, y, 3));
+          r = ((255 - to8(sample(x, y, 0))) * k) / 255;
+          g = ((255 - to8(sample(x, y, 1))) * k) / 255;
+          b = ((255 - to8(sample(x, y, 2))) * k) / 255;
+          break;
+        }
+        default:
+          r = to8(sample(x, y, 0));
+          g = to8(sample(x, y, 1));
+          b = to8(sample(x, y, 2));
+      }
+      const a = alphaSample >= 0 ? to8(sample(x, y, alphaSample)) : 255;
+      if (premultiplied && a < 255) {
+        const scale = a > 0 ? 255 / a : 0;
+        r *= scale;
+        g *= scale;
+        b *= scale;
+      }
+      data[p] = r;
+      data[p + 1] = g;
+      data[p + 2] = b;
+      data[p + 3] = a;
+    }
+  }
+  return { width, height, data, orientation: first(ifd, TAG.orientation, 1) };
+};
@@ -0,0 +1,86 @@
+import { CropRect, ImageTransform } from '../types.ts';
+import { AnyCanvas, createCanvas, getContext2D } from './canvas.ts';
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotate: 0, angle: 0, flipH: false, flipV: false, crop: null };
+
+export const MAX_STRAIGHTEN = 45;
+
+/** Smallest crop edge as a fraction of the image, so handles stay grabbable. */
+export const MIN_CROP = 0.02;
+
+export const isIdentityTransform = (transform: ImageTransform): boolean =>
+  transform.rotate === 0 && transform.angle === 0 && !transform.flipH && !transform.flipV && !transform.crop;
+
+/** Size after the quarter turns; straightening keeps the frame. */
+export const rotatedSize = (width: number, height: number, rotate: ImageTransform['rotate']) =>
+  rotate % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Enlargement that lets an image turned by `angle` degrees still cover its
+ * own frame: each frame corner, turned back into image space, must stay
+ * within the scaled image.
+ */
+export const straightenScale = (width: number, height: number, angle: number): number => {
+  const radians = Math.abs(angle) * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return Math.max(cos + (height / width) * sin, cos + (width / height) * sin);
+};
+
+/** Crop in whole pixels of a `width`×`height` frame, at least one pixel each way. */
+export const cropPixels = (crop: CropRect, width: number, height: number) => {
+  const x = Math.min(width - 1, Math.max(0, Math.round(crop.x * width)));
+  const y = Math.min(height - 1, Math.max(0, Math.round(crop.y * height)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+};
+
+/** Clamps a crop into the frame; one that covers all of it is no crop. */
+export const normalizeCrop = (crop: CropRect | null): CropRect | null => {
+  if (!crop) return null;
+  const x = Math.min(1 - MIN_CROP, Math.max(0, crop.x));
+  const y = Math.min(1 - MIN_CROP, Math.max(0, crop.y));
+  const width = Math.min(1 - x, Math.max(MIN_CROP, crop.width));
+  const height = Math.min(1 - y, Math.max(MIN_CROP, crop.height));
+  const full = x < 1e-4 && y < 1e-4 && width > 1 - 1e-4 && height > 1 - 1e-4;
+  return full ? null : { x, y, width, height };
+};
+
+/** Largest centred crop with a pixel aspect ratio of `ratio` inside a `width`×`height` frame. */
+export const fitAspect = (ratio: number, width: number, height: number): CropRect => {
+  // Width over height once both are fractions of the frame.
+  const k = ratio * height / width;
+  const w = Math.min(1, k);
+  const h = w / k;
+  return { x: (1 - w) / 2, y: (1 - h) / 2, width: w, height: h };
+};
+
+/**
+ * Draws `source` with the transform applied in a single resampling pass,
+ * so straightening and cropping cost no extra quality.
+ */
+export const applyTransform = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  transform: ImageTransform
+): AnyCanvas => {
+  const frame = rotatedSize(width, height, transform.rotate);
+  const crop = transform.crop
+    ? cropPixels(transform.crop, frame.width, frame.height)
+    : { x: 0, y: 0, ...frame };
+  const canvas = createCanvas(crop.width, crop.height);
+  const ctx = getContext2D(canvas);
+  const scale = straightenScale(frame.width, frame.height, transform.angle);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(frame.width / 2 - crop.x, frame.height / 2 - crop.y);
+  ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+  ctx.rotate((transform.rotate + transform.angle) * Math.PI / 180);
+  ctx.scale(scale, scale);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  return canvas;
+};
@@ -3,12 +3,14 @@ export const translations = {
   zh: {
     nav_convert: "格式转换",
     nav_compress: "图片压缩",
+    nav_icons: "图标生成",
     ai_badge: "AI 驱动本地引擎",
     uploader_title: "将图片拖拽至此",
-    uploader_desc: "支持 JPEG, PNG, WebP, SVG 等批量处理。安全且完全本地运行。",
+    uploader_desc: "支持 JPEG, PNG, WebP, SVG, TIFF, BMP, ICO, PSD 及 ZIP 压缩包批量处理。安全且完全本地运行。",
     uploader_tag_no_server: "无服务器上传",
     uploader_tag_svg: "SVG 矢量化",
     uploader_tag_speed: "极速处理",
+    uploader_pick_folder: "选择文件夹",
     queue_title: "队列清单",
     clear_list: "清空列表",
     empty_hint: "拖拽或点击上方区域开始",
@@ -19,20 +21,209 @@ export const translations = {
     strategy_max_desc: "保持原格式，大幅减小体积",
     strategy_web_title: "网页优化",
     strategy_web_desc: "自动转为 WebP，平衡画质与大小",
+    strategy_target_title: "目标体积",
+    strategy_target_desc: "逐张搜索画质与尺寸，控制在指定大小内",
+    target_size_label: "体积上限",
+    target_size_keep_format: "原格式",
+    target_size_downscale: "必要时允许缩小尺寸",
     quality_label: "画质质量",
     compress_label: "压缩强度",
-    scale_label: "尺寸缩放",
+    scale_label: "尺寸调整",
+    resize_mode_scale: "倍数",
+    resize_mode_width: "固定宽度",
+    resize_mode_height: "固定高度",
+    resize_mode_long_edge: "长边上限",
+    resize_mode_fit: "适应框",
+    resize_mode_cover: "填满框",
+    resize_width: "宽度",
+    resize_height: "高度",
+    resize_long_edge: "长边",
+    resize_crop_center: "居中裁剪",
+    resize_crop_smart: "智能裁剪",
+    resize_no_upscale: "禁止放大",
+    concurrency_label: "并行线程",
+    trace_title: "矢量追踪",
+    trace_colors: "颜色数量",
+    trace_detail: "细节程度",
+    trace_smoothing: "曲线平滑",
+    gif_title: "GIF 调色板",
+    gif_colors: "颜色数量",
+    gif_dither: "抖动（Floyd-Steinberg）",
+    png_title: "PNG 优化",
+    png_lossless_hint: "无损：自动调色板、降低位深、去除无用透明通道并选择最佳滤波，结果不会比原图更大。",
+    png_lossy: "有损调色板量化",
+    png_colors: "调色板颜色数",
+    metadata_label: "元数据",
+    metadata_strip: "全部移除",
+    metadata_copyright: "仅保留版权",
+    metadata_all: "全部保留",
+    metadata_orientation_hint: "照片会按 EXIF 方向自动摆正。",
     btn_process_convert: "执行转换",
     btn_process_compress: "开始压缩",
+    btn_process_icons: "生成图标集",
     btn_processing: "处理中...",
+    batch_running: "处理中",
+    batch_paused: "已暂停",
+    batch_eta: "剩余约",
+    batch_pause: "暂停",
+    batch_resume: "继续",
+    batch_cancel: "取消",
+    batch_pause_hint: "正在处理的图片会先完成，其余图片等待继续。",
+    session_title: "保存会话",
+    session_usage: "已用",
+    session_quota: "配额",
+    session_write_failed: "保存失败，存储空间可能已满，请清除缓存会话。",
+    session_clear: "清除缓存会话",
+    session_hint: "原图、结果与设置保存在浏览器中，刷新后自动恢复并继续未完成的任务。",
+    session_off_hint: "会话不再保存，刷新页面后队列将被清空。",
+    batch_retry_failed: "重试失败项",
+    batch_reprocess_all: "按新设置全部重做",
     btn_download_zip: "打包下载 (ZIP)",
     btn_save_folder: "保存到文件夹",
     card_original: "原始",
     card_result: "结果",
     card_download: "保存图片",
     card_error: "处理失败",
+    card_budget_met: "达标",
+    card_frames: "帧",
+    card_frame_sequence: "按帧序列导出",
+    card_files: "个文件",
+    card_variants: "个响应式变体",
+    card_copy_html: "复制 HTML",
+    card_html_copied: "已复制",
+    card_budget_missed: "未达到目标体积，最接近结果：",
+    card_budget_animation: "动图不支持目标体积搜索，已按所选质量输出：",
+    card_quality: "画质",
+    card_quality_failed: "无法测量",
+    card_elapsed: "耗时",
+    card_sample: "预览样图",
+    card_select_sample: "设为滤镜与水印的预览样图",
+    card_duplicate: "重复",
+    card_similar: "相似",
+    card_page: "页面",
+    card_page_hint: "选择要预览和转换的 TIFF 页面或图标尺寸",
+    report_title: "批处理报告",
+    report_saved: "节省",
+    report_grew: "增加",
+    report_completed: "已完成",
+    report_failed: "失败",
+    report_avg_time: "平均耗时",
+    report_pixels: "像素总量",
+    report_format: "格式",
+    report_count: "数量",
+    report_size: "体积",
+    report_change: "变化",
+    report_in_zip: "下载 ZIP 时附带 CSV / JSON 报告",
+    dup_title: "重复图片",
+    dup_hint: "按内容哈希找出完全相同的文件，按感知哈希找出不同尺寸的相似图片；最佳副本依次按像素数、文件大小与加入顺序挑选。",
+    dup_exact: "完全相同",
+    dup_similar: "相似",
+    dup_best: "最佳",
+    dup_keep_best: "仅保留最佳",
+    dup_keep_best_all: "全部仅保留最佳",
+    dup_remove: "从队列移除",
+    background_title: "背景与画布",
+    background_flatten: "透明格式也铺底色",
+    background_color_hint: "JPEG 等不支持透明的格式始终用此颜色填充透明区域。",
+    background_trim: "自动裁去纯色 / 透明边框",
+    background_tolerance: "容差",
+    background_pad: "补边",
+    background_pad_none: "不补边",
+    background_pad_canvas: "固定画布",
+    background_pad_aspect: "固定比例",
+    background_margin: "留白",
+    filters_title: "调整滤镜",
+    filters_add: "添加",
+    filters_preview_hint: "按住预览图查看原图，滤镜按列表顺序依次应用。",
+    filter_grayscale: "灰度",
+    filter_brightness: "亮度",
+    filter_contrast: "对比度",
+    filter_saturation: "饱和度",
+    filter_sharpen: "锐化（USM）",
+    filter_blur: "模糊",
+    filter_auto_levels: "自动色阶",
+    filter_amount: "强度",
+    filter_radius: "半径",
+    edit_open: "裁剪与旋转",
+    edit_title: "编辑",
+    edit_rotate_left: "向左旋转 90°",
+    edit_rotate_right: "向右旋转 90°",
+    edit_flip_h: "水平翻转",
+    edit_flip_v: "垂直翻转",
+    edit_straighten: "拉直",
+    edit_aspect_free: "自由",
+    edit_reset: "还原",
+    edit_apply: "应用",
+    card_quality_poor: "画质损失明显，建议提高质量或对比检查",
+    compare_open: "前后对比",
+    compare_split: "分割",
+    compare_difference: "差异",
+    compare_zoom_in: "放大",
+    compare_zoom_out: "缩小",
+    compare_fit: "适应窗口",
+    override_title: "单独设置",
+    override_inherit: "沿用",
+    override_format: "格式",
+    override_quality: "自定义画质",
+    override_resize: "自定义尺寸",
+    override_clear: "恢复批量设置",
+    rules_title: "按格式规则",
+    rules_add: "添加规则",
+    rules_hint: "为某种输入格式单独指定输出格式、画质或尺寸，例如所有 PNG → 无损 WebP（画质 100%）。",
+    rules_source: "输入",
+    presets_title: "预设",
+    presets_empty: "将当前模式与全部参数保存为命名预设，可导出为 JSON 与团队共享。",
+    presets_name_placeholder: "预设名称，如“博客头图”",
+    presets_save: "保存",
+    presets_import: "导入预设 (JSON)",
+    presets_export: "导出预设 (JSON)",
+    presets_none_found: "文件中没有可用的预设",
+    naming_label: "文件命名",
+    naming_preview: "示例：",
+    naming_conflict_label: "目标文件夹已有同名文件时",
+    naming_layout_mirror: "保留目录结构",
+    naming_layout_flat: "全部放在根目录",
+    naming_conflict_rename: "自动编号",
+    naming_conflict_overwrite: "覆盖",
+    naming_conflict_skip: "跳过",
+    naming_conflict_hint: "同一批导出中的重名文件始终会追加 -2、-3 等编号。",
+    watermark_title: "水印",
+    watermark_text: "文字",
+    watermark_image: "图片",
+    watermark_bold: "粗体",
+    watermark_upload: "上传水印图片（推荐透明 PNG）",
+    watermark_size: "大小（占短边）",
+    watermark_opacity: "不透明度",
+    watermark_margin: "边距",
+    watermark_rotation: "旋转",
+    watermark_tile: "平铺",
+    icons_title: "图标集",
+    icons_ico_sizes: "favicon.ico 尺寸",
+    icons_encoding_auto: "自动",
+    icons_encoding_png: "PNG",
+    icons_encoding_bmp: "BMP",
+    icons_apple_touch: "Apple Touch 图标 (180px)",
+    icons_pwa_sizes: "Android / PWA 尺寸",
+    icons_maskable: "自适应",
+    icons_maskable_label: "生成 maskable 自适应图标",
+    icons_padding: "安全区留白",
+    icons_background: "背景色",
+    icons_theme_color: "主题色",
+    icons_app_name: "应用名称",
+    icons_short_name: "短名称",
+    icons_base_path: "路径前缀",
+    responsive_title: "响应式 srcset",
+    responsive_widths: "断点宽度",
+    responsive_formats: "输出格式（按优先级）",
+    responsive_sizes: "sizes 属性",
+    responsive_hint: "每张图按各宽度与格式分别输出，文件名带 -320w 等后缀；导出时附带 srcset.html 与 srcset.json。不会放大小于断点的原图。",
     alert_folder_success: "所有图片已成功保存到文件夹！",
-    alert_folder_fail: "导出到文件夹失败：",
+    alert_presets_import_fail: "导入预设失败：",
+    alert_presets_save_fail: "无法保存预设：浏览器存储空间不足。可尝试删除不用的预设或换用更小的水印图片。",
+    alert_watermark_fail: "无法读取该水印图片。",
+    alert_folder_skipped: "已跳过同名文件：",
+    alert_archive_fail: "无法读取压缩包：",
+    alert_folder_fail: "读写文件夹失败：",
     alert_folder_unsupported: "您的浏览器不支持直接保存到文件夹，请使用打包下载。",
     alert_zip_fail: "生成压缩包失败。",
     lang_name: "简体中文"
@@ -40,12 +231,14 @@ export const translations = {
   en: {
     nav_convert: "Convert",
     nav_compress: "Compress",
+    nav_icons: "App Icons",
     ai_badge: "AI Powered Local Engine",
     uploader_title: "Drop your images here",
-    uploader_desc: "Batch process JPEG, PNG, WebP, SVG and more. Fast, secure, and entirely local.",
+    uploader_desc: "Batch process JPEG, PNG, WebP, SVG, TIFF, BMP, ICO, PSD, ZIP archives and more. Fast, secure, and entirely local.",
     uploader_tag_no_server: "No Server Uploads",
     uploader_tag_svg: "SVG Tracing",
     uploader_tag_speed: "High Speed",
+    uploader_pick_folder: "Choose folder",
     queue_title: "Queue List",
     clear_list: "Clear All",
     empty_hint: "Drop or click above to start",
@@ -56,20 +249,209 @@ export const translations = {
     strategy_max_desc: "Keep format, minimize size",
     strategy_web_title: "Web Optimize",
     strategy_web_desc: "Auto WebP, balanced quality",
+    strategy_target_title: "Target Size",
+    strategy_target_desc: "Search quality & size to fit a byte budget",
+    target_size_label: "Max Size",
+    target_size_keep_format: "Original",
+    target_size_downscale: "Allow downscaling if needed",
     quality_label: "Quality",
     compress_label: "Strength",
-    scale_label: "Rescale",
+    scale_label: "Resize",
+    resize_mode_scale: "Scale",
+    resize_mode_width: "Width",
+    resize_mode_height: "Height",
+    resize_mode_long_edge: "Long Edge",
+    resize_mode_fit: "Fit Box",
+    resize_mode_cover: "Cover Box",
+    resize_width: "Width",
+    resize_height: "Height",
+    resize_long_edge: "Long Edge",
+    resize_crop_center: "Center Crop",
+    resize_crop_smart: "Smart Crop",
+    resize_no_upscale: "Never upscale",
+    concurrency_label: "Parallel Workers",
+    trace_title: "Vector Tracing",
+    trace_colors: "Colors",
+    trace_detail: "Detail",
+    trace_smoothing: "Smoothing",
+    gif_title: "GIF Palette",
+    gif_colors: "Colors",
+    gif_dither: "Dithering (Floyd-Steinberg)",
+    png_title: "PNG Optimization",
+    png_lossless_hint: "Lossless: palette and bit-depth reduction, unused alpha removal and the best row filters. Never larger than the original.",
+    png_lossy: "Lossy palette quantization",
+    png_colors: "Palette colors",
+    metadata_label: "Metadata",
+    metadata_strip: "Strip all",
+    metadata_copyright: "Copyright only",
+    metadata_all: "Keep all",
+    metadata_orientation_hint: "Photos are turned upright using their EXIF orientation.",
     btn_process_convert: "Execute Conversion",
     btn_process_compress: "Start Compression",
+    btn_process_icons: "Generate Icon Set",
     btn_processing: "Processing...",
+    batch_running: "Processing",
+    batch_paused: "Paused",
+    batch_eta: "ETA",
+    batch_pause: "Pause",
+    batch_resume: "Resume",
+    batch_cancel: "Cancel",
+    batch_pause_hint: "Images already in progress finish first; the rest wait until you resume.",
+    session_title: "Save Session",
+    session_usage: "Used",
+    session_quota: "Quota",
+    session_write_failed: "Saving failed, storage may be full. Clear the cached session.",
+    session_clear: "Clear Cached Session",
+    session_hint: "Originals, results and settings are kept in the browser; a reload restores them and resumes unfinished work.",
+    session_off_hint: "The session is not saved; reloading the page empties the queue.",
+    batch_retry_failed: "Retry failed",
+    batch_reprocess_all: "Reprocess all",
     btn_download_zip: "Download All (ZIP)",
     btn_save_folder: "Save to Folder",
     card_original: "Original",
     card_result: "Result",
     card_download: "Download",
     card_error: "Failed",
+    card_budget_met: "Fits",
+    card_frames: "frames",
+    card_frame_sequence: "exported as frame sequence",
+    card_files: "files",
+    card_variants: "responsive variants",
+    card_copy_html: "Copy HTML",
+    card_html_copied: "Copied",
+    card_budget_missed: "Budget not met, closest result: ",
+    card_budget_animation: "Animations are not size-searched; encoded at the chosen quality: ",
+    card_quality: "Quality",
+    card_quality_failed: "Measurement failed",
+    card_elapsed: "Time",
+    card_sample: "Preview sample",
+    card_select_sample: "Use as the filter and watermark preview",
+    card_duplicate: "Duplicate",
+    card_similar: "Similar",
+    card_page: "Page",
+    card_page_hint: "TIFF page or icon size to preview and convert",
+    report_title: "Batch Report",
+    report_saved: "Saved",
+    report_grew: "Grew by",
+    report_completed: "Completed",
+    report_failed: "Failed",
+    report_avg_time: "Avg. Time",
+    report_pixels: "Pixels",
+    report_format: "Format",
+    report_count: "Files",
+    report_size: "Size",
+    report_change: "Change",
+    report_in_zip: "Include CSV / JSON report in ZIP",
+    dup_title: "Duplicates",
+    dup_hint: "Exact copies are found by content hash, resized re-exports by perceptual hash. The best copy has the most pixels, then the largest file, then was queued first.",
+    dup_exact: "Exact copies",
+    dup_similar: "Similar",
+    dup_best: "Best",
+    dup_keep_best: "Keep best only",
+    dup_keep_best_all: "Keep best in all groups",
+    dup_remove: "Remove from queue",
+    background_title: "Background & Canvas",
+    background_flatten: "Flatten alpha formats too",
+    background_color_hint: "Formats without transparency, such as JPEG, always fill transparent areas with this color.",
+    background_trim: "Auto-trim uniform / transparent borders",
+    background_tolerance: "Tolerance",
+    background_pad: "Padding",
+    background_pad_none: "None",
+    background_pad_canvas: "Fixed Canvas",
+    background_pad_aspect: "Aspect Ratio",
+    background_margin: "Margin",
+    filters_title: "Adjustments",
+    filters_add: "Add",
+    filters_preview_hint: "Hold the preview to see the original. Filters run in list order.",
+    filter_grayscale: "Grayscale",
+    filter_brightness: "Brightness",
+    filter_contrast: "Contrast",
+    filter_saturation: "Saturation",
+    filter_sharpen: "Sharpen (Unsharp)",
+    filter_blur: "Blur",
+    filter_auto_levels: "Auto Levels",
+    filter_amount: "Amount",
+    filter_radius: "Radius",
+    edit_open: "Crop & Rotate",
+    edit_title: "Edit",
+    edit_rotate_left: "Rotate 90° left",
+    edit_rotate_right: "Rotate 90° right",
+    edit_flip_h: "Flip horizontally",
+    edit_flip_v: "Flip vertically",
+    edit_straighten: "Straighten",
+    edit_aspect_free: "Free",
+    edit_reset: "Reset",
+    edit_apply: "Apply",
+    card_quality_poor: "Visible quality loss — consider a higher quality or compare the result",
+    compare_open: "Before / after",
+    compare_split: "Split",
+    compare_difference: "Difference",
+    compare_zoom_in: "Zoom in",
+    compare_zoom_out: "Zoom out",
+    compare_fit: "Fit to window",
+    override_title: "Image settings",
+    override_inherit: "Inherit",
+    override_format: "Format",
+    override_quality: "Custom quality",
+    override_resize: "Custom size",
+    override_clear: "Reset to batch settings",
+    rules_title: "Format rules",
+    rules_add: "Add rule",
+    rules_hint: "Give one input format its own output format, quality or size, e.g. all PNG → lossless WebP (quality 100%).",
+    rules_source: "Input",
+    presets_title: "Presets",
+    presets_empty: "Save the current mode and all settings as a named preset; export to JSON to share with your team.",
+    presets_name_placeholder: "Preset name, e.g. \"Blog hero\"",
+    presets_save: "Save",
+    presets_import: "Import presets (JSON)",
+    presets_export: "Export presets (JSON)",
+    presets_none_found: "No usable presets in this file",
+    naming_label: "File names",
+    naming_preview: "Example:",
+    naming_conflict_label: "When the folder already has the file",
+    naming_layout_mirror: "Keep folder layout",
+    naming_layout_flat: "Flatten",
+    naming_conflict_rename: "Rename",
+    naming_conflict_overwrite: "Overwrite",
+    naming_conflict_skip: "Skip",
+    naming_conflict_hint: "Duplicate names within one export always get a -2, -3… suffix.",
+    watermark_title: "Watermark",
+    watermark_text: "Text",
+    watermark_image: "Image",
+    watermark_bold: "Bold",
+    watermark_upload: "Upload watermark image (transparent PNG works best)",
+    watermark_size: "Size (of short edge)",
+    watermark_opacity: "Opacity",
+    watermark_margin: "Margin",
+    watermark_rotation: "Rotation",
+    watermark_tile: "Tile",
+    icons_title: "Icon Set",
+    icons_ico_sizes: "favicon.ico sizes",
+    icons_encoding_auto: "Auto",
+    icons_encoding_png: "PNG",
+    icons_encoding_bmp: "BMP",
+    icons_apple_touch: "Apple touch icon (180px)",
+    icons_pwa_sizes: "Android / PWA sizes",
+    icons_maskable: "Maskable",
+    icons_maskable_label: "Generate maskable icons",
+    icons_padding: "Safe-zone padding",
+    icons_background: "Background",
+    icons_theme_color: "Theme color",
+    icons_app_name: "App name",
+    icons_short_name: "Short name",
+    icons_base_path: "Path prefix",
+    responsive_title: "Responsive srcset",
+    responsive_widths: "Breakpoint widths",
+    responsive_formats: "Formats (by preference)",
+    responsive_sizes: "sizes attribute",
+    responsive_hint: "Each image is rendered at every width and format with a -320w style suffix; exports include srcset.html and srcset.json. Sources narrower than a breakpoint are never enlarged.",
     alert_folder_success: "All images saved successfully!",
-    alert_folder_fail: "Folder export failed: ",
+    alert_presets_import_fail: "Failed to import presets: ",
+    alert_presets_save_fail: "Could not save presets: browser storage is full. Try deleting unused presets or using a smaller watermark image.",
+    alert_watermark_fail: "Could not read this watermark image.",
+    alert_folder_skipped: "Existing files skipped: ",
+    alert_archive_fail: "Could not read archive: ",
+    alert_folder_fail: "Folder access failed: ",
     alert_folder_unsupported: "Your browser doesn't support folder access, please use ZIP.",
     alert_zip_fail: "Failed to generate ZIP.",
     lang_name: "English"
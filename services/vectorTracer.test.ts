@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { traceToSvg } from './vectorTracer.ts';
+import { TraceOptions } from '../types.ts';
+import { DEFAULT_TRACE_OPTIONS } from './imageProcessor.ts';
+
+type Rgba = [number, number, number, number];
+
+/** Builds an RGBA bitmap from a per-pixel color function. */
+const bitmap = (width: number, height: number, color: (x: number, y: number) => Rgba) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(color(x, y), (y * width + x) * 4);
+  }
+  return data;
+};
+
+const RED: Rgba = [220, 30, 40, 255];
+const WHITE: Rgba = [255, 255, 255, 255];
+const BLUE: Rgba = [20, 60, 200, 255];
+const CLEAR: Rgba = [0, 0, 0, 0];
+
+const FIXTURES: { name: string; width: number; height: number; color: (x: number, y: number) => Rgba; options?: Partial<TraceOptions> }[] = [
+  {
+    name: 'square on white',
+    width: 16,
+    height: 16,
+    color: (x, y) => (x >= 4 && x < 12 && y >= 4 && y < 12 ? RED : WHITE),
+  },
+  {
+    name: 'disc with a hole on transparency',
+    width: 24,
+    height: 24,
+    color: (x, y) => {
+      const d = Math.hypot(x - 11.5, y - 11.5);
+      return d < 4 ? CLEAR : d < 10 ? BLUE : CLEAR;
+    },
+  },
+  {
+    name: 'three bands, low detail and full smoothing',
+    width: 30,
+    height: 12,
+    color: x => (x < 10 ? RED : x < 20 ? WHITE : BLUE),
+    options: { colors: 3, detail: 0.2, smoothing: 1 },
+  },
+];
+
+describe('traceToSvg', () => {
+  for (const { name, width, height, color, options } of FIXTURES) {
+    it(`traces ${name} to the same SVG on every run`, () => {
+      const trace = { ...DEFAULT_TRACE_OPTIONS, ...options };
+      const first = traceToSvg(bitmap(width, height, color), width, height, width * 2, height * 2, trace);
+      const second = traceToSvg(bitmap(width, height, color), width, height, width * 2, height * 2, trace);
+      expect(second).toBe(first);
+      expect(first).toMatchSnapshot();
+    });
+  }
+});
@@ -0,0 +1,270 @@
+import { TraceOptions } from '../types.ts';
+import { Color, buildPalette, mapToPalette } from './quantize.ts';
+
+type Point = [number, number];
+
+const fmt = (n: number): string => String(Math.round(n * 100) / 100);
+
+const toHex = ([r, g, b]: Color): string =>
+  '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+
+const neighboursOf = (p: number, width: number, length: number): number[] => {
+  const x = p % width;
+  return [
+    x > 0 ? p - 1 : -1,
+    x < width - 1 ? p + 1 : -1,
+    p >= width ? p - width : -1,
+    p + width < length ? p + width : -1,
+  ];
+};
+
+/**
+ * Folds connected regions smaller than `minArea` into the neighbouring color
+ * they share the longest border with. Regions are visited in raster order so
+ * the outcome is deterministic.
+ */
+const removeSpeckles = (
+  indices: Uint8Array,
+  width: number,
+  transparent: number,
+  minArea: number
+) => {
+  if (minArea <= 1) return;
+  const visited = new Uint8Array(indices.length);
+  const stack: number[] = [];
+  const region: number[] = [];
+
+  for (let start = 0; start < indices.length; start++) {
+    if (visited[start]) continue;
+    const color = indices[start];
+    region.length = 0;
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      region.push(p);
+      for (const n of neighboursOf(p, width, indices.length)) {
+        if (n >= 0 && !visited[n] && indices[n] === color) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (color === transparent || region.length >= minArea) continue;
+
+    const borders = new Map<number, number>();
+    for (const p of region) {
+      for (const n of neighboursOf(p, width, indices.length)) {
+        if (n >= 0 && indices[n] !== color) {
+          borders.set(indices[n], (borders.get(indices[n]) || 0) + 1);
+        }
+      }
+    }
+    let replacement = -1;
+    let longest = 0;
+    borders.forEach((length, candidate) => {
+      if (length > longest || (length === longest && candidate < replacement)) {
+        longest = length;
+        replacement = candidate;
+      }
+    });
+    if (replacement >= 0) {
+      for (const p of region) indices[p] = replacement;
+    }
+  }
+};
+
+/**
+ * Builds closed outlines for every color along pixel boundaries. Each boundary
+ * edge is directed so the color lies on its right, which makes holes wind in
+ * the opposite direction and keeps the default nonzero fill rule correct.
+ */
+const traceOutlines = (
+  indices: Uint8Array,
+  width: number,
+  height: number,
+  colorCount: number
+): Point[][][] => {
+  const stride = width + 1;
+  const edges: number[][] = Array.from({ length: colorCount }, () => []);
+  const colorAt = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? -1 : indices[y * width + x];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const c = indices[y * width + x];
+      if (c >= colorCount) continue;
+      const list = edges[c];
+      if (colorAt(x, y - 1) !== c) list.push(y * stride + x, y * stride + x + 1);
+      if (colorAt(x + 1, y) !== c) list.push(y * stride + x + 1, (y + 1) * stride + x + 1);
+      if (colorAt(x, y + 1) !== c) list.push((y + 1) * stride + x + 1, (y + 1) * stride + x);
+      if (colorAt(x - 1, y) !== c) list.push((y + 1) * stride + x, y * stride + x);
+    }
+  }
+
+  return edges.map(list => {
+    const edgeCount = list.length / 2;
+    const outgoing = new Map<number, number[]>();
+    for (let e = 0; e < edgeCount; e++) {
+      const from = list[e * 2];
+      const bucket = outgoing.get(from);
+      if (bucket) bucket.push(e);
+      else outgoing.set(from, [e]);
+    }
+
+    const used = new Uint8Array(edgeCount);
+    const loops: Point[][] = [];
+    for (let e = 0; e < edgeCount; e++) {
+      if (used[e]) continue;
+      const loop: Point[] = [];
+      let current = e;
+      while (current >= 0 && !used[current]) {
+        used[current] = 1;
+        const from = list[current * 2];
+        loop.push([from % stride, Math.floor(from / stride)]);
+        const next = outgoing.get(list[current * 2 + 1]) || [];
+        current = next.find(candidate => !used[candidate]) ?? -1;
+      }
+      loops.push(dropCollinear(loop));
+    }
+    return loops;
+  });
+};
+
+const dropCollinear = (loop: Point[]): Point[] => {
+  const n = loop.length;
+  return loop.filter((p, i) => {
+    const prev = loop[(i + n - 1) % n];
+    const next = loop[(i + 1) % n];
+    return (p[0] - prev[0]) * (next[1] - p[1]) !== (p[1] - prev[1]) * (next[0] - p[0]);
+  });
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+};
+
+/** Iterative Ramer-Douglas-Peucker, so long staircase outlines cannot overflow the stack. */
+const douglasPeucker = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let index = -1;
+    let maxDist = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index < 0) continue;
+    keep[index] = 1;
+    ranges.push([first, index], [index, last]);
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+/** Simplifies a closed loop by splitting it at its two most distant vertices. */
+const simplifyLoop = (loop: Point[], tolerance: number): Point[] => {
+  if (loop.length < 4 || tolerance <= 0) return loop;
+  let far = 0;
+  let farDist = 0;
+  for (let i = 1; i < loop.length; i++) {
+    const d = Math.hypot(loop[i][0] - loop[0][0], loop[i][1] - loop[0][1]);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  }
+  const first = douglasPeucker(loop.slice(0, far + 1), tolerance);
+  const second = douglasPeucker([...loop.slice(far), loop[0]], tolerance);
+  const result = [...first.slice(0, -1), ...second.slice(0, -1)];
+  return result.length >= 3 ? result : loop;
+};
+
+/**
+ * Emits path data for a closed loop. With smoothing, every corner becomes a
+ * quadratic curve whose end points sit `smoothing / 2` of the way along the
+ * adjacent segments; at 1 the outline runs through segment midpoints.
+ */
+const loopToPathData = (loop: Point[], smoothing: number, sx: number, sy: number): string => {
+  const n = loop.length;
+  const pt = (p: Point) => `${fmt(p[0] * sx)} ${fmt(p[1] * sy)}`;
+  if (smoothing <= 0) {
+    return 'M' + loop.map(pt).join('L') + 'Z';
+  }
+  const k = smoothing / 2;
+  const lerp = (a: Point, b: Point, t: number): Point => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+  let d = '';
+  let lastExit = '';
+  for (let i = 0; i < n; i++) {
+    const prev = loop[(i + n - 1) % n];
+    const corner = loop[i];
+    const next = loop[(i + 1) % n];
+    const entry = pt(lerp(corner, prev, k));
+    if (i === 0) d += 'M' + entry;
+    else if (entry !== lastExit) d += 'L' + entry;
+    lastExit = pt(lerp(corner, next, k));
+    d += 'Q' + pt(corner) + ' ' + lastExit;
+  }
+  return d + 'Z';
+};
+
+/**
+ * Traces RGBA pixels into a color-quantized SVG. Pixels are reduced to
+ * `options.colors` colors, speckles below the detail threshold are merged into
+ * their neighbours, and each color's outlines are simplified and emitted as a
+ * single `<path>`. Output depends only on the input pixels and options.
+ */
+export const traceToSvg = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  outWidth: number,
+  outHeight: number,
+  options: TraceOptions
+): string => {
+  const colors = Math.max(2, Math.min(64, Math.round(options.colors)));
+  const detail = Math.max(0, Math.min(1, options.detail));
+  const smoothing = Math.max(0, Math.min(1, options.smoothing));
+
+  const palette = buildPalette(data, colors);
+  const transparent = palette.length;
+  const indices = mapToPalette(data, palette, transparent);
+
+  const minArea = Math.round((1 - detail) * (1 - detail) * 0.002 * width * height) + 1;
+  removeSpeckles(indices, width, transparent, minArea);
+
+  const tolerance = 0.3 + (1 - detail) * 2.2;
+  const outlines = traceOutlines(indices, width, height, palette.length);
+
+  const area = new Array(palette.length).fill(0);
+  for (let p = 0; p < indices.length; p++) {
+    if (indices[p] < palette.length) area[indices[p]]++;
+  }
+  // Largest areas first so smaller details stack on top of their surroundings.
+  const order = palette.map((_, i) => i).filter(i => area[i] > 0).sort((a, b) => area[b] - area[a] || a - b);
+
+  const sx = outWidth / width;
+  const sy = outHeight / height;
+  const paths = order.map(i => {
+    const d = outlines[i]
+      .map(loop => simplifyLoop(loop, tolerance))
+      .filter(loop => loop.length >= 3)
+      .map(loop => loopToPathData(loop, smoothing, sx, sy))
+      .join('');
+    return d ? `<path fill="${toHex(palette[i])}" d="${d}"/>` : '';
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${outWidth}" height="${outHeight}" viewBox="0 0 ${outWidth} ${outHeight}">${paths}</svg>`;
+};
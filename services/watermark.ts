@@ -0,0 +1,146 @@
+import { ImageFormat, WatermarkAnchor, WatermarkOptions } from '../types.ts';
+import { AnyContext2D, canvasToBlob, createCanvas, getContext2D } from './canvas.ts';
+
+export const DEFAULT_WATERMARK: WatermarkOptions = {
+  enabled: false,
+  kind: 'text',
+  text: '© PixelFlex',
+  font: 'sans-serif',
+  bold: true,
+  color: '#FFFFFF',
+  image: null,
+  size: 0.05,
+  opacity: 0.6,
+  rotation: 0,
+  placement: 'bottom-right',
+  margin: 0.03,
+};
+
+export const WATERMARK_ANCHORS: WatermarkAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const WATERMARK_FONTS = ['sans-serif', 'serif', 'monospace', 'cursive', 'Georgia', 'Impact'];
+
+/**
+ * Longest edge an uploaded watermark image is kept at. The image is stored as
+ * a data URL inside presets, and localStorage only holds a few megabytes.
+ */
+export const MAX_WATERMARK_EDGE = 1024;
+
+/** Re-encodes an uploaded watermark image as PNG, scaled down to `MAX_WATERMARK_EDGE`. */
+export const shrinkWatermarkImage = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const ratio = Math.min(1, MAX_WATERMARK_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = createCanvas(Math.max(1, Math.round(bitmap.width * ratio)), Math.max(1, Math.round(bitmap.height * ratio)));
+    getContext2D(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvasToBlob(canvas, ImageFormat.PNG, 1);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** Watermark with its image (if any) decoded, ready to draw synchronously. */
+export interface PreparedWatermark {
+  options: WatermarkOptions;
+  image: ImageBitmap | null;
+}
+
+/** Last decoded watermark image; a batch stamps the same one on every file. */
+let cached: { url: string; image: Promise<ImageBitmap> } | null = null;
+
+const decodeWatermarkImage = (url: string): Promise<ImageBitmap> => {
+  if (cached?.url !== url) {
+    const image = fetch(url).then(response => response.blob()).then(blob => createImageBitmap(blob));
+    cached = { url, image };
+    image.catch(() => { if (cached?.image === image) cached = null; });
+  }
+  return cached.image;
+};
+
+/**
+ * Resolves the options into something drawable, or null when nothing would
+ * be drawn (disabled, empty text, or image mode without an image).
+ */
+export const prepareWatermark = async (options?: WatermarkOptions): Promise<PreparedWatermark | null> => {
+  if (!options?.enabled) return null;
+  if (options.kind === 'text') {
+    return options.text.trim() ? { options, image: null } : null;
+  }
+  if (!options.image) return null;
+  return { options, image: await decodeWatermarkImage(options.image) };
+};
+
+/** Column and row of an anchor on a 3x3 grid, each 0, 1 or 2. */
+const anchorCell = (anchor: WatermarkAnchor): [number, number] => {
+  const index = WATERMARK_ANCHORS.indexOf(anchor);
+  return [index % 3, Math.floor(index / 3)];
+};
+
+/**
+ * Stamps the watermark onto an output canvas of the given size. The mark is
+ * scaled to the shorter edge, rotated about its own center, and either placed
+ * at an anchor inside the margins or repeated across the whole canvas.
+ */
+export const drawWatermark = (
+  ctx: AnyContext2D,
+  width: number,
+  height: number,
+  watermark: PreparedWatermark
+) => {
+  const { options, image } = watermark;
+  const unit = Math.min(width, height);
+  const markHeight = Math.max(1, options.size * unit);
+  const margin = options.margin * unit;
+
+  ctx.save();
+  let markWidth: number;
+  if (image) {
+    markWidth = (image.width / image.height) * markHeight;
+  } else {
+    ctx.font = `${options.bold ? 'bold ' : ''}${markHeight}px ${options.font}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = options.color;
+    markWidth = ctx.measureText(options.text).width;
+  }
+  ctx.globalAlpha = Math.min(1, Math.max(0, options.opacity));
+
+  const angle = (options.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  // Bounding box of the rotated mark, used for placement.
+  const boxWidth = markWidth * cos + markHeight * sin;
+  const boxHeight = markWidth * sin + markHeight * cos;
+
+  const stamp = (cx: number, cy: number) => {
+    ctx.save();
+    ctx.translate(cx, cy);
+    ctx.rotate(angle);
+    if (image) {
+      ctx.drawImage(image, -markWidth / 2, -markHeight / 2, markWidth, markHeight);
+    } else {
+      ctx.fillText(options.text, 0, 0);
+    }
+    ctx.restore();
+  };
+
+  if (options.placement === 'tile') {
+    const stepX = boxWidth + Math.max(margin, markHeight);
+    const stepY = boxHeight + Math.max(margin, markHeight);
+    // Odd rows are shifted by half a step so the pattern reads as a lattice.
+    for (let row = 0, cy = stepY / 2; cy - boxHeight / 2 < height; row++, cy += stepY) {
+      const shift = row % 2 === 1 ? stepX / 2 : 0;
+      for (let cx = stepX / 2 - shift; cx - boxWidth / 2 < width; cx += stepX) stamp(cx, cy);
+    }
+  } else {
+    const [column, row] = anchorCell(options.placement);
+    const cx = [margin + boxWidth / 2, width / 2, width - margin - boxWidth / 2][column];
+    const cy = [margin + boxHeight / 2, height / 2, height - margin - boxHeight / 2][row];
+    stamp(cx, cy);
+  }
+  ctx.restore();
+};
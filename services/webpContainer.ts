@@ -0,0 +1,166 @@
+import { createByteWriter } from './bytes.ts';
+
+export interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+const readU24 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const readU32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const fourccAt = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+export const isWebp = (bytes: Uint8Array): boolean =>
+  bytes.length >= 12 && fourccAt(bytes, 0) === 'RIFF' && fourccAt(bytes, 8) === 'WEBP';
+
+/** Lists the top-level chunks of a RIFF/WEBP file. */
+export const readWebpChunks = (bytes: Uint8Array): RiffChunk[] => {
+  if (!isWebp(bytes)) throw new Error('Not a WebP file');
+  const chunks: RiffChunk[] = [];
+  let pos = 12;
+  while (pos + 8 <= bytes.length) {
+    const fourcc = fourccAt(bytes, pos);
+    const size = readU32(bytes, pos + 4);
+    chunks.push({ fourcc, data: bytes.subarray(pos + 8, pos + 8 + size) });
+    pos += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+/** Serializes chunks into a RIFF/WEBP file, padding odd-sized payloads. */
+export const writeWebpChunks = (chunks: RiffChunk[]): Uint8Array => {
+  const body = createByteWriter();
+  for (const chunk of chunks) {
+    body.ascii(chunk.fourcc);
+    body.u32le(chunk.data.length);
+    body.bytes(chunk.data);
+    if (chunk.data.length & 1) body.byte(0);
+  }
+  const out = createByteWriter(body.length + 12);
+  out.ascii('RIFF');
+  out.u32le(body.length + 4);
+  out.ascii('WEBP');
+  out.bytes(body.toUint8Array());
+  return out.toUint8Array();
+};
+
+/**
+ * Returns frame count and total duration for animated WebP files, or null for
+ * still images.
+ */
+export const probeWebpAnimation = (bytes: Uint8Array): { frameCount: number; duration: number } | null => {
+  const chunks = readWebpChunks(bytes);
+  const vp8x = chunks.find(c => c.fourcc === 'VP8X');
+  if (!vp8x || !(vp8x.data[0] & 0x02)) return null;
+  const frames = chunks.filter(c => c.fourcc === 'ANMF');
+  if (frames.length < 2) return null;
+  const duration = frames.reduce((sum, frame) => sum + readU24(frame.data, 12), 0);
+  return { frameCount: frames.length, duration };
+};
+
+const u24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+/**
+ * Muxes still WebP images of identical size into an animated WebP. Each frame
+ * is a full canvas, so frames are placed at the origin without blending.
+ */
+export const muxAnimatedWebp = (
+  frames: { bytes: Uint8Array; delay: number }[],
+  width: number,
+  height: number
+): Uint8Array => {
+  let hasAlpha = false;
+  const anmf: RiffChunk[] = frames.map(({ bytes, delay }) => {
+    const bitstream = readWebpChunks(bytes).filter(c =>
+      c.fourcc === 'ALPH' || c.fourcc === 'VP8 ' || c.fourcc === 'VP8L'
+    );
+    if (bitstream.some(c => c.fourcc === 'ALPH' || c.fourcc === 'VP8L')) hasAlpha = true;
+
+    const frame = createByteWriter();
+    frame.bytes([...u24(0), ...u24(0), ...u24(width - 1), ...u24(height - 1)]);
+    frame.bytes(u24(Math.min(0xffffff, Math.round(delay))));
+    frame.byte(0x02); // do not blend, no disposal
+    for (const chunk of bitstream) {
+      frame.ascii(chunk.fourcc);
+      frame.u32le(chunk.data.length);
+      frame.bytes(chunk.data);
+      if (chunk.data.length & 1) frame.byte(0);
+    }
+    return { fourcc: 'ANMF', data: frame.toUint8Array() };
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0);
+  vp8x.set(u24(width - 1), 4);
+  vp8x.set(u24(height - 1), 7);
+  // Background color (transparent) and infinite loop.
+  const anim = new Uint8Array([0, 0, 0, 0, 0, 0]);
+
+  return writeWebpChunks([
+    { fourcc: 'VP8X', data: vp8x },
+    { fourcc: 'ANIM', data: anim },
+    ...anmf,
+  ]);
+};
+
+export interface WebpMetadata {
+  icc?: Uint8Array;
+  exif?: Uint8Array;
+  xmp?: Uint8Array;
+}
+
+const METADATA_FOURCCS = ['VP8X', 'ICCP', 'EXIF', 'XMP '];
+
+/** Canvas size and alpha usage read from a simple-format (VP8/VP8L) bitstream. */
+const readBitstreamInfo = (chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } => {
+  const lossless = chunks.find(c => c.fourcc === 'VP8L');
+  if (lossless) {
+    const bits = readU32(lossless.data, 1);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: !!((bits >>> 28) & 1) };
+  }
+  const lossy = chunks.find(c => c.fourcc === 'VP8 ');
+  if (!lossy) throw new Error('WebP bitstream not found');
+  const u16 = (o: number) => lossy.data[o] | (lossy.data[o + 1] << 8);
+  return {
+    width: u16(6) & 0x3fff,
+    height: u16(8) & 0x3fff,
+    alpha: chunks.some(c => c.fourcc === 'ALPH'),
+  };
+};
+
+/**
+ * Rewrites a WebP file with the given ICC profile, EXIF and XMP chunks,
+ * replacing any it already had. Simple files are promoted to the extended
+ * (VP8X) layout, which is the only one that can carry metadata.
+ */
+export const setWebpMetadata = (bytes: Uint8Array, metadata: WebpMetadata): Uint8Array => {
+  const chunks = readWebpChunks(bytes);
+  const existing = chunks.find(c => c.fourcc === 'VP8X');
+  const image = chunks.filter(c => !METADATA_FOURCCS.includes(c.fourcc));
+
+  const vp8x = new Uint8Array(10);
+  if (existing) {
+    vp8x.set(existing.data.subarray(0, 10));
+  } else {
+    const { width, height, alpha } = readBitstreamInfo(chunks);
+    vp8x[0] = alpha ? 0x10 : 0;
+    vp8x.set(u24(width - 1), 4);
+    vp8x.set(u24(height - 1), 7);
+  }
+  vp8x[0] = (vp8x[0] & ~0x2c)
+    | (metadata.icc ? 0x20 : 0)
+    | (metadata.exif ? 0x08 : 0)
+    | (metadata.xmp ? 0x04 : 0);
+
+  return writeWebpChunks([
+    { fourcc: 'VP8X', data: vp8x },
+    ...(metadata.icc ? [{ fourcc: 'ICCP', data: metadata.icc }] : []),
+    ...image,
+    ...(metadata.exif ? [{ fourcc: 'EXIF', data: metadata.exif }] : []),
+    ...(metadata.xmp ? [{ fourcc: 'XMP ', data: metadata.xmp }] : []),
+  ]);
+};
@@ -0,0 +1,162 @@
+import { ConversionOptions, ConversionResult, ImageFormat, RenderOutput } from '../types.ts';
+import { convertImage } from './imageProcessor.ts';
+import type { WorkerRequest, WorkerResponse } from './conversionWorker.ts';
+
+export const defaultConcurrency = (): number =>
+  Math.max(1, Math.min(navigator.hardwareConcurrency || 4, 16));
+
+export const supportsWorkerConversion = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+interface PendingJob {
+  resolve: (output: RenderOutput) => void;
+  reject: (err: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  busy: boolean;
+}
+
+export interface Converter {
+  /** Number of conversions worth keeping in flight at once. */
+  concurrency: number;
+  /** Rejects with the signal's reason when aborted, whether the job is queued or running. */
+  convert: (file: File, options: ConversionOptions, signal?: AbortSignal) => Promise<ConversionResult>;
+  dispose: () => void;
+}
+
+const spawnWorker = (): Worker =>
+  new Worker(new URL('./conversionWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Creates a converter backed by a pool of `size` conversion workers. Jobs beyond
+ * the pool size wait in a FIFO queue. Falls back to the main-thread
+ * `convertImage` when OffscreenCanvas is unavailable, and always for SVG inputs,
+ * which workers cannot rasterize. Aborting a running job terminates its worker,
+ * since a busy worker never sees messages posted to it.
+ */
+export const createConverter = (size: number): Converter => {
+  if (!supportsWorkerConversion()) {
+    return { concurrency: 1, convert: convertImage, dispose: () => {} };
+  }
+
+  const slots: PoolWorker[] = [];
+  const pending = new Map<number, PendingJob>();
+  const waiting: WorkerRequest[] = [];
+  const assignments = new Map<Worker, number>();
+  let nextJobId = 0;
+
+  const release = (slot: PoolWorker) => {
+    slot.busy = false;
+    assignments.delete(slot.worker);
+    dispatch();
+  };
+
+  const attach = (slot: PoolWorker) => {
+    slot.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const job = pending.get(e.data.jobId);
+      pending.delete(e.data.jobId);
+      if (job) {
+        if ('output' in e.data) job.resolve(e.data.output);
+        else job.reject(new Error(e.data.error));
+      }
+      release(slot);
+    };
+    slot.worker.onerror = (e: ErrorEvent) => {
+      // A crashed worker is replaced so the remaining queue keeps draining.
+      const jobId = assignments.get(slot.worker);
+      const job = jobId !== undefined ? pending.get(jobId) : undefined;
+      if (jobId !== undefined) pending.delete(jobId);
+      job?.reject(new Error(e.message || 'Worker crashed'));
+      replace(slot);
+    };
+  };
+
+  const replace = (slot: PoolWorker) => {
+    slot.worker.terminate();
+    assignments.delete(slot.worker);
+    slot.worker = spawnWorker();
+    attach(slot);
+    release(slot);
+  };
+
+  const cancel = (jobId: number, reason: unknown) => {
+    const job = pending.get(jobId);
+    if (!job) return;
+    pending.delete(jobId);
+    const queued = waiting.findIndex(request => request.jobId === jobId);
+    if (queued !== -1) {
+      waiting.splice(queued, 1);
+    } else {
+      const slot = slots.find(s => assignments.get(s.worker) === jobId);
+      if (slot) replace(slot);
+    }
+    job.reject(reason);
+  };
+
+  const dispatch = () => {
+    while (waiting.length > 0) {
+      let slot = slots.find(s => !s.busy);
+      if (!slot && slots.length < size) {
+        slot = { worker: spawnWorker(), busy: false };
+        attach(slot);
+        slots.push(slot);
+      }
+      if (!slot) return;
+      const request = waiting.shift()!;
+      slot.busy = true;
+      assignments.set(slot.worker, request.jobId);
+      slot.worker.postMessage(request);
+    }
+  };
+
+  const convert = async (file: File, options: ConversionOptions, signal?: AbortSignal): Promise<ConversionResult> => {
+    if (file.type === ImageFormat.SVG) return convertImage(file, options, signal);
+    signal?.throwIfAborted();
+
+    const output = await new Promise<RenderOutput>((resolve, reject) => {
+      const jobId = nextJobId++;
+      const onAbort = () => cancel(jobId, signal!.reason);
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+      pending.set(jobId, {
+        resolve: output => { settle(); resolve(output); },
+        reject: err => { settle(); reject(err); },
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiting.push({ jobId, file, options });
+      dispatch();
+    });
+    return { ...output, url: URL.createObjectURL(output.blob) };
+  };
+
+  const dispose = () => {
+    slots.forEach(s => s.worker.terminate());
+    slots.length = 0;
+    waiting.length = 0;
+    pending.forEach(job => job.reject(new Error('Converter disposed')));
+    pending.clear();
+  };
+
+  return { concurrency: size, convert, dispose };
+};
+
+/**
+ * Runs `task` over `items` with at most `limit` tasks in flight at once.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let cursor = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (cursor < items.length) {
+      const item = items[cursor++];
+      await task(item);
+    }
+  });
+  await Promise.all(lanes);
+};
@@ -0,0 +1,11 @@
+const pipeThrough = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const response = new Response(new Blob([data]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/** zlib-wrapped deflate via the platform CompressionStream. */
+export const zlibCompress = (data: Uint8Array): Promise<Uint8Array> =>
+  pipeThrough(data, new CompressionStream('deflate'));
+
+export const zlibDecompress = (data: Uint8Array): Promise<Uint8Array> =>
+  pipeThrough(data, new DecompressionStream('deflate'));
@@ -9,7 +9,8 @@ export enum ImageFormat {
 
 export enum AppMode {
   CONVERT = 'convert',
-  COMPRESS = 'compress'
+  COMPRESS = 'compress',
+  ICONS = 'icons'
 }
 
 export type Language = 'zh' | 'en';
@@ -19,18 +20,388 @@ export type ConversionStatus = 'idle' | 'processing' | 'completed' | 'error';
 export interface ImageFile {
   id: string;
   file: File;
+  /** Path below the dropped or picked folder, including the file name; exports recreate its folders. */
+  relativePath?: string;
+  /** Path of the ZIP archive the image was extracted from; `relativePath` is then inside the archive. */
+  archive?: string;
   previewUrl: string;
   originalSize: number;
   format: ImageFormat;
   status: ConversionStatus;
   resultUrl?: string;
+  /** MIME type of the main result. */
+  resultFormat?: string;
   resultSize?: number;
+  resultWidth?: number;
+  resultHeight?: number;
+  /** Encoder quality the result was produced with, after overrides and target-size search. */
+  resultQuality?: number;
+  targetSizeReport?: TargetSizeReport;
+  animation?: AnimationInfo;
+  /** Per-frame outputs when an animation was converted to a still format. */
+  resultFrames?: Blob[];
+  /** Named outputs that replace the single result in exports, such as a generated icon set. */
+  resultFiles?: OutputFile[];
+  /** Copy-ready HTML that references `resultFiles`. */
+  resultHtml?: string;
+  /** Every width and format of a responsive set; the main result is the largest of the first format. */
+  resultVariants?: ResponsiveVariant[];
+  /** Time the last conversion took, in milliseconds. */
+  elapsed?: number;
+  /** Fidelity of the result against the original, measured after conversion. */
+  metrics?: QualityMetrics;
+  /** Set when the fidelity measurement could not decode the original or the result. */
+  metricsFailed?: boolean;
+  /** Settings that replace the batch values for this image only. */
+  overrides?: SettingOverrides;
+  /** Crop, rotation and flips applied to the source before resizing. */
+  transform?: ImageTransform;
+  /** Content and perceptual hashes, computed after the image is queued. */
+  fingerprint?: ImageFingerprint;
+  /** Pages or icon entries of a TIFF, ICO or other TypeScript-decoded input, once probed. */
+  pages?: RasterPage[];
+  /** Index into `pages` that is previewed and converted. */
+  page?: number;
   error?: string;
 }
 
+/** One page of a multi-page TIFF or one entry of an icon. */
+export interface RasterPage {
+  width: number;
+  height: number;
+  /** Bits per pixel, when the format tells. */
+  depth?: number;
+}
+
+export interface ImageFingerprint {
+  /** Hex digest of the file bytes; equal hashes are byte-identical copies. */
+  hash: string;
+  /** 64-bit difference hash as 16 hex digits, or null when the browser cannot decode the image. */
+  dhash: string | null;
+  /** Upright pixel size; 0 when not decoded. */
+  width: number;
+  height: number;
+}
+
+/** Rectangle in 0–1 fractions of the rotated image's width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Non-destructive edit of one source image. Applied in order: quarter turns,
+ * straightening, flips (along the turned image's axes), then the crop.
+ */
+export interface ImageTransform {
+  rotate: 0 | 90 | 180 | 270;
+  /** Straightening angle in degrees, clockwise; the image is enlarged so no empty corners show. */
+  angle: number;
+  flipH: boolean;
+  flipV: boolean;
+  crop: CropRect | null;
+}
+
+export interface QualityMetrics {
+  /** Peak signal-to-noise ratio in dB; Infinity for identical pixels. */
+  psnr: number;
+  /** Structural similarity, 0–1. */
+  ssim: number;
+}
+
+export interface AnimationInfo {
+  frameCount: number;
+  /** Total playback time in milliseconds. */
+  duration: number;
+}
+
 export interface GlobalSettings {
   mode: AppMode;
   targetFormat: ImageFormat | 'original';
   quality: number;
+  resize: ResizeOptions;
+  concurrency: number;
+  /** COMPRESS-mode byte budget; `null` uses the fixed quality slider instead. */
+  targetSize: TargetSizeOptions | null;
+  trace: TraceOptions;
+  gif: GifOptions;
+  metadata: MetadataPolicy;
+  png: PngOptions;
+  /** Per-input-format overrides, applied before each image's own overrides. */
+  rules: FormatRule[];
+  naming: NamingOptions;
+  watermark: WatermarkOptions;
+  icons: IconOptions;
+  responsive: ResponsiveOptions;
+  /** Adjustments run in list order on every output. */
+  filters: FilterStep[];
+  background: BackgroundOptions;
+}
+
+export type PadMode = 'none' | 'canvas' | 'aspect';
+
+/**
+ * Alpha flattening, border trimming and padding. Stills are trimmed before
+ * resizing; the resized image is then padded. Animations are padded but not
+ * trimmed, so frames keep a common crop.
+ */
+export interface BackgroundOptions {
+  /** Fill for flattened alpha and, on targets without alpha, for padding; `#rrggbb`. */
+  color: string;
+  /** Flatten onto `color` even when the target keeps alpha. Targets without alpha always are. */
+  flatten: boolean;
+  trim: boolean;
+  /** 0–1; how far border pixels may differ from the corner colour and still be trimmed. */
+  trimTolerance: number;
+  pad: PadMode;
+  /** Output size for `canvas` padding; the image is scaled to fit inside. */
+  padWidth: number;
+  padHeight: number;
+  /** Width over height for `aspect` padding; the image keeps its size. */
+  padRatio: number;
+  /** Free space around the image, as a fraction of the padded output's shorter edge. */
+  padMargin: number;
+}
+
+export type FilterKind = 'grayscale' | 'brightness' | 'contrast' | 'saturation' | 'sharpen' | 'blur' | 'autoLevels';
+
+/**
+ * One adjustment of the filter chain. `amount` is read by every kind except
+ * blur; `radius` (in output pixels) only by sharpen and blur.
+ */
+export interface FilterStep {
+  id: string;
+  kind: FilterKind;
+  enabled: boolean;
+  amount: number;
+  radius: number;
+}
+
+/**
+ * Renders every image once per width and format instead of once, for
+ * `srcset`/`<picture>` markup. Widths replace the resize settings; sources
+ * narrower than a breakpoint are never enlarged.
+ */
+export interface ResponsiveOptions {
+  enabled: boolean;
+  /** Target widths in pixels. */
+  widths: number[];
+  /** Output formats, most preferred first; the first of JPEG/PNG becomes the `<img>` fallback. */
+  formats: ImageFormat[];
+  /** Value of the generated `sizes` attribute, e.g. `(min-width: 1024px) 50vw, 100vw`. */
+  sizes: string;
+}
+
+export interface ResponsiveVariant {
+  width: number;
+  height: number;
+  format: ImageFormat;
+  blob: Blob;
+}
+
+/**
+ * ICONS-mode output set. Every icon is square; non-square sources are
+ * centered and letterboxed with transparency (or `background`, where set).
+ */
+export interface IconOptions {
+  /** Edge lengths embedded in `favicon.ico`, at most 256. */
+  icoSizes: number[];
+  /** How ICO entries are stored: PNG-compressed, uncompressed BMP, or BMP up to 48px and PNG above. */
+  icoEncoding: 'png' | 'bmp' | 'auto';
+  appleTouch: boolean;
+  /** Edge lengths of the Android/PWA icons listed in the manifest. */
+  pwaSizes: number[];
+  maskable: boolean;
+  /** Per-side inset of maskable icons as a fraction of the edge; 0.1 keeps the content inside the 80% safe zone. */
+  maskablePadding: number;
+  /** Fill behind Apple and maskable icons, and the manifest `background_color`. */
+  background: string;
+  themeColor: string;
+  appName: string;
+  shortName: string;
+  /** URL prefix of every href in the manifest and link snippet, e.g. `/` or `/static/icons/`. */
+  basePath: string;
+}
+
+export type WatermarkAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * Text or image stamped onto every output after resizing. Sizes are fractions
+ * of the output's shorter edge so the mark looks the same at any output size.
+ */
+export interface WatermarkOptions {
+  enabled: boolean;
+  kind: 'text' | 'image';
+  text: string;
+  font: string;
+  bold: boolean;
+  color: string;
+  /** Data URL of the uploaded watermark image; kept as a string so presets can store it. */
+  image: string | null;
+  /** Text height or image height, relative to the shorter output edge. */
+  size: number;
+  /** 0-1. */
+  opacity: number;
+  /** Degrees, clockwise. */
+  rotation: number;
+  placement: WatermarkAnchor | 'tile';
+  /** Distance from the anchored edges (or between tiles), relative to the shorter output edge. */
+  margin: number;
+}
+
+/** What folder export does when the target folder already holds a file of that name. */
+export type NameConflictPolicy = 'overwrite' | 'skip' | 'rename';
+
+export interface NamingOptions {
+  /** Output base name; `{name}`, `{index}`, `{width}` and other tokens are expanded. */
+  template: string;
+  conflict: NameConflictPolicy;
+  /** Recreate the input folders and archives as subfolders, or put every file at the top level. */
+  layout: 'mirror' | 'flat';
+}
+
+/** Pipeline settings a preset captures; concurrency stays machine-specific. */
+export type PresetSettings = Omit<GlobalSettings, 'concurrency'>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+}
+
+/** Optional replacements for batch settings; unset fields fall through. */
+export interface SettingOverrides {
+  targetFormat?: ImageFormat | 'original';
+  quality?: number;
+  resize?: ResizeOptions;
+}
+
+/** Overrides applied to every input of one MIME type, e.g. all PNGs to lossless WebP. */
+export interface FormatRule {
+  id: string;
+  source: ImageFormat;
+  overrides: SettingOverrides;
+}
+
+/** COMPRESS-mode PNG optimizer settings. */
+export interface PngOptions {
+  /** Also try a dithered palette when the image has more than `colors` colors. */
+  lossy: boolean;
+  /** Palette size for the lossy candidate (2-256). */
+  colors: number;
+}
+
+/**
+ * What happens to EXIF/XMP/ICC data of the source: drop everything, keep only
+ * author and copyright fields, or carry everything over to the output.
+ */
+export type MetadataPolicy = 'strip' | 'copyright' | 'all';
+
+/** Palette controls for the built-in GIF encoder. */
+export interface GifOptions {
+  /** Maximum palette size per frame (2-256), including the transparent slot. */
+  colors: number;
+  dither: boolean;
+}
+
+/**
+ * How output dimensions are derived from the source:
+ * - `scale`: multiply both edges by `scale`
+ * - `width` / `height`: exact edge, other edge keeps the aspect ratio
+ * - `longEdge`: longest edge equals `longEdge`
+ * - `fit`: largest size inside `width` x `height`
+ * - `cover`: fill `width` x `height` exactly, cropping the overflow
+ */
+export type ResizeMode = 'scale' | 'width' | 'height' | 'longEdge' | 'fit' | 'cover';
+
+export interface ResizeOptions {
+  mode: ResizeMode;
+  scale: number;
+  width: number;
+  height: number;
+  longEdge: number;
+  /** Crop anchor for `cover`: the center, or the busiest region of the image. */
+  crop: 'center' | 'smart';
+  /** Never enlarge beyond the source size, whatever the mode asks for. */
+  noUpscale: boolean;
+}
+
+/** Controls for the SVG vector tracer. */
+export interface TraceOptions {
+  /** Palette size the image is quantized to before tracing (2-64). */
+  colors: number;
+  /** 0-1; higher keeps smaller regions and follows outlines more tightly. */
+  detail: number;
+  /** 0-1; 0 emits straight polygons, 1 rounds every corner fully. */
+  smoothing: number;
+}
+
+export interface TargetSizeOptions {
+  bytes: number;
+  allowDownscale: boolean;
+}
+
+/**
+ * Outcome of a target-size search, kept so the card can show how close the
+ * encoder got when the budget could not be met.
+ */
+export interface TargetSizeReport {
+  budget: number;
+  met: boolean;
+  quality: number;
+  /** Extra downscale applied on top of the resize settings to fit the budget. */
   scale: number;
+  /** Set for animations, which are encoded once at the chosen quality instead of searched. */
+  unsupported?: boolean;
+}
+
+/**
+ * Fully resolved options for a single conversion. Must stay structured-cloneable
+ * because it is posted to conversion workers as-is.
+ */
+export interface ConversionOptions {
+  targetFormat: ImageFormat;
+  quality: number;
+  resize: ResizeOptions;
+  targetSize?: TargetSizeOptions;
+  trace?: TraceOptions;
+  gif?: GifOptions;
+  metadata?: MetadataPolicy;
+  /** Runs PNG output through the optimizer when set. */
+  png?: PngOptions;
+  watermark?: WatermarkOptions;
+  /** Renders an icon set instead of a single image when set. */
+  icons?: IconOptions;
+  transform?: ImageTransform;
+  /** Enabled filter steps, applied after drawing and before the watermark. */
+  filters?: FilterStep[];
+  background?: BackgroundOptions;
+  /** Page or icon entry of a TypeScript-decoded input; its default when unset. */
+  page?: number;
+}
+
+/** One file of a multi-file result; `path` is relative to the image's export folder. */
+export interface OutputFile {
+  path: string;
+  blob: Blob;
+}
+
+export interface RenderOutput {
+  blob: Blob;
+  width: number;
+  height: number;
+  targetSizeReport?: TargetSizeReport;
+  animation?: AnimationInfo;
+  frames?: Blob[];
+  files?: OutputFile[];
+  html?: string;
+}
+
+export interface ConversionResult extends RenderOutput {
+  url: string;
 }